@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { Flashcard, ReviewGrade } from '../types';
+import { Brain, CheckCircle } from './Icons';
+
+interface FlashcardReviewProps {
+  cards: Flashcard[];
+  courseTitles: Record<string, string>;
+  onGrade: (card: Flashcard, grade: ReviewGrade) => void;
+  onClose: () => void;
+}
+
+const GRADE_BUTTONS: { grade: ReviewGrade; label: string; className: string }[] = [
+  { grade: 'again', label: 'Again', className: 'bg-red-50 text-red-700 hover:bg-red-100' },
+  { grade: 'hard', label: 'Hard', className: 'bg-orange-50 text-orange-700 hover:bg-orange-100' },
+  { grade: 'good', label: 'Good', className: 'bg-green-50 text-green-700 hover:bg-green-100' },
+  { grade: 'easy', label: 'Easy', className: 'bg-blue-50 text-blue-700 hover:bg-blue-100' },
+];
+
+const FlashcardReview: React.FC<FlashcardReviewProps> = ({ cards, courseTitles, onGrade, onClose }) => {
+  // Cards graded "Again" go back to the end of the session queue
+  const [queue, setQueue] = useState<Flashcard[]>(cards);
+  const [isFlipped, setIsFlipped] = useState(false);
+  const [reviewed, setReviewed] = useState(0);
+
+  const card = queue[0];
+
+  const handleGrade = (grade: ReviewGrade) => {
+    onGrade(card, grade);
+    setQueue(prev => grade === 'again' ? [...prev.slice(1), prev[0]] : prev.slice(1));
+    setReviewed(prev => prev + 1);
+    setIsFlipped(false);
+  };
+
+  if (!card) {
+    return (
+      <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-8 text-center">
+        <CheckCircle className="w-10 h-10 text-green-600 mx-auto mb-3" />
+        <h3 className="text-lg font-bold text-gray-900">Review complete</h3>
+        <p className="text-sm text-gray-500 mb-6">{reviewed} card{reviewed === 1 ? '' : 's'} reviewed. Come back when more are due.</p>
+        <button onClick={onClose} className="bg-black text-white px-5 py-2 rounded-lg text-sm hover:bg-gray-800 transition-colors">Back to Library</button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-6">
+      <div className="flex justify-between items-center mb-4 text-xs text-gray-500">
+        <span className="flex items-center uppercase tracking-wide">
+          <Brain className="w-4 h-4 mr-1.5 text-green-600" /> {courseTitles[card.courseId] || 'Course'} • {card.source}
+        </span>
+        <span>{queue.length} left</span>
+      </div>
+
+      <button
+        onClick={() => setIsFlipped(prev => !prev)}
+        className="w-full min-h-[160px] rounded-lg border border-gray-200 bg-gray-50 hover:bg-gray-100 transition-colors p-6 text-left"
+      >
+        <p className="text-lg font-semibold text-gray-900">{card.front}</p>
+        {isFlipped ? (
+          <p className="mt-4 pt-4 border-t border-gray-200 text-sm text-gray-700 whitespace-pre-line">{card.back}</p>
+        ) : (
+          <p className="mt-4 text-xs text-gray-400">Recall the answer, then click to reveal.</p>
+        )}
+      </button>
+
+      <div className="flex justify-between items-center mt-4">
+        <button onClick={onClose} className="text-sm text-gray-500 hover:text-black">End session</button>
+        {isFlipped && (
+          <div className="flex gap-2">
+            {GRADE_BUTTONS.map(({ grade, label, className }) => (
+              <button key={grade} onClick={() => handleGrade(grade)} className={`px-4 py-2 rounded-lg text-sm font-semibold transition-colors ${className}`}>
+                {label}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FlashcardReview;
@@ -0,0 +1,174 @@
+import React, { useRef, useState } from 'react';
+import { GraphNode, KnowledgeGraph, NodeStatus } from '../services/knowledgeGraph';
+
+interface KnowledgeMapProps {
+  graph: KnowledgeGraph;
+  onSelect: (id: number) => void;
+}
+
+const NODE_WIDTH = 200;
+const NODE_HEIGHT = 56;
+const COLUMN_GAP = 90;
+const ROW_GAP = 24;
+const PADDING = 24;
+const MIN_ZOOM = 0.4;
+const MAX_ZOOM = 2;
+
+const STATUS_STYLES: Record<NodeStatus, { fill: string; stroke: string; label: string }> = {
+  not_started: { fill: '#ffffff', stroke: '#d1d5db', label: 'Not started' },
+  in_progress: { fill: '#fef3c7', stroke: '#f59e0b', label: 'In progress' },
+  done: { fill: '#dcfce7', stroke: '#16a34a', label: 'Complete' },
+};
+
+const truncate = (text: string, max: number) => text.length > max ? `${text.slice(0, max - 1)}…` : text;
+
+const nodeX = (node: GraphNode) => PADDING + node.depth * (NODE_WIDTH + COLUMN_GAP);
+const nodeY = (node: GraphNode) => PADDING + node.row * (NODE_HEIGHT + ROW_GAP);
+
+// Prerequisites sit to the left of what they unlock. Scroll to zoom, drag to pan.
+const KnowledgeMap: React.FC<KnowledgeMapProps> = ({ graph, onSelect }) => {
+  const [zoom, setZoom] = useState(1);
+  const [offset, setOffset] = useState({ x: 0, y: 0 });
+  const [hovered, setHovered] = useState<number | null>(null);
+  const dragRef = useRef<{ x: number; y: number; moved: boolean } | null>(null);
+
+  const width = PADDING * 2 + graph.depthCount * NODE_WIDTH + Math.max(0, graph.depthCount - 1) * COLUMN_GAP;
+  const height = PADDING * 2 + graph.maxRows * NODE_HEIGHT + Math.max(0, graph.maxRows - 1) * ROW_GAP;
+  const byId = new Map(graph.nodes.map(node => [node.id, node]));
+
+  const clampZoom = (value: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, value));
+
+  const handleWheel = (e: React.WheelEvent) => {
+    setZoom(prev => clampZoom(prev * (e.deltaY < 0 ? 1.1 : 0.9)));
+  };
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    dragRef.current = { x: e.clientX, y: e.clientY, moved: false };
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const dx = e.clientX - drag.x;
+    const dy = e.clientY - drag.y;
+    if (Math.abs(dx) + Math.abs(dy) > 2) drag.moved = true;
+    dragRef.current = { x: e.clientX, y: e.clientY, moved: drag.moved };
+    setOffset(prev => ({ x: prev.x + dx, y: prev.y + dy }));
+  };
+
+  const endDrag = () => {
+    // Let the click that ends a drag through only if nothing moved
+    setTimeout(() => { dragRef.current = null; }, 0);
+  };
+
+  const handleNodeClick = (id: number) => {
+    if (dragRef.current?.moved) return;
+    onSelect(id);
+  };
+
+  // Highlight the hovered node's direct prerequisites and dependents
+  const isRelated = (edgeFrom: number, edgeTo: number) => hovered !== null && (edgeFrom === hovered || edgeTo === hovered);
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-gray-100 text-xs text-gray-500">
+        <div className="flex items-center gap-4">
+          {(Object.keys(STATUS_STYLES) as NodeStatus[]).map(status => (
+            <span key={status} className="flex items-center">
+              <span className="w-3 h-3 rounded-sm border mr-1.5" style={{ background: STATUS_STYLES[status].fill, borderColor: STATUS_STYLES[status].stroke }}></span>
+              {STATUS_STYLES[status].label}
+            </span>
+          ))}
+          <span className="flex items-center">
+            <span className="w-3 h-3 rounded-sm border border-dashed border-gray-300 mr-1.5 opacity-60"></span>
+            Prerequisites not started
+          </span>
+        </div>
+        <div className="flex items-center gap-1">
+          <button onClick={() => setZoom(prev => clampZoom(prev / 1.2))} className="w-7 h-7 rounded hover:bg-gray-100 font-bold" title="Zoom out">−</button>
+          <span className="w-10 text-center">{Math.round(zoom * 100)}%</span>
+          <button onClick={() => setZoom(prev => clampZoom(prev * 1.2))} className="w-7 h-7 rounded hover:bg-gray-100 font-bold" title="Zoom in">+</button>
+          <button onClick={() => { setZoom(1); setOffset({ x: 0, y: 0 }); }} className="px-2 h-7 rounded hover:bg-gray-100" title="Reset view">Reset</button>
+        </div>
+      </div>
+
+      <div
+        className="h-[65vh] cursor-grab active:cursor-grabbing select-none overflow-hidden bg-gray-50"
+        onWheel={handleWheel}
+        onMouseDown={handleMouseDown}
+        onMouseMove={handleMouseMove}
+        onMouseUp={endDrag}
+        onMouseLeave={endDrag}
+      >
+        <svg width={width * zoom} height={height * zoom} style={{ transform: `translate(${offset.x}px, ${offset.y}px)` }}>
+          <defs>
+            <marker id="km-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+              <path d="M 0 0 L 10 5 L 0 10 z" fill="#9ca3af" />
+            </marker>
+          </defs>
+          <g transform={`scale(${zoom})`}>
+            {graph.edges.map(edge => {
+              const from = byId.get(edge.from);
+              const to = byId.get(edge.to);
+              if (!from || !to) return null;
+              const x1 = nodeX(from) + NODE_WIDTH;
+              const y1 = nodeY(from) + NODE_HEIGHT / 2;
+              const x2 = nodeX(to);
+              const y2 = nodeY(to) + NODE_HEIGHT / 2;
+              const bend = (x2 - x1) / 2;
+              const related = isRelated(edge.from, edge.to);
+              return (
+                <path
+                  key={`${edge.from}-${edge.to}`}
+                  d={`M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`}
+                  fill="none"
+                  stroke={related ? '#16a34a' : '#d1d5db'}
+                  strokeWidth={related ? 2 : 1.25}
+                  markerEnd="url(#km-arrow)"
+                />
+              );
+            })}
+
+            {graph.nodes.map(node => {
+              const style = STATUS_STYLES[node.status];
+              const x = nodeX(node);
+              const y = nodeY(node);
+              const dimmed = node.status === 'not_started' && !node.unlocked;
+              return (
+                <g
+                  key={node.id}
+                  transform={`translate(${x}, ${y})`}
+                  onClick={() => handleNodeClick(node.id)}
+                  onMouseEnter={() => setHovered(node.id)}
+                  onMouseLeave={() => setHovered(null)}
+                  className="cursor-pointer"
+                  opacity={dimmed ? 0.6 : 1}
+                >
+                  <title>{`${node.label}\n${node.detail}`}</title>
+                  <rect
+                    width={NODE_WIDTH}
+                    height={NODE_HEIGHT}
+                    rx={10}
+                    fill={style.fill}
+                    stroke={hovered === node.id ? '#000000' : style.stroke}
+                    strokeWidth={hovered === node.id ? 2 : 1.5}
+                    strokeDasharray={dimmed ? '4 3' : undefined}
+                  />
+                  <text x={12} y={23} fontSize={13} fontWeight={600} fill="#111827">{truncate(node.label, 26)}</text>
+                  <text x={12} y={41} fontSize={11} fill="#6b7280">
+                    {node.status === 'not_started' ? truncate(node.detail, 32) : `${Math.round(node.progress * 100)}% complete`}
+                  </text>
+                  {node.progress > 0 && (
+                    <rect x={0} y={NODE_HEIGHT - 4} width={NODE_WIDTH * Math.min(1, node.progress)} height={4} rx={2} fill={style.stroke} />
+                  )}
+                </g>
+              );
+            })}
+          </g>
+        </svg>
+      </div>
+    </div>
+  );
+};
+
+export default KnowledgeMap;
@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { AudioPreferences, LearnerProfile, LearningStyle, OverviewStyle, ReadingLevel } from '../types';
+import {
+  DEFAULT_PROFILE, LEARNING_STYLE_LABELS, READING_LEVEL_LABELS, OVERVIEW_STYLE_LABELS, SPEECH_LANGUAGES, resolveAudioPreferences
+} from '../services/learnerProfile';
+import { getProvider } from '../services/llm';
+
+interface LearnerProfileFormProps {
+  profile?: LearnerProfile;
+  onSave: (profile: LearnerProfile) => void;
+  onCancel: () => void;
+}
+
+const inputClass = "w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-green-500 outline-none";
+const labelClass = "block text-xs font-semibold text-gray-600 uppercase tracking-wide mb-1";
+
+const LearnerProfileForm: React.FC<LearnerProfileFormProps> = ({ profile, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<LearnerProfile>(profile || DEFAULT_PROFILE);
+  const [audio, setAudio] = useState<AudioPreferences>(() => resolveAudioPreferences(profile));
+  const voices = getProvider().speechVoices;
+
+  const update = <K extends keyof LearnerProfile>(key: K, value: LearnerProfile[K]) => {
+    setDraft(prev => ({ ...prev, [key]: value }));
+  };
+
+  const updateAudio = <K extends keyof AudioPreferences>(key: K, value: AudioPreferences[K]) => {
+    setAudio(prev => ({ ...prev, [key]: value }));
+  };
+
+  const voiceSelect = (value: string, onChange: (voice: string) => void) => (
+    <select value={value} onChange={(e) => onChange(e.target.value)} className={inputClass}>
+      {voices.map(voice => <option key={voice.id} value={voice.id}>{voice.label}</option>)}
+    </select>
+  );
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave({
+      ...draft,
+      priorKnowledge: draft.priorKnowledge.trim(),
+      goals: draft.goals.trim(),
+      language: draft.language.trim() || DEFAULT_PROFILE.language,
+      audio,
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-xl border border-gray-200 shadow-sm p-6 space-y-4">
+      <div>
+        <h2 className="font-bold text-gray-900">Learner Profile</h2>
+        <p className="text-sm text-gray-500">Used to tailor new pillars, paths, lessons and the tutor to you.</p>
+      </div>
+
+      <div>
+        <label className={labelClass}>What do you already know?</label>
+        <textarea
+          value={draft.priorKnowledge}
+          onChange={(e) => update('priorKnowledge', e.target.value)}
+          placeholder="e.g. I work in marketing and know basic spreadsheets"
+          rows={2}
+          className={inputClass}
+        />
+      </div>
+
+      <div>
+        <label className={labelClass}>What are your goals?</label>
+        <textarea
+          value={draft.goals}
+          onChange={(e) => update('goals', e.target.value)}
+          placeholder="e.g. Build a small web app for my team"
+          rows={2}
+          className={inputClass}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className={labelClass}>Learning style</label>
+          <select value={draft.learningStyle} onChange={(e) => update('learningStyle', e.target.value as LearningStyle)} className={inputClass}>
+            {(Object.keys(LEARNING_STYLE_LABELS) as LearningStyle[]).map(style => (
+              <option key={style} value={style}>{LEARNING_STYLE_LABELS[style]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Reading level</label>
+          <select value={draft.readingLevel} onChange={(e) => update('readingLevel', e.target.value as ReadingLevel)} className={inputClass}>
+            {(Object.keys(READING_LEVEL_LABELS) as ReadingLevel[]).map(level => (
+              <option key={level} value={level}>{READING_LEVEL_LABELS[level]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Hours per week</label>
+          <input
+            type="number"
+            min={1}
+            max={60}
+            value={draft.weeklyHours}
+            onChange={(e) => update('weeklyHours', Math.max(1, Number(e.target.value) || 1))}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Language</label>
+          <input
+            type="text"
+            value={draft.language}
+            onChange={(e) => update('language', e.target.value)}
+            placeholder="English"
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <div className="pt-2 border-t border-gray-100">
+        <h3 className="font-semibold text-gray-900 text-sm mt-2">Narration</h3>
+        <p className="text-xs text-gray-500 mb-3">Lessons already narrated are re-recorded the next time you play them.</p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className={labelClass}>Narrator voice</label>
+            {voiceSelect(audio.voice, voice => updateAudio('voice', voice))}
+          </div>
+          <div>
+            <label className={labelClass}>Speech language</label>
+            <select value={audio.languageCode} onChange={(e) => updateAudio('languageCode', e.target.value)} className={inputClass}>
+              {SPEECH_LANGUAGES.map(language => <option key={language.code} value={language.code}>{language.label}</option>)}
+            </select>
+          </div>
+          <div className="md:col-span-2">
+            <label className={labelClass}>Course introduction</label>
+            <select value={audio.overviewStyle} onChange={(e) => updateAudio('overviewStyle', e.target.value as OverviewStyle)} className={inputClass}>
+              {(Object.keys(OVERVIEW_STYLE_LABELS) as OverviewStyle[]).map(style => (
+                <option key={style} value={style}>{OVERVIEW_STYLE_LABELS[style]}</option>
+              ))}
+            </select>
+          </div>
+          {audio.overviewStyle === 'dialogue' && (
+            <>
+              <div>
+                <label className={labelClass}>Host voice</label>
+                {voiceSelect(audio.dialogueVoices[0], voice => updateAudio('dialogueVoices', [voice, audio.dialogueVoices[1]]))}
+              </div>
+              <div>
+                <label className={labelClass}>Guest voice</label>
+                {voiceSelect(audio.dialogueVoices[1], voice => updateAudio('dialogueVoices', [audio.dialogueVoices[0], voice]))}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-3 pt-2">
+        <button type="button" onClick={onCancel} className="text-sm text-gray-500 hover:text-black px-4 py-2">Cancel</button>
+        <button type="submit" className="bg-black text-white text-sm px-5 py-2 rounded-lg hover:bg-gray-800 transition-colors">Save Profile</button>
+      </div>
+    </form>
+  );
+};
+
+export default LearnerProfileForm;
@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { LessonQuiz as LessonQuizData, LessonScore, QuizAnswer, QuizQuestion } from '../types';
+import { gradeQuiz, QuizResult, MASTERY_THRESHOLD } from '../services/quizGrading';
+import { hashText } from '../services/flashcards';
+import { CheckCircle, Target } from './Icons';
+
+interface LessonQuizProps {
+  quiz: LessonQuizData;
+  score?: LessonScore;
+  onSubmit: (score: number) => void;
+}
+
+// Mulberry32: small deterministic generator, so a question shuffles the same way on every render
+const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6D2B79F5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// Positions in `orderedItems`, so repeated items keep their own rows. Shuffled with a
+// seed from the question, rotated by one if that left it already correct.
+const initialOrder = (question: QuizQuestion): number[] => {
+  if (question.type !== 'ordering') return [];
+  const correct = question.orderedItems;
+  const random = seededRandom(parseInt(hashText(`${question.id}:${correct.join('\n')}`), 36));
+  const order = correct.map((_, i) => i);
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  return order.every((itemIndex, i) => correct[itemIndex] === correct[i]) ? [...order.slice(1), order[0]] : order;
+};
+
+const initialOrders = (quiz: LessonQuizData): Record<number, number[]> => {
+  const orders: Record<number, number[]> = {};
+  quiz.questions.forEach(q => {
+    if (q.type === 'ordering') orders[q.id] = initialOrder(q);
+  });
+  return orders;
+};
+
+const LessonQuiz: React.FC<LessonQuizProps> = ({ quiz, score, onSubmit }) => {
+  const [answers, setAnswers] = useState<Record<number, QuizAnswer>>({});
+  const [orders, setOrders] = useState<Record<number, number[]>>(() => initialOrders(quiz));
+  const [result, setResult] = useState<QuizResult | null>(null);
+
+  const setAnswer = (id: number, answer: QuizAnswer) => {
+    setAnswers(prev => ({ ...prev, [id]: answer }));
+  };
+
+  const orderOf = (question: QuizQuestion) => orders[question.id] ?? initialOrder(question);
+
+  const moveItem = (question: QuizQuestion, from: number, to: number) => {
+    const order = [...orderOf(question)];
+    if (to < 0 || to >= order.length) return;
+    [order[from], order[to]] = [order[to], order[from]];
+    setOrders(prev => ({ ...prev, [question.id]: order }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const ordered: Record<number, QuizAnswer> = {};
+    quiz.questions.forEach(q => {
+      if (q.type === 'ordering') ordered[q.id] = orderOf(q).map(i => q.orderedItems[i]);
+    });
+    const graded = gradeQuiz(quiz, { ...answers, ...ordered });
+    setResult(graded);
+    onSubmit(graded.score);
+  };
+
+  const handleRetake = () => {
+    setAnswers({});
+    setOrders(initialOrders(quiz));
+    setResult(null);
+  };
+
+  const isCorrect = (id: number) => result?.results.find(r => r.questionId === id)?.correct;
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {quiz.questions.map((question, idx) => {
+        const correct = isCorrect(question.id);
+        return (
+          <div
+            key={question.id}
+            className={`rounded-lg border p-4 bg-white ${result ? (correct ? 'border-green-300' : 'border-red-300') : 'border-gray-200'}`}
+          >
+            <p className="text-sm font-semibold text-gray-800 mb-3">{idx + 1}. {question.prompt}</p>
+
+            {question.type === 'multiple_choice' && (
+              <div className="space-y-1.5">
+                {question.options.map((option, optionIdx) => (
+                  <label key={optionIdx} className="flex items-center text-sm text-gray-700 cursor-pointer">
+                    <input
+                      type="radio"
+                      name={`quiz-${question.id}`}
+                      checked={answers[question.id] === optionIdx}
+                      onChange={() => setAnswer(question.id, optionIdx)}
+                      disabled={!!result}
+                      className="mr-2 accent-green-600"
+                    />
+                    {option}
+                  </label>
+                ))}
+              </div>
+            )}
+
+            {question.type === 'short_answer' && (
+              <input
+                type="text"
+                value={(answers[question.id] as string) || ''}
+                onChange={(e) => setAnswer(question.id, e.target.value)}
+                disabled={!!result}
+                placeholder="Your answer"
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-green-500 outline-none"
+              />
+            )}
+
+            {question.type === 'ordering' && (
+              <ol className="space-y-1.5">
+                {orderOf(question).map((itemIndex, itemIdx, items) => (
+                  <li key={itemIndex} className="flex items-center justify-between text-sm bg-gray-50 border border-gray-200 rounded-md px-3 py-1.5">
+                    <span><span className="text-gray-400 mr-2">{itemIdx + 1}.</span>{question.orderedItems[itemIndex]}</span>
+                    {!result && (
+                      <span className="flex gap-1">
+                        <button type="button" onClick={() => moveItem(question, itemIdx, itemIdx - 1)} disabled={itemIdx === 0} className="px-1.5 text-gray-400 hover:text-black disabled:opacity-30">↑</button>
+                        <button type="button" onClick={() => moveItem(question, itemIdx, itemIdx + 1)} disabled={itemIdx === items.length - 1} className="px-1.5 text-gray-400 hover:text-black disabled:opacity-30">↓</button>
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            )}
+
+            {result && (
+              <div className={`mt-3 text-xs p-2 rounded ${correct ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'}`}>
+                <span className="font-bold mr-1">{correct ? 'Correct.' : 'Not quite.'}</span>
+                {!correct && question.type === 'multiple_choice' && <span>Answer: {question.options[question.correctIndex]}. </span>}
+                {!correct && question.type === 'short_answer' && <span>Answer: {question.acceptableAnswers[0]}. </span>}
+                {!correct && question.type === 'ordering' && <span>Order: {question.orderedItems.join(' → ')}. </span>}
+                {question.explanation}
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-gray-500 flex items-center">
+          {score ? (
+            <>
+              {score.best >= MASTERY_THRESHOLD
+                ? <CheckCircle className="w-4 h-4 mr-1 text-green-600" />
+                : <Target className="w-4 h-4 mr-1 text-gray-400" />}
+              Best {Math.round(score.best * 100)}% · {score.attempts} attempt{score.attempts === 1 ? '' : 's'} · Mastery at {Math.round(MASTERY_THRESHOLD * 100)}%
+            </>
+          ) : (
+            <>Score {Math.round(MASTERY_THRESHOLD * 100)}% or more to master this lesson</>
+          )}
+        </span>
+        {result ? (
+          <div className="flex items-center gap-3">
+            <span className="text-sm font-bold text-gray-800">{Math.round(result.score * 100)}%</span>
+            <button type="button" onClick={handleRetake} className="text-sm font-semibold text-green-600 hover:underline">Retake</button>
+          </div>
+        ) : (
+          <button type="submit" className="bg-black text-white text-sm px-4 py-2 rounded-lg hover:bg-gray-800 transition-colors">
+            Check Answers
+          </button>
+        )}
+      </div>
+    </form>
+  );
+};
+
+export default LessonQuiz;
@@ -0,0 +1,310 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AudioChapter, SavedCourse } from '../types';
+import { NarrationTrack, narrationTracks, INTRO_TRACK_ID } from '../services/narration';
+import { Headphones, Play, Pause, SkipBack, SkipForward, RotateCcw, RotateCw, FastForward, List, X } from './Icons';
+
+export interface LoadedTrack {
+  blob: Blob;
+  chapters: AudioChapter[];
+}
+
+interface NarrationPlayerProps {
+  course: SavedCourse;
+  startTrackId: string;
+  startTime: number;
+  playbackRate: number;
+  onPlaybackRateChange: (rate: number) => void;
+  // Returns stored narration, generating it first if the track has none yet
+  loadTrack: (course: SavedCourse, track: NarrationTrack) => Promise<LoadedTrack>;
+  onPositionChange: (trackId: string, time: number) => void;
+  onError: (error: unknown) => void;
+  onClose: () => void;
+}
+
+const SPEEDS = [1, 1.25, 1.5, 2];
+const SKIP_SECONDS = 15;
+const REPORT_INTERVAL_SECONDS = 10;
+// Pressing "previous" this far into a chapter restarts it instead
+const RESTART_THRESHOLD_SECONDS = 3;
+
+const formatTime = (seconds: number): string => {
+  if (!isFinite(seconds)) return '0:00';
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
+
+const chapterIndexAt = (chapters: AudioChapter[], time: number): number => {
+  let index = 0;
+  chapters.forEach((chapter, i) => { if (chapter.start <= time) index = i; });
+  return index;
+};
+
+const NarrationPlayer: React.FC<NarrationPlayerProps> = ({
+  course, startTrackId, startTime, playbackRate, onPlaybackRateChange, loadTrack, onPositionChange, onError, onClose
+}) => {
+  const tracks = useMemo(() => narrationTracks(course.curriculum), [course.curriculum]);
+  const [trackId, setTrackId] = useState(startTrackId);
+  const [chapters, setChapters] = useState<AudioChapter[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [showChapters, setShowChapters] = useState(false);
+
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const objectUrlRef = useRef<string | null>(null);
+  const seekOnLoadRef = useRef(startTime);
+  const lastReportRef = useRef(0);
+  // Read through refs so a course update (e.g. newly stored narration) doesn't reload the track
+  const courseRef = useRef(course);
+  courseRef.current = course;
+  const tracksRef = useRef(tracks);
+  tracksRef.current = tracks;
+  const trackIdRef = useRef(trackId);
+  trackIdRef.current = trackId;
+
+  const trackIndex = tracks.findIndex(t => t.id === trackId);
+  const track = tracks[trackIndex];
+  const chapterIndex = chapterIndexAt(chapters, currentTime);
+
+  const reportPosition = (time: number) => {
+    lastReportRef.current = time;
+    onPositionChange(trackId, time);
+  };
+
+  // Load (or generate) the current track, then prefetch the next one
+  useEffect(() => {
+    const index = tracksRef.current.findIndex(t => t.id === trackId);
+    const current = tracksRef.current[index];
+    if (!current) return;
+    let cancelled = false;
+    setIsLoading(true);
+    setChapters([]);
+
+    loadTrack(courseRef.current, current)
+      .then(loaded => {
+        const audio = audioRef.current;
+        if (cancelled || !audio) return;
+        if (objectUrlRef.current) URL.revokeObjectURL(objectUrlRef.current);
+        objectUrlRef.current = URL.createObjectURL(loaded.blob);
+        audio.src = objectUrlRef.current;
+        audio.currentTime = seekOnLoadRef.current;
+        audio.playbackRate = playbackRate;
+        seekOnLoadRef.current = 0;
+        setChapters(loaded.chapters);
+        setIsLoading(false);
+        // Autoplay can be blocked until the learner interacts; they can still press play
+        audio.play().catch(e => console.error("Playback failed", e));
+
+        const next = tracksRef.current[index + 1];
+        if (next && !next.audio) loadTrack(courseRef.current, next).catch(() => {});
+      })
+      .catch(error => {
+        if (cancelled) return;
+        setIsLoading(false);
+        onError(error);
+      });
+
+    return () => { cancelled = true; };
+  }, [trackId]);
+
+  useEffect(() => {
+    if (audioRef.current) audioRef.current.playbackRate = playbackRate;
+  }, [playbackRate]);
+
+  // Remember where the learner stopped when the player closes
+  useEffect(() => {
+    const audio = audioRef.current;
+    return () => {
+      if (audio && audio.currentTime > 0 && !audio.ended) onPositionChange(trackIdRef.current, audio.currentTime);
+      audio?.pause();
+      if (objectUrlRef.current) URL.revokeObjectURL(objectUrlRef.current);
+    };
+  }, []);
+
+  const goToTrack = (index: number, time = 0) => {
+    const target = tracks[index];
+    if (!target) return;
+    if (target.id === trackId) {
+      seekTo(time);
+      return;
+    }
+    // Pausing records the position in the track being left
+    audioRef.current?.pause();
+    seekOnLoadRef.current = time;
+    setCurrentTime(time);
+    setTrackId(target.id);
+  };
+
+  const seekTo = (time: number) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = Math.max(0, Math.min(time, audio.duration || time));
+    setCurrentTime(audio.currentTime);
+  };
+
+  const togglePlay = async () => {
+    const audio = audioRef.current;
+    if (!audio || isLoading) return;
+    if (audio.paused) {
+      try {
+        await audio.play();
+      } catch (e) {
+        console.error("Playback failed", e);
+      }
+    } else {
+      audio.pause();
+    }
+  };
+
+  const previousChapter = () => {
+    const chapterStart = chapters[chapterIndex]?.start || 0;
+    if (currentTime - chapterStart > RESTART_THRESHOLD_SECONDS) seekTo(chapterStart);
+    else if (chapterIndex > 0) seekTo(chapters[chapterIndex - 1].start);
+    else if (trackIndex > 0) goToTrack(trackIndex - 1);
+    else seekTo(0);
+  };
+
+  const nextChapter = () => {
+    if (chapterIndex + 1 < chapters.length) seekTo(chapters[chapterIndex + 1].start);
+    else goToTrack(trackIndex + 1);
+  };
+
+  const changeSpeed = () => {
+    onPlaybackRateChange(SPEEDS[(SPEEDS.indexOf(playbackRate) + 1) % SPEEDS.length]);
+  };
+
+  const handleTimeUpdate = () => {
+    const time = audioRef.current?.currentTime || 0;
+    setCurrentTime(time);
+    if (Math.abs(time - lastReportRef.current) >= REPORT_INTERVAL_SECONDS) reportPosition(time);
+  };
+
+  const handleEnded = () => {
+    setIsPlaying(false);
+    if (trackIndex + 1 < tracks.length) {
+      goToTrack(trackIndex + 1);
+    } else {
+      // Playlist finished; start from the top next time
+      lastReportRef.current = 0;
+      onPositionChange(INTRO_TRACK_ID, 0);
+    }
+  };
+
+  if (!track) return null;
+
+  return (
+    <div className="fixed bottom-0 inset-x-0 z-40 bg-white border-t border-gray-200 shadow-[0_-4px_12px_rgba(0,0,0,0.05)]">
+      <audio
+        ref={audioRef}
+        onTimeUpdate={handleTimeUpdate}
+        onLoadedMetadata={() => setDuration(audioRef.current?.duration || 0)}
+        onPlay={() => setIsPlaying(true)}
+        onPause={() => { setIsPlaying(false); reportPosition(audioRef.current?.currentTime || 0); }}
+        onEnded={handleEnded}
+      />
+
+      {showChapters && (
+        <div className="max-h-64 overflow-y-auto custom-scrollbar border-b border-gray-100 px-4 py-3">
+          <div className="max-w-4xl mx-auto space-y-1">
+            {tracks.map((t, i) => (
+              <div key={t.id}>
+                <button
+                  onClick={() => goToTrack(i)}
+                  className={`w-full text-left text-sm px-3 py-1.5 rounded-lg transition-colors ${t.id === trackId ? 'bg-green-50 text-green-700 font-semibold' : 'text-gray-700 hover:bg-gray-50'}`}
+                >
+                  {t.title}
+                  {!t.audio && t.id !== trackId && <span className="ml-2 text-xs text-gray-400 font-normal">not narrated yet</span>}
+                </button>
+                {t.id === trackId && chapters.map((chapter, c) => (
+                  <button
+                    key={c}
+                    onClick={() => seekTo(chapter.start)}
+                    className={`w-full flex justify-between text-left text-xs pl-8 pr-3 py-1 rounded transition-colors ${c === chapterIndex ? 'text-green-700 font-semibold' : 'text-gray-500 hover:bg-gray-50'}`}
+                  >
+                    <span>{chapter.title}</span>
+                    <span className="tabular-nums">{formatTime(chapter.start)}</span>
+                  </button>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="max-w-4xl mx-auto px-4 py-3 flex items-center gap-4">
+        <div className="flex items-center gap-3 min-w-0 w-56 shrink-0">
+          <div className="w-9 h-9 rounded-lg bg-green-50 flex items-center justify-center shrink-0">
+            <Headphones className="w-4 h-4 text-green-600" />
+          </div>
+          <div className="min-w-0">
+            <p className="text-sm font-semibold text-gray-900 truncate">{track.title}</p>
+            <p className="text-xs text-gray-500 truncate">
+              {isLoading ? (track.audio ? 'Loading...' : 'Narrating...') : chapters[chapterIndex]?.title || course.path.title}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex-1 flex flex-col items-center gap-1 min-w-0">
+          <div className="flex items-center gap-1">
+            <button onClick={previousChapter} className="p-2 rounded-full text-gray-600 hover:bg-gray-100" title="Previous chapter">
+              <SkipBack className="w-4 h-4" />
+            </button>
+            <button onClick={() => seekTo(currentTime - SKIP_SECONDS)} className="p-2 rounded-full text-gray-600 hover:bg-gray-100" title={`Back ${SKIP_SECONDS} seconds`}>
+              <RotateCcw className="w-4 h-4" />
+            </button>
+            <button
+              onClick={togglePlay}
+              disabled={isLoading}
+              className="w-9 h-9 rounded-full flex items-center justify-center bg-black text-white hover:bg-gray-800 disabled:opacity-50 mx-1"
+              title={isPlaying ? 'Pause' : 'Play'}
+            >
+              {isLoading ? (
+                <span className="w-2 h-2 bg-green-400 rounded-full animate-bounce"></span>
+              ) : isPlaying ? <Pause className="w-4 h-4 fill-current" /> : <Play className="w-4 h-4 fill-current ml-0.5" />}
+            </button>
+            <button onClick={() => seekTo(currentTime + SKIP_SECONDS)} className="p-2 rounded-full text-gray-600 hover:bg-gray-100" title={`Forward ${SKIP_SECONDS} seconds`}>
+              <RotateCw className="w-4 h-4" />
+            </button>
+            <button onClick={nextChapter} disabled={trackIndex + 1 >= tracks.length && chapterIndex + 1 >= chapters.length} className="p-2 rounded-full text-gray-600 hover:bg-gray-100 disabled:opacity-30" title="Next chapter">
+              <SkipForward className="w-4 h-4" />
+            </button>
+          </div>
+          <div className="w-full flex items-center gap-2 text-[10px] text-gray-400 tabular-nums">
+            <span>{formatTime(currentTime)}</span>
+            <input
+              type="range"
+              min={0}
+              max={duration || 0}
+              step={0.1}
+              value={Math.min(currentTime, duration || 0)}
+              onChange={(e) => seekTo(Number(e.target.value))}
+              disabled={isLoading}
+              className="flex-1 accent-green-600 h-1"
+              aria-label="Seek"
+            />
+            <span>{formatTime(duration)}</span>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-1 shrink-0">
+          <button onClick={changeSpeed} className="h-8 px-2 rounded-full flex items-center text-xs font-bold text-gray-600 hover:bg-green-50 hover:text-green-600" title="Playback Speed">
+            <FastForward className="w-3 h-3 mr-1" /> {playbackRate}x
+          </button>
+          <button
+            onClick={() => setShowChapters(prev => !prev)}
+            className={`p-2 rounded-full transition-colors ${showChapters ? 'bg-green-50 text-green-700' : 'text-gray-600 hover:bg-gray-100'}`}
+            title="Chapters"
+          >
+            <List className="w-4 h-4" />
+          </button>
+          <button onClick={onClose} className="p-2 rounded-full text-gray-400 hover:text-red-500 hover:bg-red-50" title="Close player">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NarrationPlayer;
@@ -0,0 +1,53 @@
+import React from 'react';
+import { LessonPath, SavedCourse } from '../types';
+import { recommendNextPaths } from '../services/recommender';
+import { ChevronRight, Compass } from './Icons';
+
+interface NextPathSuggestionsProps {
+  course: SavedCourse;
+  library: SavedCourse[];
+  limit?: number;
+  isSuggesting: boolean;
+  onSelect: (path: LessonPath) => void;
+  onSuggestFollowUp: () => void;
+}
+
+const NextPathSuggestions: React.FC<NextPathSuggestionsProps> = ({ course, library, limit = 3, isSuggesting, onSelect, onSuggestFollowUp }) => {
+  const recommendations = recommendNextPaths(course, library, limit);
+
+  if (recommendations.length === 0) {
+    return (
+      <button
+        onClick={onSuggestFollowUp}
+        disabled={isSuggesting}
+        className="w-full border border-dashed border-gray-300 rounded-lg p-4 text-sm font-semibold text-gray-600 hover:border-green-400 hover:text-green-600 transition-colors flex items-center justify-center disabled:opacity-60"
+      >
+        <Compass className="w-4 h-4 mr-2" />
+        {isSuggesting ? 'Designing a follow-up path...' : 'Design a follow-up path for me'}
+      </button>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {recommendations.map(({ path, reason }) => (
+        <button
+          key={path.id}
+          onClick={() => onSelect(path)}
+          className="w-full text-left bg-white border border-gray-200 rounded-lg p-4 hover:border-green-400 hover:shadow-sm transition-all group flex items-center justify-between"
+        >
+          <div>
+            <div className="flex items-center gap-2 mb-1">
+              <span className="font-semibold text-gray-900 group-hover:text-green-600 transition-colors">{path.title}</span>
+              <span className="text-[10px] uppercase tracking-wide bg-gray-100 text-gray-600 px-2 py-0.5 rounded">{path.difficulty}</span>
+            </div>
+            <p className="text-xs text-gray-500">{reason}</p>
+          </div>
+          <ChevronRight className="w-4 h-4 text-gray-300 group-hover:text-green-600 shrink-0 ml-3" />
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default NextPathSuggestions;
@@ -0,0 +1,34 @@
+import React from 'react';
+import {
+  Cpu, Beaker, Palette, Briefcase, Globe, HeartPulse, Hourglass, Calculator, Scale, Music, Lightbulb, Brain, Leaf, Users, Database,
+  MessageCircle, Layers
+} from './Icons';
+
+interface PillarIconProps {
+  icon?: string;
+}
+
+const PillarIcon: React.FC<PillarIconProps> = ({ icon }) => {
+  const className = "w-5 h-5";
+  switch (icon?.toLowerCase()) {
+    case 'tech': return <Cpu className={className} />;
+    case 'science': return <Beaker className={className} />;
+    case 'art': return <Palette className={className} />;
+    case 'business': return <Briefcase className={className} />;
+    case 'globe': case 'nature': return <Globe className={className} />; // Map nature to globe/leaf
+    case 'nature': return <Leaf className={className} />;
+    case 'health': return <HeartPulse className={className} />;
+    case 'history': return <Hourglass className={className} />;
+    case 'math': return <Calculator className={className} />;
+    case 'law': return <Scale className={className} />;
+    case 'music': return <Music className={className} />;
+    case 'philosophy': case 'lightbulb': return <Lightbulb className={className} />;
+    case 'social': return <Users className={className} />;
+    case 'data': return <Database className={className} />;
+    case 'language': return <MessageCircle className={className} />;
+    case 'psychology': return <Brain className={className} />;
+    default: return <Layers className={className} />;
+  }
+};
+
+export default PillarIcon;
@@ -0,0 +1,51 @@
+import React from 'react';
+import { SharedCourse } from '../services/sharing';
+import { BookOpen, Plus } from './Icons';
+
+interface SharedCoursePreviewProps {
+  shared: SharedCourse;
+  isAdding: boolean;
+  onAdd: () => void;
+  onDismiss: () => void;
+}
+
+// Read-only look at a course opened from a share link, before it's cloned into the library.
+const SharedCoursePreview: React.FC<SharedCoursePreviewProps> = ({ shared, isAdding, onAdd, onDismiss }) => {
+  const { bundle } = shared;
+  return (
+    <div className="bg-white rounded-xl border border-green-200 shadow-sm p-6 animate-fade-in">
+      <p className="text-xs text-green-600 font-semibold uppercase tracking-wide mb-1">
+        Shared by {shared.ownerName}{shared.sharedAt ? ` on ${new Date(shared.sharedAt).toLocaleDateString()}` : ''}
+      </p>
+      <h2 className="text-xl font-bold text-gray-900">{bundle.curriculum.pathTitle}</h2>
+      <p className="text-xs text-gray-500 uppercase tracking-wide mt-1 mb-3">
+        {bundle.subject} • {bundle.pillar.title} • {bundle.path.difficulty}
+      </p>
+      <p className="text-sm text-gray-600 mb-4 line-clamp-3">{bundle.curriculum.introduction}</p>
+
+      <ol className="space-y-1 mb-6">
+        {bundle.curriculum.subLessons.map((lesson, i) => (
+          <li key={i} className="flex items-center text-sm text-gray-700">
+            <BookOpen className="w-3.5 h-3.5 mr-2 text-gray-400 shrink-0" />
+            <span className="truncate">{i + 1}. {lesson.title}</span>
+          </li>
+        ))}
+      </ol>
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={onAdd}
+          disabled={isAdding}
+          className="bg-green-600 text-white px-5 py-2.5 rounded-lg hover:bg-green-700 transition-colors text-sm font-semibold flex items-center disabled:opacity-60"
+        >
+          <Plus className="w-4 h-4 mr-2" /> {isAdding ? 'Adding...' : 'Add to my library'}
+        </button>
+        <button onClick={onDismiss} className="text-sm text-gray-500 hover:text-gray-800 transition-colors">
+          Dismiss
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SharedCoursePreview;
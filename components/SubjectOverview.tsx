@@ -0,0 +1,109 @@
+import React from 'react';
+import { LearningPillar, SavedCourse, SavedSubject } from '../types';
+import { coursesForSubject } from '../services/subjectStore';
+import { ChevronRight, Trash } from './Icons';
+
+interface SubjectOverviewProps {
+  subject: SavedSubject;
+  library: SavedCourse[];
+  renderIcon: (icon?: string) => React.ReactNode;
+  onSelectPillar: (pillar: LearningPillar) => void;
+  onResumeCourse: (course: SavedCourse) => void;
+  onDelete: () => void;
+}
+
+const courseProgress = (course: SavedCourse) =>
+  course.completedSubLessons.length / (course.curriculum.subLessons.length || 1);
+
+const SubjectOverview: React.FC<SubjectOverviewProps> = ({ subject, library, renderIcon, onSelectPillar, onResumeCourse, onDelete }) => {
+  const courses = coursesForSubject(subject, library);
+  const coursesByPillar = (pillar: LearningPillar) => courses.filter(c => c.pillar.title === pillar.title);
+
+  const startedPillars = subject.pillars.filter(p => coursesByPillar(p).length > 0).length;
+  const mappedPillars = subject.pillars.filter(p => (subject.pathsByPillar[p.id] || []).length > 0).length;
+  const lessonsTotal = courses.reduce((sum, c) => sum + c.curriculum.subLessons.length, 0);
+  const lessonsDone = courses.reduce((sum, c) => sum + c.completedSubLessons.length, 0);
+  const coverage = subject.pillars.length > 0 ? Math.round((startedPillars / subject.pillars.length) * 100) : 0;
+
+  const stats = [
+    { label: 'Pillars started', value: `${startedPillars}/${subject.pillars.length}` },
+    { label: 'Pillars mapped', value: `${mappedPillars}/${subject.pillars.length}` },
+    { label: 'Courses', value: String(courses.length) },
+    { label: 'Lessons completed', value: `${lessonsDone}/${lessonsTotal}` },
+  ];
+
+  return (
+    <div>
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-end mb-6 gap-4">
+        <div>
+          <h2 className="text-3xl font-bold text-gray-900">{subject.name}</h2>
+          <p className="text-gray-500 mt-1">{coverage}% of the subject covered · mapped {new Date(subject.createdAt).toLocaleDateString()}</p>
+        </div>
+        <button onClick={onDelete} className="text-sm text-gray-400 hover:text-red-500 flex items-center transition-colors">
+          <Trash className="w-4 h-4 mr-1" /> Forget this map
+        </button>
+      </div>
+
+      <div className="w-full bg-gray-100 rounded-full h-2 overflow-hidden mb-6">
+        <div className="bg-green-600 h-2 rounded-full transition-all duration-500" style={{ width: `${coverage}%` }}></div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-10">
+        {stats.map(stat => (
+          <div key={stat.label} className="bg-white rounded-xl border border-gray-200 p-4">
+            <p className="text-2xl font-bold text-gray-900">{stat.value}</p>
+            <p className="text-xs text-gray-500 uppercase tracking-wide">{stat.label}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+        {subject.pillars.map(pillar => {
+          const pillarCourses = coursesByPillar(pillar);
+          const pathCount = (subject.pathsByPillar[pillar.id] || []).length;
+          const progress = pillarCourses.length > 0
+            ? Math.round((pillarCourses.reduce((sum, c) => sum + courseProgress(c), 0) / pillarCourses.length) * 100)
+            : 0;
+
+          return (
+            <div key={pillar.id} className={`bg-white rounded-xl border p-5 transition-all ${pillarCourses.length > 0 ? 'border-green-200' : 'border-gray-200'}`}>
+              <button onClick={() => onSelectPillar(pillar)} className="w-full text-left group">
+                <div className="flex items-start justify-between mb-2">
+                  <div className="flex items-center">
+                    <div className="w-8 h-8 bg-green-50 text-green-600 rounded-lg flex items-center justify-center mr-3 shrink-0">
+                      {renderIcon(pillar.icon)}
+                    </div>
+                    <h3 className="font-semibold text-gray-900 group-hover:text-green-600 transition-colors line-clamp-2">{pillar.title}</h3>
+                  </div>
+                  <ChevronRight className="w-4 h-4 text-gray-300 group-hover:text-green-600 shrink-0" />
+                </div>
+                <p className="text-xs text-gray-500">
+                  {pillarCourses.length > 0
+                    ? `${pillarCourses.length} course${pillarCourses.length === 1 ? '' : 's'} · ${progress}% complete`
+                    : pathCount > 0 ? `${pathCount} paths mapped, none started` : 'Not explored yet'}
+                </p>
+              </button>
+
+              {pillarCourses.length > 0 && (
+                <ul className="mt-3 space-y-1.5">
+                  {pillarCourses.map(course => (
+                    <li key={course.id}>
+                      <button onClick={() => onResumeCourse(course)} className="w-full text-left text-xs text-gray-600 hover:text-green-600">
+                        <span className="line-clamp-1">{course.path.title}</span>
+                        <div className="w-full bg-gray-100 rounded-full h-1 mt-1 overflow-hidden">
+                          <div className="bg-green-500 h-1 rounded-full" style={{ width: `${Math.round(courseProgress(course) * 100)}%` }}></div>
+                        </div>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default SubjectOverview;
@@ -0,0 +1,48 @@
+import React from 'react';
+import { SyncState, SyncStatus } from '../services/courses';
+import { Save } from './Icons';
+
+interface SyncStatusBadgeProps {
+  status: SyncStatus | null; // Null when courses are only stored on this device
+  raised?: boolean; // Sits above the narration player
+}
+
+const DOT_COLORS: Record<SyncState, string> = {
+  synced: 'bg-green-500',
+  pending: 'bg-yellow-400',
+  syncing: 'bg-blue-400 animate-pulse',
+  offline: 'bg-gray-400',
+  error: 'bg-red-500',
+};
+
+const describe = (status: SyncStatus): string => {
+  const changes = `${status.pending} change${status.pending === 1 ? '' : 's'}`;
+  switch (status.state) {
+    case 'synced': return 'All changes synced';
+    case 'pending': return `${changes} waiting to sync`;
+    case 'syncing': return `Syncing ${changes}...`;
+    case 'offline': return status.pending > 0 ? `Offline · ${changes} saved on this device` : 'Offline · saved on this device';
+    case 'error': return 'Sync failed · retrying shortly';
+  }
+};
+
+const SyncStatusBadge: React.FC<SyncStatusBadgeProps> = ({ status, raised }) => (
+  <div
+    className={`fixed ${raised ? 'bottom-28' : 'bottom-6'} right-6 z-40 bg-white/90 backdrop-blur text-gray-600 px-3 py-2 rounded-full shadow-md border border-gray-200 flex items-center gap-2 text-xs font-medium pointer-events-none`}
+    title={status?.lastSyncedAt ? `Last synced ${new Date(status.lastSyncedAt).toLocaleTimeString()}` : undefined}
+  >
+    {status ? (
+      <>
+        <span className={`w-2 h-2 rounded-full ${DOT_COLORS[status.state]}`}></span>
+        {describe(status)}
+      </>
+    ) : (
+      <>
+        <Save className="w-3.5 h-3.5 text-green-600" />
+        Saved on this device
+      </>
+    )}
+  </div>
+);
+
+export default SyncStatusBadge;
@@ -0,0 +1,38 @@
+import React from 'react';
+import { toUserMessage } from '../../services/llm';
+import { useAppState, useAppStore, selectListeningCourse } from '../../store';
+import NarrationPlayer from '../../components/NarrationPlayer';
+import { Audio } from './useAudio';
+
+interface NarrationDockProps {
+  audio: Audio;
+}
+
+// The narration player pinned to the bottom of every view while a course is playing.
+const NarrationDock: React.FC<NarrationDockProps> = ({ audio }) => {
+  const state = useAppState();
+  const { dispatch } = useAppStore();
+  const { listening } = state;
+  const listeningCourse = selectListeningCourse(state);
+  if (!listening || !listeningCourse) return null;
+
+  return (
+    <NarrationPlayer
+      key={`${listening.courseId}/${listening.trackId}`}
+      course={listeningCourse}
+      startTrackId={listening.trackId}
+      startTime={listening.time}
+      playbackRate={audio.playbackRate}
+      onPlaybackRateChange={audio.setPlaybackRate}
+      loadTrack={audio.loadNarration}
+      onPositionChange={(trackId, time) => audio.saveListeningPosition(listening.courseId, trackId, time)}
+      onError={(err) => {
+        console.error("Failed to generate/play audio:", err);
+        dispatch({ type: 'error/shown', error: toUserMessage(err) });
+      }}
+      onClose={audio.stopListening}
+    />
+  );
+};
+
+export default NarrationDock;
@@ -0,0 +1,2 @@
+export * from './useAudio';
+export { default as NarrationDock } from './NarrationDock';
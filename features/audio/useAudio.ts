@@ -0,0 +1,108 @@
+import { useRef, useState } from 'react';
+import { SavedCourse } from '../../types';
+import { toUserMessage } from '../../services/llm';
+import { resolveAudioPreferences } from '../../services/learnerProfile';
+import { getCourseRepository } from '../../services/courses';
+import { loadAsset, saveAsset, assetIdFor } from '../../services/assets';
+import {
+  NarrationTrack, narrationTracks, narrateTrack, narrationAssetName, narrationVoiceKey, isNarrationCurrent, withNarration, resumePosition
+} from '../../services/narration';
+import { AudioExportFormat, AUDIO_EXPORT_EXTENSIONS, exportCourseAudio } from '../../services/audioExport';
+import { downloadBlob, toFileName } from '../../services/download';
+import { LoadedTrack } from '../../components/NarrationPlayer';
+import { useAppStore } from '../../store';
+
+// Listening to courses: the narration player's playlist, narrating tracks on
+// first listen, and downloading a course's audio as one file.
+export const useAudio = () => {
+  const { getState, dispatch } = useAppStore();
+  const [playbackRate, setPlaybackRate] = useState(1);
+  // Narration being generated, keyed by asset id, so a prefetch and a play share one request
+  const narrationLoads = useRef(new Map<string, Promise<LoadedTrack>>());
+  // Narration saved to courses other than the open one, written one at a time
+  const narrationWrites = useRef<Promise<void>>(Promise.resolve());
+  // Course whose audio is being narrated for download, with tracks done so far
+  const [audioExport, setAudioExport] = useState<{ courseId: string; done: number; total: number } | null>(null);
+
+  // Opens the course playlist at a track, or where the learner left off
+  const listen = (course: SavedCourse, trackId?: string) => {
+    const position = trackId ? { trackId, time: 0 } : resumePosition(course);
+    dispatch({ type: 'audio/listeningStarted', listening: { courseId: course.id, ...position } });
+  };
+
+  const stopListening = () => dispatch({ type: 'audio/listeningStopped' });
+
+  // Plays stored narration, generating and storing it the first time a track is heard
+  const loadNarration = (course: SavedCourse, track: NarrationTrack): Promise<LoadedTrack> => {
+    const { user } = getState();
+    if (!user) return Promise.reject(new Error("Sign in to listen to lessons"));
+    const userId = user.id;
+    const preferences = resolveAudioPreferences(user.profile);
+
+    const assetId = assetIdFor(course.id, narrationAssetName(track, preferences));
+    const pending = narrationLoads.current.get(assetId);
+    if (pending) return pending;
+
+    const load = (async () => {
+      if (track.audio && isNarrationCurrent(track.audio, track, preferences)) {
+        const blob = await loadAsset(userId, track.audio.assetId);
+        if (blob) return { blob, chapters: track.audio.chapters };
+      }
+      const { blob, chapters } = await narrateTrack(course.curriculum, track, preferences);
+      await saveAsset(userId, assetId, blob);
+      const narration = { assetId, chapters, voiceKey: narrationVoiceKey(track, preferences) };
+      dispatch({ type: 'course/narrationAdded', courseId: course.id, track, narration });
+      // The open course is persisted by the sync effect; others are written here,
+      // re-reading the stored course so tracks narrated back to back don't overwrite each other
+      if (course.id !== getState().activeCourseId) {
+        const repository = getCourseRepository();
+        narrationWrites.current = narrationWrites.current
+          .then(async () => {
+            const stored = await repository.get(userId, course.id);
+            if (stored) await repository.update(userId, course.id, { curriculum: withNarration(stored.curriculum, track, narration) });
+          })
+          .catch(err => console.error("Failed to save narration", err));
+      }
+      return { blob, chapters };
+    })().finally(() => narrationLoads.current.delete(assetId));
+
+    narrationLoads.current.set(assetId, load);
+    return load;
+  };
+
+  // Narrates any tracks not heard yet, then saves the whole course as one file with chapters
+  const exportAudio = async (course: SavedCourse, format: AudioExportFormat) => {
+    if (audioExport) return;
+    const tracks = narrationTracks(course.curriculum);
+    setAudioExport({ courseId: course.id, done: 0, total: tracks.length });
+    try {
+      const loaded = [];
+      for (const track of tracks) {
+        const { blob, chapters } = await loadNarration(course, track);
+        loaded.push({ title: track.title, blob, chapters });
+        setAudioExport(prev => prev && { ...prev, done: prev.done + 1 });
+      }
+      const file = await exportCourseAudio(course.curriculum.pathTitle, loaded, format);
+      downloadBlob(file, `${toFileName(course.curriculum.pathTitle)}.${AUDIO_EXPORT_EXTENSIONS[format]}`);
+    } catch (err) {
+      console.error("Audio export failed", err);
+      dispatch({ type: 'error/shown', error: toUserMessage(err) });
+    } finally {
+      setAudioExport(null);
+    }
+  };
+
+  const saveListeningPosition = (courseId: string, trackId: string, time: number) => {
+    const listeningPosition = { trackId, time, updatedAt: Date.now() };
+    dispatch({ type: 'library/listeningPositionSaved', courseId, listeningPosition });
+    const { user } = getState();
+    if (user) {
+      getCourseRepository().update(user.id, courseId, { listeningPosition })
+        .catch(err => console.error("Failed to save listening position", err));
+    }
+  };
+
+  return { playbackRate, setPlaybackRate, audioExport, listen, stopListening, loadNarration, exportAudio, saveListeningPosition };
+};
+
+export type Audio = ReturnType<typeof useAudio>;
@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { auth as firebaseAuth } from '../../services/firebase';
+import { BookOpen, Google } from '../../components/Icons';
+import EmailAuthForm from './EmailAuthForm';
+import { Auth } from './useAuth';
+
+interface AuthViewProps {
+  auth: Auth;
+}
+
+type AuthMode = 'signIn' | 'signUp' | 'reset';
+
+const TITLES: Record<AuthMode, string> = {
+  signIn: 'Welcome Back',
+  signUp: 'Create your account',
+  reset: 'Reset your password',
+};
+
+const AuthView: React.FC<AuthViewProps> = ({ auth }) => {
+  const [mode, setMode] = useState<AuthMode>('signIn');
+  const [resetEmail, setResetEmail] = useState('');
+  // Where the reset link went, once it's sent
+  const [resetSentTo, setResetSentTo] = useState<string | null>(null);
+
+  const switchMode = (next: AuthMode) => {
+    auth.dismissAuthError();
+    setResetSentTo(null);
+    setMode(next);
+  };
+
+  const handleReset = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await auth.resetPassword(resetEmail)) setResetSentTo(resetEmail.trim());
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-200 flex items-center justify-center p-4">
+        <div className="max-w-md w-full bg-white rounded-2xl shadow-xl overflow-hidden animate-slide-up border border-gray-100">
+           <div className="bg-black p-8 text-center text-white">
+             <BookOpen className="w-12 h-12 mx-auto mb-4 text-green-500" />
+             <h1 className="text-3xl font-bold mb-2 tracking-tight">CogniPath</h1>
+             <p className="text-gray-400">Adaptive AI Tutor</p>
+           </div>
+           <div className="p-8">
+              {auth.isAuthLoading ? (
+                 <div className="flex justify-center py-4">
+                   <div className="w-8 h-8 border-4 border-gray-200 border-t-green-600 rounded-full animate-spin"></div>
+                 </div>
+              ) : (
+                <div className="space-y-6">
+                   <div className="text-center">
+                     <h2 className="text-lg font-semibold text-gray-800">{TITLES[mode]}</h2>
+                     <p className="text-sm text-gray-500 mt-1">
+                        {firebaseAuth ? "Sign in to save your learning journey" : "Sign in to start learning (Demo Mode)"}
+                     </p>
+                   </div>
+
+                   {auth.authError && (
+                     <div className="bg-red-50 border border-red-200 text-red-800 text-sm px-4 py-2 rounded-lg">
+                       {auth.authError}
+                     </div>
+                   )}
+
+                   {mode === 'reset' ? (
+                     resetSentTo ? (
+                       <p className="text-sm text-gray-600 text-center">
+                         We sent a reset link to <strong>{resetSentTo}</strong>. Follow it, then sign in with your new password.
+                       </p>
+                     ) : (
+                       <form onSubmit={handleReset} className="space-y-3">
+                         <input
+                           type="email"
+                           value={resetEmail}
+                           onChange={(e) => setResetEmail(e.target.value)}
+                           placeholder="Email"
+                           autoComplete="email"
+                           className="w-full px-4 py-2.5 bg-white text-gray-900 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500 outline-none transition-all placeholder-gray-400 text-sm"
+                           required
+                         />
+                         <button type="submit" className="w-full bg-black hover:bg-gray-800 text-white font-semibold py-2.5 px-6 rounded-lg transition-colors text-sm">
+                           Send reset link
+                         </button>
+                       </form>
+                     )
+                   ) : (
+                     <EmailAuthForm
+                       key={mode}
+                       askName={mode === 'signUp'}
+                       submitLabel={mode === 'signUp' ? 'Create account' : 'Sign in'}
+                       isBusy={auth.isSubmitting}
+                       onSubmit={mode === 'signUp' ? auth.signUpEmail : auth.signInEmail}
+                     />
+                   )}
+
+                   <div className="flex justify-between text-xs">
+                     {mode === 'signIn' ? (
+                       <>
+                         <button onClick={() => switchMode('signUp')} className="text-green-600 hover:underline">New here? Create an account</button>
+                         <button onClick={() => switchMode('reset')} className="text-gray-500 hover:text-black">Forgot password?</button>
+                       </>
+                     ) : (
+                       <button onClick={() => switchMode('signIn')} className="text-green-600 hover:underline">Back to sign in</button>
+                     )}
+                   </div>
+
+                   <div className="flex items-center gap-3 text-xs text-gray-400">
+                     <div className="flex-1 border-t border-gray-200"></div>
+                     or
+                     <div className="flex-1 border-t border-gray-200"></div>
+                   </div>
+
+                   <div className="space-y-3">
+                     <button
+                        onClick={auth.signInGoogle}
+                        disabled={auth.isSubmitting}
+                        className="w-full bg-white border border-gray-300 hover:bg-gray-50 text-gray-700 font-semibold py-3 px-6 rounded-lg transition-colors flex items-center justify-center shadow-sm group disabled:opacity-60"
+                     >
+                        <Google className="w-5 h-5 mr-3" />
+                        {firebaseAuth ? "Sign in with Google" : "Enter Demo Mode"}
+                     </button>
+                     <button
+                        onClick={auth.signInGuest}
+                        disabled={auth.isSubmitting}
+                        className="w-full text-sm text-gray-600 hover:text-black py-2 transition-colors disabled:opacity-60"
+                     >
+                        Continue as guest
+                     </button>
+                     <p className="text-xs text-center text-gray-400">
+                       Guests can save their courses to an account later.
+                     </p>
+                   </div>
+
+                   <p className="text-xs text-center text-gray-400 mt-4">
+                     By continuing, you agree to our Terms and Privacy Policy.
+                   </p>
+                </div>
+              )}
+           </div>
+        </div>
+    </div>
+  );
+};
+
+export default AuthView;
@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { EmailCredentials } from './useAuth';
+
+interface EmailAuthFormProps {
+  submitLabel: string;
+  askName?: boolean;
+  isBusy?: boolean;
+  onSubmit: (credentials: EmailCredentials) => void;
+}
+
+const inputClass = "w-full px-4 py-2.5 bg-white text-gray-900 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500 outline-none transition-all placeholder-gray-400 text-sm";
+
+const EmailAuthForm: React.FC<EmailAuthFormProps> = ({ submitLabel, askName, isBusy, onSubmit }) => {
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit({ email, password, name: askName ? name : undefined });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      {askName && (
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Your name"
+          autoComplete="name"
+          className={inputClass}
+        />
+      )}
+      <input
+        type="email"
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+        placeholder="Email"
+        autoComplete="email"
+        className={inputClass}
+        required
+      />
+      <input
+        type="password"
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+        placeholder="Password"
+        autoComplete={askName ? 'new-password' : 'current-password'}
+        minLength={6}
+        className={inputClass}
+        required
+      />
+      <button
+        type="submit"
+        disabled={isBusy}
+        className="w-full bg-black hover:bg-gray-800 text-white font-semibold py-2.5 px-6 rounded-lg transition-colors disabled:opacity-60 text-sm"
+      >
+        {submitLabel}
+      </button>
+    </form>
+  );
+};
+
+export default EmailAuthForm;
@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { auth as firebaseAuth } from '../../services/firebase';
+import { Google, Save } from '../../components/Icons';
+import EmailAuthForm from './EmailAuthForm';
+import { Auth } from './useAuth';
+
+interface GuestUpgradePanelProps {
+  auth: Auth;
+}
+
+// Shown on the dashboard to guests, so they can keep their library under a real account
+const GuestUpgradePanel: React.FC<GuestUpgradePanelProps> = ({ auth }) => {
+  const [isUsingEmail, setIsUsingEmail] = useState(false);
+
+  return (
+    <div className="mb-8 bg-white rounded-xl border border-gray-200 shadow-sm p-5">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div className="flex items-start">
+          <div className="w-10 h-10 bg-green-50 text-green-600 rounded-lg flex items-center justify-center mr-4 shrink-0">
+            <Save className="w-5 h-5" />
+          </div>
+          <div>
+            <h2 className="font-bold text-gray-900">You're learning as a guest</h2>
+            <p className="text-sm text-gray-500">
+              Link an account to keep your courses when you sign out or switch devices. Signing out of a guest session leaves its courses behind.
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-3 shrink-0">
+          <button
+            onClick={auth.linkGoogle}
+            disabled={auth.isSubmitting}
+            className="bg-white border border-gray-300 hover:bg-gray-50 text-gray-700 text-sm font-semibold px-4 py-2.5 rounded-lg transition-colors flex items-center disabled:opacity-60"
+          >
+            <Google className="w-4 h-4 mr-2" />
+            {firebaseAuth ? 'Link Google' : 'Link demo account'}
+          </button>
+          <button
+            onClick={() => setIsUsingEmail(prev => !prev)}
+            className="text-sm text-green-600 font-semibold hover:underline"
+          >
+            Use email
+          </button>
+        </div>
+      </div>
+
+      {auth.authError && (
+        <div className="mt-4 bg-red-50 border border-red-200 text-red-800 text-sm px-4 py-2 rounded-lg flex items-center justify-between gap-3">
+          <span>{auth.authError}</span>
+          <button onClick={auth.dismissAuthError} className="text-red-400 hover:text-red-700 text-xs font-bold uppercase tracking-wide">
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {isUsingEmail && (
+        <div className="mt-4 max-w-sm">
+          <EmailAuthForm askName submitLabel="Save to this account" isBusy={auth.isSubmitting} onSubmit={auth.linkEmail} />
+          <p className="text-xs text-gray-400 mt-2">If the email already has an account, your courses are added to it.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GuestUpgradePanel;
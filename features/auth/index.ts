@@ -0,0 +1,3 @@
+export * from './useAuth';
+export { default as AuthView } from './AuthView';
+export { default as GuestUpgradePanel } from './GuestUpgradePanel';
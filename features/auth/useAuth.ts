@@ -0,0 +1,162 @@
+import { useEffect, useRef, useState } from 'react';
+import { User } from '../../types';
+import {
+  AuthAccount, LinkResult, watchAuth, restoreDemoAccount, signInWithGoogle, signInWithEmail, signUpWithEmail, sendPasswordReset,
+  signInAsGuest, linkGoogleAccount, linkEmailAccount, logoutUser, toAuthMessage
+} from '../../services/firebase';
+import { getCourseRepository } from '../../services/courses';
+import { moveGuestAssets } from '../../services/assets';
+import { loadSubjects, saveSubject } from '../../services/subjectStore';
+import { saveReview } from '../../services/reviewStore';
+import { loadProfile, saveProfile } from '../../services/learnerProfile';
+import { loadThreads, saveThread } from '../../services/chatHistoryStore';
+import { clearSessionState } from '../../services/persistence';
+import { replacePath } from '../../services/router';
+import { useAppStore } from '../../store';
+
+export interface EmailCredentials {
+  email: string;
+  password: string;
+  name?: string; // Only used when creating an account
+}
+
+const toUser = (account: AuthAccount): User => ({
+  id: account.uid,
+  name: account.displayName || (account.isAnonymous ? 'Guest' : 'Learner'),
+  email: account.email || undefined,
+  photoURL: account.photoURL || undefined,
+  joinedAt: Date.now(),
+  ...(account.isAnonymous ? { isGuest: true } : {})
+});
+
+export const useAuth = () => {
+  const { getState, dispatch } = useAppStore();
+  const [isAuthLoading, setIsAuthLoading] = useState(true);
+  // A sign-in or account link is in flight
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [authError, setAuthError] = useState<string | null>(null);
+  // While a guest links an account, the sign-in it may cause is handled by the link itself
+  const isLinkingRef = useRef(false);
+
+  // Monitor auth state; in demo mode this is the account kept in localStorage
+  useEffect(() => {
+    const { user } = getState();
+    if (user) {
+      restoreDemoAccount({ uid: user.id, displayName: user.name, email: user.email || null, photoURL: user.photoURL || null, isAnonymous: !!user.isGuest });
+    }
+
+    const unsubscribe = watchAuth(account => {
+      if (isLinkingRef.current) return;
+      if (account) {
+        dispatch({ type: 'auth/signedIn', user: toUser(account) });
+      } else {
+        dispatch({ type: 'auth/signedOut' });
+      }
+      setIsAuthLoading(false);
+    });
+
+    return () => unsubscribe();
+  }, []);
+
+  const runSignIn = async (signIn: () => Promise<AuthAccount>) => {
+    setIsSubmitting(true);
+    setAuthError(null);
+    try {
+      // The auth listener also reports this, but without a name given at sign-up
+      dispatch({ type: 'auth/signedIn', user: toUser(await signIn()) });
+    } catch (error) {
+      console.error("Login failed", error);
+      setAuthError(toAuthMessage(error));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const signInGoogle = () => runSignIn(signInWithGoogle);
+
+  const signInEmail = ({ email, password }: EmailCredentials) => runSignIn(() => signInWithEmail(email, password));
+
+  const signUpEmail = ({ email, password, name }: EmailCredentials) => runSignIn(() => signUpWithEmail(email, password, name?.trim() || undefined));
+
+  const signInGuest = () => runSignIn(signInAsGuest);
+
+  // Returns whether the reset email was sent
+  const resetPassword = async (email: string): Promise<boolean> => {
+    setAuthError(null);
+    try {
+      await sendPasswordReset(email);
+      return true;
+    } catch (error) {
+      console.error("Password reset failed", error);
+      setAuthError(toAuthMessage(error));
+      return false;
+    }
+  };
+
+  // Copies what a guest built into the existing account they signed in to. It's read
+  // from the store and this device, since the account can't read the guest's remote data.
+  const copyGuestData = async (accountId: string) => {
+    const { user, library, subjects, cardReviews } = getState();
+    if (!user) return;
+
+    const repository = getCourseRepository();
+    const courses = await moveGuestAssets(user.id, accountId, library);
+    await Promise.all(courses.map(course => repository.save(accountId, course)));
+
+    await Promise.all(library.map(async course => {
+      const threads = await loadThreads(user.id, course.id);
+      await Promise.all(threads.map(thread => saveThread(accountId, course.id, thread)));
+    }));
+    await Promise.all(Object.values(cardReviews).map(review => saveReview(accountId, review)));
+
+    // The account keeps its own subject maps where they're newer, and its own profile
+    const accountSubjects = await loadSubjects(accountId);
+    const newerSubjects = subjects.filter(s => !accountSubjects.some(a => a.id === s.id && a.updatedAt >= s.updatedAt));
+    await Promise.all(newerSubjects.map(subject => saveSubject(accountId, subject)));
+    if (user.profile && !(await loadProfile(accountId))) await saveProfile(accountId, user.profile);
+  };
+
+  // Turns a guest session into a full account without losing anything the guest made
+  const upgradeGuest = async (link: () => Promise<LinkResult>) => {
+    const { user } = getState();
+    if (!user?.isGuest) return;
+    setIsSubmitting(true);
+    setAuthError(null);
+    isLinkingRef.current = true;
+    try {
+      const { account, switched } = await link();
+      // The account already existed, so the guest's data is copied into it
+      if (switched) await copyGuestData(account.uid);
+      dispatch({ type: 'auth/signedIn', user: toUser(account) });
+    } catch (error) {
+      console.error("Account linking failed", error);
+      setAuthError(toAuthMessage(error));
+    } finally {
+      isLinkingRef.current = false;
+      setIsSubmitting(false);
+    }
+  };
+
+  const linkGoogle = () => upgradeGuest(linkGoogleAccount);
+
+  const linkEmail = ({ email, password, name }: EmailCredentials) =>
+    upgradeGuest(() => linkEmailAccount(email, password, name?.trim() || undefined));
+
+  const dismissAuthError = () => setAuthError(null);
+
+  const signOut = async () => {
+    replacePath('/');
+    // Close the player straight away; the rest of the session is cleared once signed out
+    dispatch({ type: 'audio/listeningStopped' });
+    await logoutUser();
+    dispatch({ type: 'session/reset' });
+    clearSessionState();
+  };
+
+  return {
+    isAuthLoading, isSubmitting, authError, signInGoogle, signInEmail, signUpEmail, signInGuest, resetPassword, linkGoogle, linkEmail,
+    dismissAuthError, signOut
+  };
+};
+
+export type Auth = ReturnType<typeof useAuth>;
@@ -0,0 +1,67 @@
+import React from 'react';
+import { SavedCourse } from '../../types';
+import { CourseExportFormat, COURSE_EXPORT_FORMATS } from '../../services/courseExport';
+import { AudioExportFormat, canExportCompressed } from '../../services/audioExport';
+import { Download } from '../../components/Icons';
+
+interface CourseDownloadMenuProps {
+  course: SavedCourse;
+  audioExport: { courseId: string; done: number; total: number } | null;
+  onExportCourse: (format: CourseExportFormat) => void;
+  onExportAudio: (format: AudioExportFormat) => void;
+}
+
+const closeMenu = (e: React.MouseEvent<HTMLElement>) => e.currentTarget.closest('details')?.removeAttribute('open');
+
+// Download the course as a document or deck, or its narration as one file
+const CourseDownloadMenu: React.FC<CourseDownloadMenuProps> = ({ course, audioExport, onExportCourse, onExportAudio }) => {
+  if (audioExport?.courseId === course.id) {
+    return (
+      <span className="ml-2 flex items-center text-xs font-semibold text-gray-500 px-3 py-3">
+        <Download className="w-4 h-4 mr-2 animate-pulse" />
+        Narrating {audioExport.done}/{audioExport.total}…
+      </span>
+    );
+  }
+
+  return (
+    <details className="ml-2 relative">
+      <summary
+        className="list-none cursor-pointer flex items-center bg-gray-50 rounded-full border border-gray-200 px-3 py-3 shadow-sm text-gray-600 hover:text-green-600 hover:border-green-300 transition-colors"
+        title="Download course"
+      >
+        <Download className="w-4 h-4" />
+      </summary>
+      <div className="absolute right-0 mt-2 w-60 bg-white border border-gray-200 rounded-xl shadow-lg z-20 py-1 text-sm">
+        {COURSE_EXPORT_FORMATS.map(({ format, label, hint }) => (
+          <button
+            key={format}
+            onClick={(e) => { closeMenu(e); onExportCourse(format); }}
+            className="w-full text-left px-4 py-2 hover:bg-gray-50"
+          >
+            {label} <span className="text-gray-400">· {hint}</span>
+          </button>
+        ))}
+        <div className="border-t border-gray-100 my-1 px-4 pt-2 text-xs font-semibold text-gray-400 uppercase tracking-wide">Audio</div>
+        <button
+          onClick={(e) => { closeMenu(e); onExportAudio('wav'); }}
+          disabled={!!audioExport}
+          className="w-full text-left px-4 py-2 hover:bg-gray-50 disabled:opacity-50"
+        >
+          WAV <span className="text-gray-400">· lossless, large</span>
+        </button>
+        {canExportCompressed() && (
+          <button
+            onClick={(e) => { closeMenu(e); onExportAudio('opus'); }}
+            disabled={!!audioExport}
+            className="w-full text-left px-4 py-2 hover:bg-gray-50 disabled:opacity-50"
+          >
+            Opus <span className="text-gray-400">· compressed</span>
+          </button>
+        )}
+      </div>
+    </details>
+  );
+};
+
+export default CourseDownloadMenu;
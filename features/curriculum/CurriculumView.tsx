@@ -0,0 +1,241 @@
+import React, { useState } from 'react';
+import { MASTERY_THRESHOLD } from '../../services/quizGrading';
+import { hasListeningProgress, lessonTrackId } from '../../services/narration';
+import { useAppState, selectCurrentCourse } from '../../store';
+import { ArrowLeft, BookOpen, Briefcase, CheckCircle, Compass, Globe, Headphones, Target } from '../../components/Icons';
+import NextPathSuggestions from '../../components/NextPathSuggestions';
+import { Audio } from '../audio';
+import { Library } from '../library';
+import { Breadcrumbs, Navigation } from '../navigation';
+import { TutorPanel, Tutor } from '../tutor';
+import { GenerationWizard } from '../wizard';
+import CourseDownloadMenu from './CourseDownloadMenu';
+import LessonCard from './LessonCard';
+import { CurriculumActions, RevisionDraft } from './useCurriculum';
+
+interface CurriculumViewProps {
+  curriculum: CurriculumActions;
+  tutor: Tutor;
+  audio: Audio;
+  library: Library;
+  wizard: GenerationWizard;
+  navigation: Navigation;
+}
+
+// The open course beside the tutor chat
+const CurriculumView: React.FC<CurriculumViewProps> = ({ curriculum, tutor, audio, library, wizard, navigation }) => {
+  const state = useAppState();
+  const currentCourse = selectCurrentCourse(state);
+  const [revisionDraft, setRevisionDraft] = useState<RevisionDraft | null>(null);
+
+  if (!state.curriculum) return null;
+  const progress = Math.round((state.completedSubLessons.length / state.curriculum.subLessons.length) * 100);
+
+  const handleRewrite = () => {
+    if (!revisionDraft) return;
+    setRevisionDraft(null);
+    curriculum.regenerateLesson(revisionDraft);
+  };
+
+  return (
+    <div className="h-screen flex flex-col bg-surface overflow-hidden">
+      <header className="bg-white border-b border-gray-200 px-4 py-3 shadow-sm z-20">
+        <div className="w-full flex items-center justify-between">
+          <Breadcrumbs navigation={navigation} />
+          <div className="flex items-center gap-4">
+             <button onClick={navigation.goBack} className="text-sm text-gray-500 hover:text-black flex items-center transition-colors">
+                <ArrowLeft className="w-4 h-4 mr-1" /> Dashboard
+             </button>
+          </div>
+        </div>
+      </header>
+
+      <div className="flex-1 flex overflow-hidden">
+        {/* Left Panel: Curriculum Content */}
+        <div className="flex-1 overflow-y-auto p-6 lg:p-10 custom-scrollbar border-r border-gray-200 bg-white">
+           <div className="max-w-3xl mx-auto animate-fade-in pb-12">
+              <div className="flex items-start justify-between mb-4">
+                 <div>
+                   <span className="text-green-600 font-semibold tracking-wide text-xs uppercase mb-1 block">Current Module</span>
+                   <h1 className="text-3xl lg:text-4xl font-bold text-gray-900">{state.curriculum.pathTitle}</h1>
+                 </div>
+
+                 {/* Listen to the course as a playlist */}
+                 {currentCourse && (
+                   <div className="flex items-center shrink-0">
+                     <button
+                       onClick={() => audio.listen(currentCourse)}
+                       className="flex items-center bg-gray-50 rounded-full border border-gray-200 pl-1 pr-4 py-1 shadow-sm text-xs font-semibold text-gray-600 hover:text-green-600 hover:border-green-300 transition-colors"
+                     >
+                       <span className="w-9 h-9 rounded-full flex items-center justify-center bg-white text-black mr-2">
+                         <Headphones className="w-4 h-4" />
+                       </span>
+                       {hasListeningProgress(currentCourse) ? 'Resume listening' : 'Listen to course'}
+                     </button>
+                     <CourseDownloadMenu
+                       course={currentCourse}
+                       audioExport={audio.audioExport}
+                       onExportCourse={(format) => library.exportCourse(currentCourse, format)}
+                       onExportAudio={(format) => audio.exportAudio(currentCourse, format)}
+                     />
+                   </div>
+                 )}
+              </div>
+
+              {state.curriculum.introduction && (
+                <p className="text-gray-600 text-lg leading-relaxed mb-8">
+                  {state.curriculum.introduction}
+                </p>
+              )}
+
+              {/* Progress Bar */}
+              <div className="mb-10 bg-white p-4 rounded-xl border border-gray-200 shadow-sm">
+                <div className="flex justify-between items-center mb-2">
+                  <span className="font-semibold text-gray-700 text-sm">Course Progress</span>
+                  <span className="text-sm font-bold text-green-600">{progress}%</span>
+                </div>
+                <div className="w-full bg-gray-100 rounded-full h-2.5 overflow-hidden">
+                  <div
+                    className="bg-green-600 h-2.5 rounded-full transition-all duration-500 ease-out"
+                    style={{ width: `${progress}%` }}
+                  ></div>
+                </div>
+                <label className="mt-3 flex items-center text-xs text-gray-500 cursor-pointer select-none">
+                  <input
+                    type="checkbox"
+                    checked={state.requireMastery}
+                    onChange={curriculum.toggleRequireMastery}
+                    className="mr-2 accent-green-600"
+                  />
+                  Require quiz mastery ({Math.round(MASTERY_THRESHOLD * 100)}%) before a lesson can be completed
+                </label>
+              </div>
+
+              {/* Real World Context Grid */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-10">
+                 {/* Why It Matters */}
+                 <div className="bg-gray-50 rounded-xl p-6 border border-gray-200">
+                    <h3 className="flex items-center text-lg font-bold text-black mb-3">
+                       <Globe className="w-5 h-5 mr-2 text-green-600" /> Real World Context
+                    </h3>
+                    <ul className="space-y-2">
+                       {state.curriculum.realWorldUseCases?.map((useCase, i) => (
+                         <li key={i} className="flex items-start text-sm text-gray-700">
+                            <span className="w-1.5 h-1.5 rounded-full bg-green-500 mt-1.5 mr-2 flex-shrink-0"></span>
+                            {useCase}
+                         </li>
+                       ))}
+                    </ul>
+                 </div>
+
+                 {/* Case Study */}
+                 <div className="bg-gray-900 text-white rounded-xl p-6 shadow-md relative overflow-hidden">
+                    <div className="absolute top-0 right-0 p-4 opacity-10">
+                       <Briefcase className="w-24 h-24" />
+                    </div>
+                    <h3 className="flex items-center text-lg font-bold mb-2 relative z-10">
+                       Case Study
+                    </h3>
+                    {state.curriculum.caseStudy && (
+                      <div className="relative z-10 text-sm">
+                         <h4 className="font-semibold text-green-400 mb-1">{state.curriculum.caseStudy.title}</h4>
+                         <p className="text-gray-300 mb-2 italic">"{state.curriculum.caseStudy.scenario}"</p>
+                         <div className="mt-2 pt-2 border-t border-gray-700">
+                            <span className="text-xs uppercase tracking-wider text-gray-500">Outcome</span>
+                            <p className="text-gray-200">{state.curriculum.caseStudy.outcome}</p>
+                         </div>
+                      </div>
+                    )}
+                 </div>
+              </div>
+
+              {/* Objectives & Concepts */}
+              <div className="mb-10">
+                <h3 className="text-xl font-bold text-gray-900 mb-4 flex items-center">
+                   <Target className="w-5 h-5 mr-2" /> Core Concepts & Objectives
+                </h3>
+                <div className="flex flex-wrap gap-2 mb-4">
+                    {state.curriculum.keyConcepts.map((concept, i) => (
+                      <span key={i} className="bg-white text-gray-800 px-3 py-1.5 rounded-full text-sm font-medium border border-gray-200 shadow-sm">
+                        {concept}
+                      </span>
+                    ))}
+                 </div>
+                <ul className="grid grid-cols-1 gap-2">
+                  {state.curriculum.objectives.map((obj, i) => (
+                    <li key={i} className="flex items-start text-gray-600 text-sm">
+                      <CheckCircle className="w-4 h-4 text-green-600 mr-2 mt-0.5 flex-shrink-0" />
+                      <span>{obj}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+
+              {/* Lessons */}
+              <div className="space-y-8">
+                <h3 className="text-2xl font-bold text-gray-900 border-b border-gray-200 pb-2">Lesson Modules</h3>
+                {state.curriculum.subLessons.map((lesson, i) => (
+                  <LessonCard
+                    key={i}
+                    lesson={lesson}
+                    index={i}
+                    curriculum={curriculum}
+                    routeLink={navigation.routeLink}
+                    revisionDraft={revisionDraft}
+                    onRevisionDraftChange={setRevisionDraft}
+                    onRewrite={handleRewrite}
+                    onListen={currentCourse ? () => audio.listen(currentCourse, lessonTrackId(i)) : undefined}
+                  />
+                ))}
+              </div>
+
+              {/* Resources */}
+              {state.curriculum.resources && (
+                 <div className="mt-12 bg-gray-50 rounded-xl p-6 border border-gray-200">
+                    <h3 className="font-bold text-gray-900 mb-3 flex items-center">
+                       <BookOpen className="w-4 h-4 mr-2" /> Further Reading & Resources
+                    </h3>
+                    <div className="flex flex-wrap gap-2">
+                       {state.curriculum.resources.map((res, i) => (
+                          <span key={i} className="text-sm text-gray-600 bg-white border border-gray-200 px-3 py-1 rounded-md">
+                             {res}
+                          </span>
+                       ))}
+                    </div>
+                 </div>
+              )}
+
+              {/* Footer Expansion */}
+              <div className="mt-12 pt-8 border-t border-gray-200">
+                {currentCourse && (
+                  <div className="mb-6">
+                    <h3 className="font-bold text-gray-900 mb-3 flex items-center">
+                      <Compass className="w-4 h-4 mr-2 text-green-600" /> Recommended Next
+                    </h3>
+                    <NextPathSuggestions
+                      course={currentCourse}
+                      library={state.library}
+                      isSuggesting={wizard.suggestingFor === currentCourse.id}
+                      onSelect={(path) => wizard.selectPath(path, currentCourse)}
+                      onSuggestFollowUp={() => wizard.suggestFollowUp(currentCourse)}
+                    />
+                  </div>
+                )}
+                <div className="text-center">
+                  <p className="text-gray-500 italic mb-4">Ready for the next challenge?</p>
+                  <button onClick={navigation.goBack} className="text-green-600 font-semibold hover:underline">
+                    Explore other paths in {state.selectedPillar?.title}
+                  </button>
+                </div>
+              </div>
+           </div>
+        </div>
+
+        {/* Right Panel: Ask The Tutor */}
+        <TutorPanel tutor={tutor} />
+      </div>
+    </div>
+  );
+};
+
+export default CurriculumView;
@@ -0,0 +1,356 @@
+import React from 'react';
+import ReactMarkdown from 'react-markdown';
+import { SubLesson } from '../../types';
+import { isMastered, MASTERY_THRESHOLD } from '../../services/quizGrading';
+import { REGENERATION_REASONS } from '../../services/lessonVersions';
+import { imageAssetIdFor } from '../../services/assets';
+import { useAppState, lessonKey } from '../../store';
+import {
+  BookOpen, Briefcase, Check, ExternalLink, Headphones, Image, Lightbulb, Target, ThumbsDown, ThumbsUp, Wrench
+} from '../../components/Icons';
+import LessonQuiz from '../../components/LessonQuiz';
+import { Navigation } from '../navigation';
+import LessonVisual from './LessonVisual';
+import { CurriculumActions, RevisionDraft } from './useCurriculum';
+
+interface LessonCardProps {
+  lesson: SubLesson;
+  index: number;
+  curriculum: CurriculumActions;
+  routeLink: Navigation['routeLink'];
+  // Open rewrite form, if any; only one lesson is revised at a time
+  revisionDraft: RevisionDraft | null;
+  onRevisionDraftChange: (draft: RevisionDraft | null) => void;
+  onRewrite: () => void;
+  onListen?: () => void;
+}
+
+const LessonCard: React.FC<LessonCardProps> = ({
+  lesson, index: i, curriculum, routeLink, revisionDraft, onRevisionDraftChange, onRewrite, onListen
+}) => {
+  const state = useAppState();
+  const courseId = state.activeCourseId;
+  const isGenerating = !!courseId && state.generatingLessons.includes(lessonKey(courseId, i));
+  const isGeneratingQuiz = !!courseId && state.generatingQuizzes.includes(lessonKey(courseId, i));
+
+  if (lesson.status) {
+    return (
+      <div id={`lesson-${i}`} className="relative pl-8 border-l-2 pb-12 last:pb-0 last:border-l-0 border-gray-200 scroll-mt-6">
+        <div className="absolute -left-[11px] top-0 w-6 h-6 rounded-full ring-4 ring-white bg-gray-100 border-2 border-dashed border-gray-300"></div>
+        <h4 className="text-xl font-bold mb-2 text-gray-900">{lesson.title}</h4>
+        <p className="text-gray-600 mb-6 italic text-sm border-l-2 border-gray-300 pl-3">{lesson.content}</p>
+        {isGenerating ? (
+          <div className="space-y-3 animate-pulse">
+            <div className="h-4 bg-gray-100 rounded w-1/3"></div>
+            <div className="h-24 bg-yellow-50 rounded-lg border border-yellow-100"></div>
+            <div className="grid grid-cols-2 gap-6">
+              <div className="h-20 bg-gray-50 rounded-lg border border-gray-200"></div>
+              <div className="h-20 bg-gray-50 rounded-lg border border-gray-200"></div>
+            </div>
+            <p className="text-xs text-gray-400 not-italic">Writing this lesson...</p>
+          </div>
+        ) : (
+          <div className="bg-gray-50 border border-dashed border-gray-300 rounded-lg p-4 flex items-center justify-between">
+            <span className="text-sm text-gray-500">
+              {lesson.status === 'failed' ? "This lesson couldn't be generated." : "This lesson hasn't been written yet."}
+            </span>
+            <button
+              onClick={() => curriculum.generateLesson(i)}
+              className="text-sm font-semibold text-green-600 hover:underline"
+            >
+              {lesson.status === 'failed' ? 'Retry' : 'Generate lesson'}
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  const isCompleted = state.completedSubLessons.includes(i);
+  const isLocked = !isCompleted && state.requireMastery && !isMastered(state.quizScores[i]);
+  const feedback = state.subLessonFeedback[i];
+  // A written lesson that's being generated is being rewritten
+  const isRewriting = isGenerating;
+
+  return (
+    <div id={`lesson-${i}`} className={`relative pl-8 border-l-2 pb-12 last:pb-0 last:border-l-0 transition-colors scroll-mt-6 ${isCompleted ? 'border-green-200' : 'border-gray-200'}`}>
+      <button
+        onClick={() => curriculum.toggleLesson(i)}
+        className={`absolute -left-[11px] top-0 w-6 h-6 rounded-full ring-4 ring-white flex items-center justify-center transition-all cursor-pointer shadow-sm ${isCompleted ? 'bg-green-600 text-white hover:bg-green-700' : isLocked ? 'bg-white border-2 border-dashed border-gray-300 cursor-not-allowed' : 'bg-white border-2 border-gray-300 hover:border-black'}`}
+        title={isCompleted ? "Mark as incomplete" : isLocked ? `Score ${Math.round(MASTERY_THRESHOLD * 100)}% on the quiz to complete` : "Mark as complete"}
+      >
+         {isCompleted && <Check className="w-3.5 h-3.5 animate-scale-in" />}
+      </button>
+
+      <div className={`transition-all duration-300 ${isCompleted ? 'opacity-50 grayscale' : 'opacity-100'}`}>
+         <h4 className={`text-xl font-bold mb-2 flex items-center ${isCompleted ? 'text-gray-500 line-through' : 'text-gray-900'}`}>
+            {lesson.title}
+            {courseId && (
+              <a
+                {...routeLink({ name: 'course', courseId, lessonIndex: i })}
+                className={`ml-2 text-base font-normal no-underline transition-colors ${state.focusedLesson === i ? 'text-green-600' : 'text-gray-300 hover:text-green-600'}`}
+                title="Link to this lesson"
+              >
+                #
+              </a>
+            )}
+            {isCompleted && <span className="ml-3 text-xs bg-green-100 text-green-700 px-2 py-0.5 rounded-full font-medium no-underline inline-block animate-scale-in">Completed</span>}
+            {onListen && (
+              <button
+                onClick={onListen}
+                className="ml-auto p-1.5 rounded-full text-gray-400 hover:text-green-600 hover:bg-green-50 transition-colors"
+                title="Listen to this lesson"
+              >
+                <Headphones className="w-4 h-4" />
+              </button>
+            )}
+         </h4>
+
+         <p className="text-gray-600 mb-6 italic text-sm border-l-2 border-gray-300 pl-3">{lesson.content}</p>
+
+         {/* General Concepts */}
+         {lesson.generalConcepts && (
+           <div className="mb-6">
+             <h5 className="flex items-center font-bold text-gray-800 mb-2">
+               <Lightbulb className="w-4 h-4 mr-2 text-yellow-500" />
+               General Concepts
+             </h5>
+             <div className="prose prose-sm prose-slate max-w-none text-gray-700 bg-yellow-50/50 p-4 rounded-lg border border-yellow-100">
+               <ReactMarkdown>{lesson.generalConcepts}</ReactMarkdown>
+             </div>
+           </div>
+         )}
+
+         {/* Use Cases & Case Studies Grid */}
+         <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+            {/* Use Cases */}
+            {lesson.useCases && lesson.useCases.length > 0 && (
+               <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+                  <h5 className="flex items-center font-bold text-gray-800 mb-3 text-sm">
+                     <Wrench className="w-4 h-4 mr-2 text-blue-500" /> Use Cases
+                  </h5>
+                  <ul className="space-y-2">
+                    {lesson.useCases.map((uc, idx) => (
+                      <li key={idx} className="flex items-start text-xs text-gray-600">
+                         <span className="w-1 h-1 rounded-full bg-blue-500 mt-1.5 mr-2 flex-shrink-0"></span>
+                         {uc}
+                      </li>
+                    ))}
+                  </ul>
+               </div>
+            )}
+
+            {/* Case Studies */}
+            {lesson.caseStudies && lesson.caseStudies.length > 0 && (
+               <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+                  <h5 className="flex items-center font-bold text-gray-800 mb-3 text-sm">
+                     <Briefcase className="w-4 h-4 mr-2 text-purple-500" /> Case Studies
+                  </h5>
+                  <ul className="space-y-2">
+                    {lesson.caseStudies.map((cs, idx) => (
+                      <li key={idx} className="flex items-start text-xs text-gray-600">
+                         <span className="w-1 h-1 rounded-full bg-purple-500 mt-1.5 mr-2 flex-shrink-0"></span>
+                         {cs}
+                      </li>
+                    ))}
+                  </ul>
+               </div>
+            )}
+         </div>
+
+         {/* References & Visuals Grid */}
+         <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+           {/* References */}
+           {lesson.references && lesson.references.length > 0 && (
+             <div className="bg-white border border-gray-200 rounded-lg p-4">
+               <h5 className="flex items-center font-bold text-gray-800 mb-2 text-sm">
+                  <BookOpen className="w-4 h-4 mr-2 text-gray-500" /> References
+               </h5>
+               <div className="flex flex-wrap gap-2">
+                  {lesson.references.map((ref, idx) => {
+                    const isUrl = ref.startsWith('http://') || ref.startsWith('https://');
+                    return isUrl ? (
+                       <a
+                         key={idx}
+                         href={ref}
+                         target="_blank"
+                         rel="noopener noreferrer"
+                         className="bg-green-50 text-green-700 hover:bg-green-100 hover:underline text-xs px-2 py-1 rounded border border-green-200 flex items-center transition-colors group"
+                         title={ref}
+                       >
+                          <ExternalLink className="w-3 h-3 mr-1 flex-shrink-0" />
+                          <span className="truncate max-w-[150px]">
+                            {ref.length > 25 ? 'Open Resource' : ref}
+                          </span>
+                       </a>
+                    ) : (
+                      <span key={idx} className="bg-gray-100 text-gray-600 text-xs px-2 py-1 rounded border border-gray-200">
+                        {ref}
+                      </span>
+                    );
+                  })}
+               </div>
+             </div>
+           )}
+
+           {/* Visual Aid */}
+           <div className="bg-white">
+              <h5 className="flex items-center font-bold text-gray-800 mb-2 text-sm">
+                  <Image className="w-4 h-4 mr-2 text-indigo-500" /> Visual Concept
+               </h5>
+              <LessonVisual
+                description={lesson.visualDescription}
+                userId={state.user?.id}
+                assetId={courseId ? imageAssetIdFor(courseId, lesson.visualDescription) : undefined}
+              />
+           </div>
+         </div>
+
+         {/* Example Box */}
+         {lesson.example && (
+           <div className="bg-green-50 border-l-4 border-green-500 p-4 rounded-r-lg mb-4">
+              <span className="font-bold text-green-800 text-xs uppercase tracking-wide block mb-1">Example</span>
+              <p className="text-gray-800 text-sm">{lesson.example}</p>
+           </div>
+         )}
+
+         {/* Action Item */}
+         <div className={`border rounded-lg p-4 transition-colors mb-4 bg-white shadow-sm border-gray-200`}>
+           <span className={`text-xs font-bold uppercase tracking-wider mb-1 block text-black`}>Action Item</span>
+           <p className={`text-sm font-medium text-gray-700`}>{lesson.actionItem}</p>
+         </div>
+
+         {/* Lesson Quiz */}
+         <div className="mb-4">
+           {lesson.quiz ? (
+             <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+               <h5 className="flex items-center font-bold text-gray-800 mb-3 text-sm">
+                 <Target className="w-4 h-4 mr-2 text-green-600" /> Check Your Understanding
+               </h5>
+               <LessonQuiz
+                 key={`${courseId}-${i}-${lesson.quiz.generatedAt}`}
+                 quiz={lesson.quiz}
+                 score={state.quizScores[i]}
+                 onSubmit={(score) => curriculum.submitQuiz(i, score)}
+               />
+             </div>
+           ) : (
+             <button
+               onClick={() => curriculum.generateQuiz(i)}
+               disabled={isGeneratingQuiz}
+               className="w-full border border-dashed border-gray-300 rounded-lg p-3 text-sm font-semibold text-gray-600 hover:border-green-400 hover:text-green-600 transition-colors flex items-center justify-center disabled:opacity-60"
+             >
+               <Target className="w-4 h-4 mr-2" />
+               {isGeneratingQuiz ? 'Writing quiz...' : 'Quiz me on this lesson'}
+             </button>
+           )}
+         </div>
+
+         {/* Regeneration */}
+         {isRewriting && (
+           <div className="mb-4 bg-gray-50 border border-gray-200 rounded-lg p-3 text-sm text-gray-500 animate-pulse">
+             Rewriting this lesson...
+           </div>
+         )}
+         {revisionDraft?.index === i && !isRewriting && (
+           <div className="mb-4 bg-red-50/50 border border-red-100 rounded-lg p-4 animate-scale-in">
+             <p className="text-sm font-semibold text-gray-800 mb-3">What didn't work about this lesson?</p>
+             <div className="flex flex-wrap gap-2 mb-3">
+               {REGENERATION_REASONS.map(({ reason, label }) => (
+                 <button
+                   key={reason}
+                   onClick={() => onRevisionDraftChange({ ...revisionDraft, reason })}
+                   className={`text-xs px-3 py-1.5 rounded-full border transition-colors ${revisionDraft.reason === reason ? 'bg-black text-white border-black' : 'bg-white text-gray-600 border-gray-300 hover:border-black'}`}
+                 >
+                   {label}
+                 </button>
+               ))}
+             </div>
+             <input
+               type="text"
+               value={revisionDraft.note}
+               onChange={(e) => onRevisionDraftChange({ ...revisionDraft, note: e.target.value })}
+               placeholder="Anything else? (optional)"
+               className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-green-500 outline-none mb-3 bg-white"
+             />
+             <div className="flex justify-end gap-3">
+               <button onClick={() => onRevisionDraftChange(null)} className="text-sm text-gray-500 hover:text-black">Keep as is</button>
+               <button onClick={onRewrite} className="bg-black text-white text-sm px-4 py-1.5 rounded-lg hover:bg-gray-800 transition-colors">
+                 Rewrite lesson
+               </button>
+             </div>
+           </div>
+         )}
+
+         {/* Version History */}
+         {lesson.history && lesson.history.length > 0 && (
+           <details className="mb-2 text-xs text-gray-500">
+             <summary className="cursor-pointer hover:text-black">
+               Version {lesson.history.length + 1} · {lesson.history.length} earlier version{lesson.history.length === 1 ? '' : 's'}
+             </summary>
+             <ul className="mt-2 space-y-1">
+               {lesson.history.map((version, v) => (
+                 <li key={version.replacedAt} className="flex items-center justify-between bg-gray-50 border border-gray-200 rounded px-3 py-1.5">
+                   <span>
+                     {version.lesson.title} · replaced {new Date(version.replacedAt).toLocaleDateString()}
+                     {version.revision && ` (${REGENERATION_REASONS.find(r => r.reason === version.revision?.reason)?.label})`}
+                   </span>
+                   <button onClick={() => curriculum.restoreLessonVersion(i, v)} className="font-semibold text-green-600 hover:underline">
+                     Revert
+                   </button>
+                 </li>
+               ))}
+             </ul>
+           </details>
+         )}
+
+         {/* Feedback Controls */}
+         <div className="flex items-center justify-end space-x-3 text-sm h-8">
+            {!feedback ? (
+              <>
+                <span className="text-gray-400 text-xs transition-opacity duration-300">Was this helpful?</span>
+                <button
+                  onClick={() => curriculum.giveFeedback(i, 'helpful')}
+                  className="p-1.5 rounded-md transition-all hover:bg-green-50 text-gray-400 hover:text-green-600 hover:scale-110 active:scale-95"
+                >
+                  <ThumbsUp className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => {
+                    curriculum.giveFeedback(i, 'unhelpful');
+                    onRevisionDraftChange({ index: i, reason: 'too_hard', note: '' });
+                  }}
+                  className="p-1.5 rounded-md transition-all hover:bg-red-50 text-gray-400 hover:text-red-600 hover:scale-110 active:scale-95"
+                >
+                  <ThumbsDown className="w-4 h-4" />
+                </button>
+              </>
+            ) : (
+              <div className="flex items-center space-x-2 animate-scale-in text-gray-500">
+                 {feedback === 'unhelpful' && !revisionDraft && !isRewriting && (
+                    <button
+                      onClick={() => onRevisionDraftChange({ index: i, reason: 'too_hard', note: '' })}
+                      className="text-xs font-semibold text-green-600 hover:underline mr-2"
+                    >
+                      Rewrite this lesson
+                    </button>
+                 )}
+                 <span className="text-xs font-medium italic">Thanks for feedback!</span>
+                 {feedback === 'helpful' ? (
+                    <div className="p-1.5 bg-green-100 text-green-600 rounded-md shadow-sm">
+                        <ThumbsUp className="w-4 h-4" />
+                    </div>
+                 ) : (
+                    <div className="p-1.5 bg-red-100 text-red-600 rounded-md shadow-sm">
+                        <ThumbsDown className="w-4 h-4" />
+                    </div>
+                 )}
+              </div>
+            )}
+         </div>
+      </div>
+    </div>
+  );
+};
+
+export default LessonCard;
@@ -0,0 +1,91 @@
+import React, { useEffect, useState } from 'react';
+import { loadAsset, saveAsset } from '../../services/assets';
+import { Image } from '../../components/Icons';
+
+interface LessonVisualProps {
+  description: string;
+  userId?: string;
+  assetId?: string; // Where the generated image is cached; without it the image is regenerated on every visit
+}
+
+const LessonVisual: React.FC<LessonVisualProps> = ({ description, userId, assetId }) => {
+  const [imgSrc, setImgSrc] = useState<string | null>(null);
+  const [error, setError] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!description) return;
+    setLoading(true);
+    setError(false);
+    const encoded = encodeURIComponent(description);
+    // Use pollinations.ai to generate image from description
+    const remoteUrl = `https://image.pollinations.ai/prompt/${encoded}?nologo=true&width=800&height=600&seed=${Math.floor(Math.random() * 1000)}`;
+    if (!userId || !assetId) {
+      setImgSrc(remoteUrl);
+      return;
+    }
+
+    let cancelled = false;
+    let objectUrl: string | null = null;
+    loadAsset(userId, assetId)
+      .then(async cached => {
+        if (cached) return cached;
+        const response = await fetch(remoteUrl);
+        if (!response.ok) throw new Error(`Image request failed: ${response.status}`);
+        const blob = await response.blob();
+        await saveAsset(userId, assetId, blob);
+        return blob;
+      })
+      .then(blob => {
+        if (cancelled) return;
+        objectUrl = URL.createObjectURL(blob);
+        setImgSrc(objectUrl);
+      })
+      .catch(err => {
+        console.error("Failed to cache lesson image", err);
+        if (!cancelled) setImgSrc(remoteUrl);
+      });
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [description, userId, assetId]);
+
+  if (error || !description) {
+     return (
+        <div className="bg-gray-50 border border-dashed border-gray-300 rounded-lg p-4 flex flex-col items-center justify-center text-center h-48">
+            <div className="bg-white p-2 rounded-full shadow-sm mb-2">
+                <Image className="w-5 h-5 text-gray-400" />
+            </div>
+            <span className="text-xs font-bold uppercase text-gray-400 mb-1">Visual Concept</span>
+            <p className="text-xs text-gray-500">{description || 'No visual description available.'}</p>
+        </div>
+     );
+  }
+
+  return (
+    <div className="rounded-lg overflow-hidden border border-gray-200 shadow-sm relative h-64 bg-gray-100 group mb-6">
+       <img
+         src={imgSrc || ''}
+         alt={description}
+         className={`w-full h-full object-cover transition-opacity duration-700 ${loading ? 'opacity-0' : 'opacity-100'}`}
+         onLoad={() => setLoading(false)}
+         onError={() => setError(true)}
+       />
+       {loading && (
+          <div className="absolute inset-0 flex items-center justify-center">
+             <div className="w-8 h-8 border-4 border-green-200 border-t-green-600 rounded-full animate-spin"></div>
+          </div>
+       )}
+       {/* Hover overlay with description */}
+       {!loading && (
+          <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity flex items-end justify-center p-4">
+             <p className="text-white text-xs text-center font-medium">{description}</p>
+          </div>
+       )}
+    </div>
+  );
+};
+
+export default LessonVisual;
@@ -0,0 +1,2 @@
+export * from './useCurriculum';
+export { default as CurriculumView } from './CurriculumView';
@@ -0,0 +1,98 @@
+import { RegenerationReason, SavedCourse } from '../../types';
+import { generateSubLesson, regenerateSubLesson, generateLessonQuiz } from '../../services/geminiService';
+import { toUserMessage } from '../../services/llm';
+import { useAppStore } from '../../store';
+
+export interface RevisionDraft {
+  index: number;
+  reason: RegenerationReason;
+  note: string;
+}
+
+interface CurriculumOptions {
+  restoreThreads: (course: SavedCourse) => Promise<void>;
+}
+
+// The open course: writing its lessons and quizzes on demand, and the learner's progress through it.
+export const useCurriculum = ({ restoreThreads }: CurriculumOptions) => {
+  const { getState, dispatch } = useAppStore();
+
+  const showError = (err: unknown) => dispatch({ type: 'error/shown', error: toUserMessage(err) });
+
+  const openCourse = async (course: SavedCourse) => {
+    dispatch({ type: 'course/opened', course });
+    await restoreThreads(course);
+  };
+
+  // Fills a single pending or failed lesson of the open course
+  const generateLesson = async (index: number) => {
+    const { activeCourseId: courseId, curriculum, selectedPillar, subject } = getState();
+    if (!courseId || !curriculum || !selectedPillar) return;
+
+    dispatch({ type: 'course/lessonGenerationStarted', courseId, index });
+    try {
+      const lesson = await generateSubLesson(subject, selectedPillar.title, curriculum, index);
+      dispatch({ type: 'course/lessonWritten', courseId, index, lesson });
+    } catch (err) {
+      dispatch({ type: 'course/lessonFailed', courseId, index });
+      showError(err);
+    } finally {
+      dispatch({ type: 'course/lessonGenerationFinished', courseId, index });
+    }
+  };
+
+  const generateQuiz = async (index: number) => {
+    const { activeCourseId: courseId, curriculum, subject } = getState();
+    const lesson = curriculum?.subLessons[index];
+    if (!courseId || !curriculum || !lesson) return;
+
+    dispatch({ type: 'course/quizGenerationStarted', courseId, index });
+    try {
+      const quiz = await generateLessonQuiz(subject, curriculum.pathTitle, lesson);
+      dispatch({ type: 'course/quizAdded', courseId, index, quiz });
+    } catch (err) {
+      showError(err);
+    } finally {
+      dispatch({ type: 'course/quizGenerationFinished', courseId, index });
+    }
+  };
+
+  // Rewrites a lesson the learner rated unhelpful; the old version moves into its history
+  const regenerateLesson = async ({ index, reason, note }: RevisionDraft) => {
+    const { activeCourseId: courseId, curriculum, selectedPillar, subject } = getState();
+    if (!courseId || !curriculum || !selectedPillar) return;
+
+    const revision = { reason, note: note.trim() };
+    dispatch({ type: 'course/lessonGenerationStarted', courseId, index });
+    try {
+      const lesson = await regenerateSubLesson(subject, selectedPillar.title, curriculum, index, revision);
+      dispatch({ type: 'course/lessonRewritten', courseId, index, lesson, revision });
+    } catch (err) {
+      showError(err);
+    } finally {
+      dispatch({ type: 'course/lessonGenerationFinished', courseId, index });
+    }
+  };
+
+  const restoreLessonVersion = (index: number, versionIndex: number) => {
+    const { activeCourseId: courseId } = getState();
+    if (!courseId) return;
+    dispatch({ type: 'course/lessonVersionRestored', courseId, index, versionIndex });
+  };
+
+  const toggleLesson = (index: number) => dispatch({ type: 'course/lessonToggled', index });
+
+  const submitQuiz = (index: number, score: number) => dispatch({ type: 'course/quizSubmitted', index, score });
+
+  const toggleRequireMastery = () => dispatch({ type: 'course/masteryToggled' });
+
+  const giveFeedback = (index: number, feedback: 'helpful' | 'unhelpful') =>
+    dispatch({ type: 'course/feedbackGiven', index, feedback });
+
+  return {
+    openCourse, generateLesson, generateQuiz, regenerateLesson, restoreLessonVersion,
+    toggleLesson, submitQuiz, toggleRequireMastery, giveFeedback
+  };
+};
+
+export type CurriculumActions = ReturnType<typeof useCurriculum>;
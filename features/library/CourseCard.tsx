@@ -0,0 +1,95 @@
+import React from 'react';
+import { SavedCourse } from '../../types';
+import { hasListeningProgress } from '../../services/narration';
+import { downloadCourseBundle, canShareCourses } from '../../services/sharing';
+import { ChevronRight, Headphones, Share, Trash } from '../../components/Icons';
+import PillarIcon from '../../components/PillarIcon';
+
+interface CourseCardProps {
+  course: SavedCourse;
+  onOpen: () => void;
+  onDelete: () => void;
+  onListen: () => void;
+  onShare: () => void;
+}
+
+const closeMenu = (e: React.MouseEvent<HTMLElement>) => e.currentTarget.closest('details')?.removeAttribute('open');
+
+const CourseCard: React.FC<CourseCardProps> = ({ course, onOpen, onDelete, onListen, onShare }) => {
+  const progress = Math.round((course.completedSubLessons.length / course.curriculum.subLessons.length) * 100);
+  return (
+    <div onClick={onOpen} className="bg-white rounded-xl border border-gray-200 shadow-sm hover:shadow-md hover:border-green-400 transition-all cursor-pointer group relative overflow-hidden">
+       <div className="p-6">
+          <div className="flex justify-between items-start mb-4">
+             <div className="w-10 h-10 bg-green-50 text-green-600 rounded-lg flex items-center justify-center">
+                <PillarIcon icon={course.pillar.icon} />
+             </div>
+             <button
+                onClick={(e) => { e.stopPropagation(); onDelete(); }}
+                className="text-gray-300 hover:text-red-500 p-1 rounded-md hover:bg-red-50 transition-colors z-20 relative"
+                title="Delete Course"
+             >
+                <Trash className="w-4 h-4" />
+             </button>
+          </div>
+          <h3 className="text-lg font-bold text-gray-900 mb-1 line-clamp-1 group-hover:text-green-600 transition-colors">{course.path.title}</h3>
+          <p className="text-xs text-gray-500 uppercase tracking-wide mb-4">{course.subject} • {course.pillar.title}</p>
+
+          <div className="space-y-2">
+             <div className="flex justify-between text-xs font-medium">
+                <span className="text-gray-600">{progress}% Complete</span>
+                <span className="text-green-600">{course.completedSubLessons.length}/{course.curriculum.subLessons.length}</span>
+             </div>
+             <div className="w-full bg-gray-100 rounded-full h-1.5 overflow-hidden">
+                <div className="bg-green-500 h-1.5 rounded-full" style={{ width: `${progress}%` }}></div>
+             </div>
+          </div>
+       </div>
+       <div className="bg-gray-50 px-6 py-3 border-t border-gray-100 flex justify-between items-center">
+          <span className="text-xs text-gray-400">Last accessed {new Date(course.lastAccessed).toLocaleDateString()}</span>
+          <div className="flex items-center gap-2">
+             <button
+                onClick={(e) => { e.stopPropagation(); onListen(); }}
+                className="text-gray-400 hover:text-green-600 p-1 rounded-md hover:bg-green-50 transition-colors z-20 relative"
+                title={hasListeningProgress(course) ? "Resume listening" : "Listen to course"}
+             >
+                <Headphones className="w-4 h-4" />
+             </button>
+             <details className="relative z-20" onClick={(e) => e.stopPropagation()}>
+                <summary
+                   className="list-none cursor-pointer text-gray-400 hover:text-green-600 p-1 rounded-md hover:bg-green-50 transition-colors"
+                   title="Export or share"
+                >
+                   <Share className="w-4 h-4" />
+                </summary>
+                <div className="absolute right-0 bottom-full mb-2 w-56 bg-white border border-gray-200 rounded-xl shadow-lg py-1 text-sm">
+                   <button
+                      onClick={(e) => { closeMenu(e); downloadCourseBundle(course, false); }}
+                      className="w-full text-left px-4 py-2 hover:bg-gray-50"
+                   >
+                      Export course
+                   </button>
+                   <button
+                      onClick={(e) => { closeMenu(e); downloadCourseBundle(course, true); }}
+                      className="w-full text-left px-4 py-2 hover:bg-gray-50"
+                   >
+                      Export with my progress
+                   </button>
+                   {canShareCourses() && (
+                      <button
+                         onClick={(e) => { closeMenu(e); onShare(); }}
+                         className="w-full text-left px-4 py-2 hover:bg-gray-50"
+                      >
+                         Create share link
+                      </button>
+                   )}
+                </div>
+             </details>
+             <ChevronRight className="w-4 h-4 text-gray-300 group-hover:text-green-600" />
+          </div>
+       </div>
+    </div>
+  );
+};
+
+export default CourseCard;
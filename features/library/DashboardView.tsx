@@ -0,0 +1,271 @@
+import React, { useRef, useState } from 'react';
+import { Flashcard, LessonPath, SavedCourse, SavedSubject } from '../../types';
+import { buildReviewQueue } from '../../services/flashcards';
+import { COURSE_BUNDLE_EXTENSION } from '../../services/sharing';
+import { useAppState, selectDueCards, selectUpNextCourses } from '../../store';
+import { BookOpen, Brain, Layers, LayoutGrid, LogOut, Plus, Upload, User as UserIcon } from '../../components/Icons';
+import FlashcardReview from '../../components/FlashcardReview';
+import LearnerProfileForm from '../../components/LearnerProfileForm';
+import NextPathSuggestions from '../../components/NextPathSuggestions';
+import SharedCoursePreview from '../../components/SharedCoursePreview';
+import { Auth, GuestUpgradePanel } from '../auth';
+import CourseCard from './CourseCard';
+import { Library } from './useLibrary';
+
+interface DashboardViewProps {
+  auth: Auth;
+  library: Library;
+  suggestingFor: string | null;
+  onStartNewCourse: () => void;
+  onOpenSubject: (subject: SavedSubject) => void;
+  onOpenCourse: (course: SavedCourse) => void;
+  onSelectPath: (path: LessonPath, from: SavedCourse) => void;
+  onSuggestFollowUp: (course: SavedCourse) => void;
+  onListen: (course: SavedCourse) => void;
+}
+
+const DashboardView: React.FC<DashboardViewProps> = ({
+  auth, library, suggestingFor, onStartNewCourse, onOpenSubject, onOpenCourse, onSelectPath, onSuggestFollowUp, onListen
+}) => {
+  const state = useAppState();
+  const { user, sharedCourse, shareLink } = state;
+  // Cards in the running review session, snapshotted when it starts
+  const [reviewSession, setReviewSession] = useState<Flashcard[] | null>(null);
+  const [isEditingProfile, setIsEditingProfile] = useState(false);
+  const [isAddingShared, setIsAddingShared] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  if (!user) return null;
+  const dueCards = selectDueCards(state);
+  const upNextCourses = selectUpNextCourses(state);
+
+  const handleAddSharedCourse = async () => {
+    setIsAddingShared(true);
+    try {
+      await library.addSharedCourse();
+    } finally {
+      setIsAddingShared(false);
+    }
+  };
+
+  return (
+     <div className="h-screen flex flex-col bg-surface overflow-hidden">
+        <header className="bg-white border-b border-gray-200 px-6 py-4 shadow-sm z-10">
+           <div className="max-w-7xl mx-auto w-full flex items-center justify-between">
+              <div className="flex items-center">
+                 <BookOpen className="w-6 h-6 text-green-600 mr-2" />
+                 <span className="font-bold text-lg tracking-tight">CogniPath</span>
+              </div>
+              <div className="flex items-center space-x-4">
+                 <div className="flex items-center space-x-2">
+                    {user.photoURL ? (
+                       <img src={user.photoURL} alt="User" className="w-8 h-8 rounded-full border border-gray-200" />
+                    ) : (
+                       <div className="w-8 h-8 rounded-full bg-gray-100 flex items-center justify-center text-gray-500">
+                         <UserIcon className="w-4 h-4" />
+                       </div>
+                    )}
+                    <span className="text-sm font-medium text-gray-700 hidden sm:block">
+                       {user.name}
+                    </span>
+                 </div>
+                 <button onClick={() => setIsEditingProfile(prev => !prev)} className="text-sm text-gray-500 hover:text-green-600 transition-colors">
+                    {user.profile ? 'Edit Profile' : 'Set Up Profile'}
+                 </button>
+                 <button onClick={auth.signOut} className="text-gray-400 hover:text-red-500 transition-colors p-2" title="Logout">
+                    <LogOut className="w-4 h-4" />
+                 </button>
+              </div>
+           </div>
+        </header>
+
+        <main className="flex-1 overflow-y-auto p-6 lg:p-10 custom-scrollbar bg-gray-50">
+           <div className="max-w-7xl mx-auto">
+              <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-8 gap-4">
+                 <div>
+                    <h1 className="text-3xl font-bold text-gray-900">Your Learning Library</h1>
+                    <p className="text-gray-500 mt-1">Pick up where you left off or start a new path.</p>
+                 </div>
+                 <div className="flex items-center gap-3">
+                    <button
+                       onClick={() => importInputRef.current?.click()}
+                       className="bg-white border border-gray-200 text-gray-700 px-4 py-3 rounded-lg hover:border-green-400 hover:text-green-600 transition-colors flex items-center"
+                    >
+                       <Upload className="w-4 h-4 mr-2" /> Import Course
+                    </button>
+                    <input
+                       ref={importInputRef}
+                       type="file"
+                       accept={`${COURSE_BUNDLE_EXTENSION},.json,application/json`}
+                       className="hidden"
+                       onChange={(e) => {
+                          const file = e.target.files?.[0];
+                          e.target.value = '';
+                          if (file) library.importCourse(file);
+                       }}
+                    />
+                    <button
+                       onClick={onStartNewCourse}
+                       className="bg-black text-white px-6 py-3 rounded-lg hover:bg-gray-800 transition-colors flex items-center shadow-lg shadow-black/10"
+                    >
+                       <Plus className="w-4 h-4 mr-2" /> Start New Journey
+                    </button>
+                 </div>
+              </div>
+
+              {user.isGuest && <GuestUpgradePanel auth={auth} />}
+
+              {/* Course opened from a share link */}
+              {sharedCourse && (
+                 <div className="max-w-2xl mx-auto mb-10">
+                    <SharedCoursePreview
+                       shared={sharedCourse}
+                       isAdding={isAddingShared}
+                       onAdd={handleAddSharedCourse}
+                       onDismiss={library.dismissSharedCourse}
+                    />
+                 </div>
+              )}
+
+              {shareLink && (
+                 <div className="bg-green-50 border border-green-200 rounded-xl p-4 mb-8 flex flex-col sm:flex-row sm:items-center gap-3 animate-fade-in">
+                    <div className="flex-1 min-w-0">
+                       <p className="text-sm font-semibold text-green-800">
+                          Share link for {state.library.find(c => c.id === shareLink.courseId)?.path.title || 'your course'}
+                       </p>
+                       <p className="text-xs text-green-700">Anyone with the link can add a copy of the course to their library. Your progress isn't shared.</p>
+                    </div>
+                    <input
+                       readOnly
+                       value={shareLink.url}
+                       onFocus={(e) => e.target.select()}
+                       className="sm:w-80 text-xs bg-white border border-green-200 rounded-md px-3 py-2 text-gray-700"
+                    />
+                    <button onClick={library.dismissShareLink} className="text-xs font-bold uppercase tracking-wide text-green-700 hover:text-green-900">
+                       Dismiss
+                    </button>
+                 </div>
+              )}
+
+              {isEditingProfile && (
+                 <div className="max-w-2xl mx-auto mb-10">
+                    <LearnerProfileForm
+                       profile={user.profile}
+                       onSave={(profile) => {
+                          library.updateProfile(profile);
+                          setIsEditingProfile(false);
+                       }}
+                       onCancel={() => setIsEditingProfile(false)}
+                    />
+                 </div>
+              )}
+
+              {/* Flashcard Review */}
+              {reviewSession ? (
+                 <div className="max-w-2xl mx-auto mb-10">
+                    <FlashcardReview
+                       cards={reviewSession}
+                       courseTitles={Object.fromEntries(state.library.map(c => [c.id, c.path.title]))}
+                       onGrade={library.gradeCard}
+                       onClose={() => setReviewSession(null)}
+                    />
+                 </div>
+              ) : dueCards.length > 0 && (
+                 <div className="mb-8 bg-white rounded-xl border border-gray-200 shadow-sm p-5 flex flex-col md:flex-row md:items-center justify-between gap-4">
+                    <div className="flex items-start">
+                       <div className="w-10 h-10 bg-green-50 text-green-600 rounded-lg flex items-center justify-center mr-4 shrink-0">
+                          <Brain className="w-5 h-5" />
+                       </div>
+                       <div>
+                          <h2 className="font-bold text-gray-900">Review due</h2>
+                          <p className="text-sm text-gray-500">
+                             {dueCards.length} flashcard{dueCards.length === 1 ? '' : 's'} across {new Set(dueCards.map(c => c.courseId)).size} course{new Set(dueCards.map(c => c.courseId)).size === 1 ? '' : 's'}
+                          </p>
+                          <div className="flex flex-wrap gap-2 mt-2">
+                             {state.library.filter(c => dueCards.some(d => d.courseId === c.id)).map(c => (
+                                <span key={c.id} className="text-xs bg-gray-100 text-gray-600 px-2 py-0.5 rounded">
+                                   {c.path.title}: {dueCards.filter(d => d.courseId === c.id).length}
+                                </span>
+                             ))}
+                          </div>
+                       </div>
+                    </div>
+                    <button
+                       onClick={() => setReviewSession(buildReviewQueue(state.library, state.cardReviews))}
+                       className="bg-green-600 text-white px-5 py-2.5 rounded-lg hover:bg-green-700 transition-colors text-sm font-semibold shrink-0"
+                    >
+                       Start Review
+                    </button>
+                 </div>
+              )}
+
+              {/* Subjects */}
+              {state.subjects.length > 0 && (
+                 <div className="mb-8">
+                    <h2 className="font-bold text-gray-900 mb-3">Your subjects</h2>
+                    <div className="flex flex-wrap gap-3">
+                       {state.subjects.map(subject => (
+                          <button
+                             key={subject.id}
+                             onClick={() => onOpenSubject(subject)}
+                             className="bg-white border border-gray-200 rounded-lg px-4 py-2 text-sm hover:border-green-400 hover:text-green-600 transition-colors flex items-center"
+                          >
+                             <Layers className="w-4 h-4 mr-2 text-green-600" />
+                             <span className="font-medium">{subject.name}</span>
+                             <span className="ml-2 text-xs text-gray-400">{subject.pillars.length} pillars</span>
+                          </button>
+                       ))}
+                    </div>
+                 </div>
+              )}
+
+              {/* Up Next */}
+              {upNextCourses.length > 0 && (
+                 <div className="mb-8">
+                    <h2 className="font-bold text-gray-900 mb-3">Up next</h2>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                       {upNextCourses.map(course => (
+                          <div key={course.id}>
+                             <p className="text-xs text-gray-500 uppercase tracking-wide mb-2">After {course.path.title}</p>
+                             <NextPathSuggestions
+                                course={course}
+                                library={state.library}
+                                limit={1}
+                                isSuggesting={suggestingFor === course.id}
+                                onSelect={(path) => onSelectPath(path, course)}
+                                onSuggestFollowUp={() => onSuggestFollowUp(course)}
+                             />
+                          </div>
+                       ))}
+                    </div>
+                 </div>
+              )}
+
+              {state.library.length === 0 ? (
+                 <div className="text-center py-20 bg-white rounded-2xl border border-dashed border-gray-300">
+                    <LayoutGrid className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+                    <h3 className="text-lg font-medium text-gray-900">No courses yet</h3>
+                    <p className="text-gray-500 mb-6">Start your first learning journey to see it here.</p>
+                    <button onClick={onStartNewCourse} className="text-green-600 hover:underline">Browse Subjects</button>
+                 </div>
+              ) : (
+                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                    {state.library.map(course => (
+                       <CourseCard
+                          key={course.id}
+                          course={course}
+                          onOpen={() => onOpenCourse(course)}
+                          onDelete={() => library.deleteCourse(course.id)}
+                          onListen={() => onListen(course)}
+                          onShare={() => library.shareCourse(course)}
+                       />
+                    ))}
+                 </div>
+              )}
+           </div>
+        </main>
+     </div>
+  );
+};
+
+export default DashboardView;
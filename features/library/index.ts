@@ -0,0 +1,3 @@
+export * from './useLibrary';
+export * from './useLibrarySync';
+export { default as DashboardView } from './DashboardView';
@@ -0,0 +1,145 @@
+import { useEffect } from 'react';
+import { Flashcard, LearnerProfile, ReviewGrade, SavedCourse } from '../../types';
+import { toUserMessage } from '../../services/llm';
+import { scheduleReview } from '../../services/flashcards';
+import { saveReview, deleteCourseReviews } from '../../services/reviewStore';
+import { saveProfile } from '../../services/learnerProfile';
+import { deleteAllThreads } from '../../services/chatHistoryStore';
+import { getCourseRepository } from '../../services/courses';
+import { deleteCourseAssets } from '../../services/assets';
+import { CourseExportFormat, exportCourse } from '../../services/courseExport';
+import {
+  createCourseBundle, courseFromBundle, readCourseBundleFile, publishSharedCourse, loadSharedCourse, shareLinkFor,
+  readShareIdFromUrl, clearShareIdFromUrl
+} from '../../services/sharing';
+import { useAppState, useAppStore } from '../../store';
+
+// The course library: removing, importing, exporting and sharing courses, and the
+// learner's own records kept alongside it (profile, flashcard reviews).
+export const useLibrary = () => {
+  const state = useAppState();
+  const { getState, dispatch } = useAppStore();
+
+  const showError = (err: unknown) => dispatch({ type: 'error/shown', error: toUserMessage(err) });
+
+  // Open the course from a share link once someone is signed in to add it
+  useEffect(() => {
+    if (!state.user) return;
+    const shareId = readShareIdFromUrl();
+    if (!shareId) return;
+    loadSharedCourse(shareId).then(shared => {
+      if (shared) {
+        dispatch({ type: 'sharing/courseOpened', shared });
+      } else {
+        clearShareIdFromUrl();
+        dispatch({ type: 'error/shown', error: "This share link no longer exists." });
+      }
+    }).catch(err => {
+      console.error("Failed to open shared course", err);
+      clearShareIdFromUrl();
+      showError(err);
+    });
+  }, [state.user?.id]);
+
+  const deleteCourse = async (courseId: string) => {
+    // Optimistic Update
+    dispatch({ type: 'library/courseRemoved', courseId });
+
+    const { user } = getState();
+    if (user) {
+      try {
+        await getCourseRepository().remove(user.id, courseId);
+      } catch (err) {
+        console.error("Failed to delete course", err);
+      }
+      await deleteAllThreads(user.id, courseId);
+      await deleteCourseReviews(user.id, courseId);
+      await deleteCourseAssets(user.id, courseId);
+    }
+  };
+
+  // Imported and shared courses start as new, independent library entries
+  const addCourseToLibrary = async (course: SavedCourse) => {
+    const { user } = getState();
+    if (!user) return;
+    await getCourseRepository().save(user.id, course);
+    dispatch({ type: 'library/courseAdded', course });
+  };
+
+  const importCourse = async (file: File) => {
+    try {
+      const bundle = await readCourseBundleFile(file);
+      await addCourseToLibrary(courseFromBundle(bundle));
+    } catch (err) {
+      console.error("Course import failed", err);
+      showError(err);
+    }
+  };
+
+  const exportCourseAs = async (course: SavedCourse, format: CourseExportFormat) => {
+    try {
+      await exportCourse(course, format);
+    } catch (err) {
+      console.error("Course export failed", err);
+      showError(err);
+    }
+  };
+
+  const addSharedCourse = async () => {
+    const { sharedCourse } = getState();
+    if (!sharedCourse) return;
+    try {
+      await addCourseToLibrary(courseFromBundle(sharedCourse.bundle));
+      dispatch({ type: 'sharing/courseClosed' });
+      clearShareIdFromUrl();
+    } catch (err) {
+      console.error("Failed to add shared course", err);
+      showError(err);
+    }
+  };
+
+  const dismissSharedCourse = () => {
+    dispatch({ type: 'sharing/courseClosed' });
+    clearShareIdFromUrl();
+  };
+
+  // Shares publish the content only; progress stays private
+  const shareCourse = async (course: SavedCourse) => {
+    const { user } = getState();
+    if (!user) return;
+    try {
+      const shareId = await publishSharedCourse(user.id, user.name, createCourseBundle(course, false));
+      const url = shareLinkFor(shareId);
+      dispatch({ type: 'sharing/linkCreated', courseId: course.id, url });
+      await navigator.clipboard?.writeText(url).catch(() => {});
+    } catch (err) {
+      console.error("Failed to share course", err);
+      showError(err);
+    }
+  };
+
+  const dismissShareLink = () => dispatch({ type: 'sharing/linkDismissed' });
+
+  const updateProfile = (profile: LearnerProfile) => {
+    const { user } = getState();
+    if (!user) return;
+    dispatch({ type: 'profile/updated', userId: user.id, profile });
+    saveProfile(user.id, profile);
+  };
+
+  const gradeCard = (card: Flashcard, grade: ReviewGrade) => {
+    const { user, cardReviews } = getState();
+    const review = scheduleReview(card, cardReviews[card.id], grade);
+    dispatch({ type: 'reviews/cardScheduled', review });
+    if (user) {
+      saveReview(user.id, review);
+    }
+  };
+
+  return {
+    deleteCourse, importCourse, exportCourse: exportCourseAs, addSharedCourse, dismissSharedCourse, shareCourse, dismissShareLink,
+    updateProfile, gradeCard
+  };
+};
+
+export type Library = ReturnType<typeof useLibrary>;
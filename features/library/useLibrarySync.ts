@@ -0,0 +1,139 @@
+import { useEffect, useState } from 'react';
+import { SavedCourse } from '../../types';
+import { setLearnerProfile } from '../../services/geminiService';
+import { loadReviews } from '../../services/reviewStore';
+import { loadProfile } from '../../services/learnerProfile';
+import { loadSubjects } from '../../services/subjectStore';
+import { getCourseRepository, isSyncingRepository, stampProgressChanges, SyncStatus } from '../../services/courses';
+import { extractInlineAssets, uploadPendingAssets } from '../../services/assets';
+import { salvageCourses, COURSE_SCHEMA_VERSION } from '../../services/persistence';
+import { useAppState, useAppStore } from '../../store';
+
+// Loads the signed-in learner's data and keeps the open course saved as it changes.
+// Returns the course outbox status, so the UI can show whether changes have reached the server.
+export const useLibrarySync = (): SyncStatus | null => {
+  const state = useAppState();
+  const { getState, dispatch } = useAppStore();
+  const [syncStatus, setSyncStatus] = useState<SyncStatus | null>(null);
+  const userId = state.user?.id;
+
+  // Load the course library whenever a user signs in
+  useEffect(() => {
+    if (!userId) return;
+    const repository = getCourseRepository();
+    const sessionLibrary = getState().library;
+    dispatch({ type: 'library/loadStarted' });
+
+    repository.list(userId).then(async stored => {
+      // Courses saved by earlier releases are upgraded and written back in the current shape
+      const { courses } = salvageCourses(stored);
+      const upgraded = courses.filter(course => !stored.some(s => s.id === course.id && s.schemaVersion === COURSE_SCHEMA_VERSION));
+
+      // Before local repositories existed, demo mode kept courses only in the saved
+      // session; copy those across instead of dropping them.
+      const sessionOnly = repository.name === 'firestore'
+        ? []
+        : sessionLibrary.filter(c => !courses.some(saved => saved.id === c.id));
+
+      // Older courses carry their audio inline; move it to the asset store
+      const library = await Promise.all([...courses, ...sessionOnly].map(async course => {
+        const extracted = await extractInlineAssets(userId, course).catch(err => {
+          console.error("Failed to move course audio to the asset store", err);
+          return null;
+        });
+        if (extracted || sessionOnly.includes(course) || upgraded.includes(course)) {
+          repository.save(userId, extracted || course).catch(err => console.error("Failed to save course", err));
+        }
+        return extracted || course;
+      }));
+
+      // Sort by last accessed
+      library.sort((a, b) => b.lastAccessed - a.lastAccessed);
+      dispatch({ type: 'library/loaded', userId, library });
+    }).catch(error => console.error("Error fetching courses:", error))
+      .finally(() => dispatch({ type: 'library/loadFinished' }));
+  }, [userId]);
+
+  // Retry asset uploads that failed while offline
+  useEffect(() => {
+    if (!userId) return;
+    const retry = () => { uploadPendingAssets(userId).catch(err => console.error("Asset upload retry failed", err)); };
+    retry();
+    window.addEventListener('online', retry);
+    return () => window.removeEventListener('online', retry);
+  }, [userId]);
+
+  // Load flashcard review state whenever a user signs in
+  useEffect(() => {
+    if (!userId) return;
+    loadReviews(userId).then(cardReviews => dispatch({ type: 'reviews/loaded', userId, cardReviews }));
+  }, [userId]);
+
+  // Load saved subject maps whenever a user signs in
+  useEffect(() => {
+    if (!userId) return;
+    dispatch({ type: 'subjects/loadStarted' });
+    loadSubjects(userId)
+      .then(subjects => dispatch({ type: 'subjects/loaded', userId, subjects }))
+      .finally(() => dispatch({ type: 'subjects/loadFinished' }));
+  }, [userId]);
+
+  // Load the learner profile whenever a user signs in
+  useEffect(() => {
+    if (!userId) return;
+    loadProfile(userId).then(profile => {
+      if (profile) dispatch({ type: 'profile/updated', userId, profile });
+    });
+  }, [userId]);
+
+  // Every generation prompt is personalized with the current profile
+  useEffect(() => {
+    setLearnerProfile(state.user?.profile || null);
+  }, [state.user?.profile]);
+
+  // Sync Active Course Progress to Library State & Firestore
+  useEffect(() => {
+    const activeCourse = state.library.find(c => c.id === state.activeCourseId);
+    if (!activeCourse) return;
+
+    // Stamp the lessons whose completion or feedback changed, so the change survives syncing
+    const progressChangedAt = stampProgressChanges(activeCourse, state);
+    const hasProgressChanges = Object.keys(progressChangedAt).some(key => progressChangedAt[key] !== activeCourse.progressChangedAt?.[key]);
+
+    // Check if there are actual changes to persist to avoid unnecessary writes
+    const hasChanges =
+       hasProgressChanges ||
+       activeCourse.quizScores !== state.quizScores ||
+       !!activeCourse.requireMastery !== state.requireMastery ||
+       (state.curriculum && state.curriculum !== activeCourse.curriculum);
+    if (!hasChanges) return;
+
+    const updatedCourse: SavedCourse = {
+       ...activeCourse,
+       completedSubLessons: state.completedSubLessons,
+       subLessonFeedback: state.subLessonFeedback,
+       progressChangedAt,
+       quizScores: state.quizScores,
+       requireMastery: state.requireMastery,
+       curriculum: state.curriculum || activeCourse.curriculum,
+       lastAccessed: Date.now()
+    };
+    dispatch({ type: 'library/courseSynced', course: updatedCourse });
+
+    // Sync to the course repository
+    if (state.user) {
+      getCourseRepository().update(state.user.id, activeCourse.id, updatedCourse)
+        .catch(err => console.error("Course sync error:", err));
+    }
+  }, [state.completedSubLessons, state.subLessonFeedback, state.quizScores, state.requireMastery, state.curriculum]);
+
+  // Follow the course outbox
+  useEffect(() => {
+    const repository = getCourseRepository();
+    if (!isSyncingRepository(repository)) return;
+    setSyncStatus(repository.getSyncStatus());
+    return repository.subscribe(setSyncStatus);
+  }, []);
+
+  return syncStatus;
+};
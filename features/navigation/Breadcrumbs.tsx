@@ -0,0 +1,58 @@
+import React from 'react';
+import { AppStep } from '../../types';
+import { subjectIdFor } from '../../services/subjectStore';
+import { useAppState, selectCurrentSubject } from '../../store';
+import { ChevronRight } from '../../components/Icons';
+import { Navigation } from './useNavigation';
+
+interface BreadcrumbsProps {
+  navigation: Navigation;
+}
+
+const Breadcrumbs: React.FC<BreadcrumbsProps> = ({ navigation: { goBack, routeLink } }) => {
+  const state = useAppState();
+  const currentSubject = selectCurrentSubject(state);
+
+  return (
+    <div className="flex items-center space-x-2 text-sm text-gray-500 mb-4 overflow-x-auto whitespace-nowrap pb-2">
+      {state.step !== AppStep.INPUT && state.step !== AppStep.DASHBOARD && (
+        <button onClick={goBack} className="hover:text-green-600 transition-colors">Back</button>
+      )}
+      {state.step !== AppStep.DASHBOARD && state.step !== AppStep.AUTH && (
+          <>
+             <ChevronRight className="w-4 h-4" />
+             <a {...routeLink({ name: 'dashboard' })} className="hover:text-green-600 transition-colors">Dashboard</a>
+          </>
+      )}
+      {state.subject && (
+        <>
+          <ChevronRight className="w-4 h-4" />
+          {currentSubject && state.step !== AppStep.SUBJECT ? (
+            <a {...routeLink({ name: 'subject', subjectId: currentSubject.id })} className="hover:text-green-600 transition-colors">{state.subject}</a>
+          ) : (
+            <span className={state.step === AppStep.PILLARS || state.step === AppStep.SUBJECT ? "font-semibold text-black" : ""}>{state.subject}</span>
+          )}
+        </>
+      )}
+      {state.selectedPillar && (
+        <>
+          <ChevronRight className="w-4 h-4" />
+          <a
+            {...routeLink({ name: 'pillars', subjectId: subjectIdFor(state.subject) })}
+            className={state.step === AppStep.PATHS || state.step === AppStep.PLACEMENT ? "font-semibold text-black" : "hover:text-green-600 transition-colors"}
+          >
+            {state.selectedPillar.title}
+          </a>
+        </>
+      )}
+      {state.selectedPath && (
+        <>
+          <ChevronRight className="w-4 h-4" />
+          <span className="font-semibold text-black truncate max-w-[150px]">{state.selectedPath.title}</span>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default Breadcrumbs;
@@ -0,0 +1,2 @@
+export * from './useNavigation';
+export { default as Breadcrumbs } from './Breadcrumbs';
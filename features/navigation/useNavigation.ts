@@ -0,0 +1,170 @@
+import React, { useEffect, useRef } from 'react';
+import { AppStep, SavedCourse, SavedSubject } from '../../types';
+import { subjectIdFor } from '../../services/subjectStore';
+import {
+  Route, parseRoute, pathForRoute, routeForState, parentRoute, currentPath, pushPath, replacePath, canGoBackInApp
+} from '../../services/router';
+import { useAppState, useAppStore } from '../../store';
+
+interface NavigationOptions {
+  openCourse: (course: SavedCourse) => void;
+  openSubject: (subject: SavedSubject) => void;
+  startNewCourse: () => void;
+  leaveGeneration: (route: Route) => void;
+  stopTutorResponse: () => void;
+}
+
+// Keeps the URL on the screen being shown, and shows the screen for a URL that's
+// opened directly or reached with back/forward.
+export const useNavigation = ({ openCourse, openSubject, startNewCourse, leaveGeneration, stopTutorResponse }: NavigationOptions) => {
+  const state = useAppState();
+  const { getState, dispatch } = useAppStore();
+
+  // A route opened from the address bar, waiting for sign-in and the library before it can be shown
+  const pendingRoute = useRef<Route | null>(typeof window === 'undefined' ? null : parseRoute(currentPath()));
+  // Set when a route couldn't be shown as asked, so the URL is corrected without adding a history entry
+  const replaceNextPath = useRef(false);
+
+  // Shows the screen for a route, clearing what earlier screens left behind
+  const applyRoute = (route: Route) => {
+    const state = getState();
+    if (!state.user) {
+      pendingRoute.current = route;
+      return;
+    }
+    leaveGeneration(route);
+    if (route.name !== 'course' || route.courseId !== state.activeCourseId) stopTutorResponse();
+
+    // Falls back to another screen, correcting the URL in place
+    const redirect = (fallback: Route) => {
+      replaceNextPath.current = true;
+      applyRoute(fallback);
+    };
+    const saved = 'subjectId' in route ? state.subjects.find(s => s.id === route.subjectId) : undefined;
+    const isOpenSubject = 'subjectId' in route && subjectIdFor(state.subject) === route.subjectId;
+    const openPillars = isOpenSubject && state.pillars.length > 0 ? state.pillars : saved?.pillars;
+
+    switch (route.name) {
+      case 'dashboard':
+        dispatch({ type: 'navigation/dashboardShown' });
+        return;
+      case 'newSubject':
+        startNewCourse();
+        return;
+      case 'subject':
+        if (saved) openSubject(saved);
+        else redirect({ name: 'dashboard' });
+        return;
+      case 'pillars':
+        if (!openPillars) return redirect({ name: 'subject', subjectId: route.subjectId });
+        dispatch({ type: 'navigation/pillarsShown', subject: saved?.name ?? state.subject, pillars: openPillars });
+        return;
+      case 'paths': {
+        const pillar = openPillars?.find(p => p.id === route.pillarId);
+        const isOpenPillar = isOpenSubject && state.selectedPillar?.id === route.pillarId;
+        const paths = isOpenPillar && state.paths.length > 0 ? state.paths : saved?.pathsByPillar[route.pillarId];
+        if (!openPillars || !pillar || !paths?.length) return redirect({ name: 'pillars', subjectId: route.subjectId });
+        dispatch({
+          type: 'navigation/pathsShown',
+          subject: saved?.name ?? state.subject,
+          pillars: openPillars,
+          pillar,
+          paths,
+          placement: isOpenPillar ? state.placement : null
+        });
+        return;
+      }
+      case 'placement':
+        // The quiz only exists for the pillar being explored; otherwise show its paths
+        if (!isOpenSubject || state.selectedPillar?.id !== route.pillarId || state.placementQuiz.length === 0) {
+          return redirect({ name: 'paths', subjectId: route.subjectId, pillarId: route.pillarId });
+        }
+        dispatch({ type: 'navigation/placementShown' });
+        return;
+      case 'course': {
+        const course = state.library.find(c => c.id === route.courseId);
+        if (!course) {
+          dispatch({ type: 'error/shown', error: "That course isn't in your library." });
+          return redirect({ name: 'dashboard' });
+        }
+        if (state.step !== AppStep.CURRICULUM || state.activeCourseId !== course.id) openCourse(course);
+        const { lessonIndex } = route;
+        dispatch({
+          type: 'course/lessonFocused',
+          lessonIndex: lessonIndex !== null && lessonIndex < course.curriculum.subLessons.length ? lessonIndex : null
+        });
+        return;
+      }
+    }
+  };
+
+  const navigate = (route: Route, options: { replace?: boolean } = {}) => {
+    const path = pathForRoute(route);
+    if (options.replace) replacePath(path);
+    else if (path !== currentPath()) pushPath(path);
+    applyRoute(route);
+  };
+
+  // Link to a route that navigates in place instead of reloading the page
+  const routeLink = (route: Route) => ({
+    href: pathForRoute(route),
+    onClick: (e: React.MouseEvent) => {
+      if (e.metaKey || e.ctrlKey || e.shiftKey || e.button !== 0) return;
+      e.preventDefault();
+      navigate(route);
+    }
+  });
+
+  // Back through the browser history, or up a level when the app was opened on this page
+  const goBack = () => {
+    if (canGoBackInApp()) {
+      window.history.back();
+      return;
+    }
+    const state = getState();
+    const route = routeForState(state, state.focusedLesson);
+    navigate(route ? parentRoute(route) : { name: 'dashboard' }, { replace: true });
+  };
+
+  // The popstate listener is registered once; this keeps it calling the current applyRoute
+  const applyRouteRef = useRef(applyRoute);
+  applyRouteRef.current = applyRoute;
+
+  useEffect(() => {
+    const handlePopState = () => applyRouteRef.current(parseRoute(currentPath()) || { name: 'dashboard' });
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  // Open a deep link once the learner is signed in and their courses and subjects are loaded
+  useEffect(() => {
+    const route = pendingRoute.current;
+    if (!route || !state.user || !state.isLibraryLoaded || !state.areSubjectsLoaded) return;
+    pendingRoute.current = null;
+    replaceNextPath.current = true;
+    applyRoute(route);
+  }, [state.user?.id, state.isLibraryLoaded, state.areSubjectsLoaded]);
+
+  // Keep the URL on the screen being shown
+  useEffect(() => {
+    if (pendingRoute.current) return;
+    const route = routeForState(state, state.focusedLesson);
+    if (!route) return;
+    const path = pathForRoute(route);
+    const replace = replaceNextPath.current || currentPath() === '/';
+    replaceNextPath.current = false;
+    if (path === currentPath()) return;
+    if (replace) replacePath(path);
+    else pushPath(path);
+  }, [state.step, state.activeCourseId, state.subject, state.selectedPillar?.id, state.user?.id, state.focusedLesson]);
+
+  // Bring the linked lesson into view
+  useEffect(() => {
+    if (state.focusedLesson === null || state.step !== AppStep.CURRICULUM) return;
+    document.getElementById(`lesson-${state.focusedLesson}`)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  }, [state.focusedLesson, state.step, state.activeCourseId]);
+
+  return { navigate, routeLink, goBack };
+};
+
+export type Navigation = ReturnType<typeof useNavigation>;
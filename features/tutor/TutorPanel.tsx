@@ -0,0 +1,188 @@
+import React, { useEffect, useRef, useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import { useAppState } from '../../store';
+import { MessageCircle, Plus, Trash, Send, Square } from '../../components/Icons';
+import { Tutor } from './useTutor';
+
+interface TutorPanelProps {
+  tutor: Tutor;
+}
+
+// "Ask The Tutor" column of the course view.
+const TutorPanel: React.FC<TutorPanelProps> = ({ tutor }) => {
+  const state = useAppState();
+  const [chatInput, setChatInput] = useState('');
+  const [threadTitleInput, setThreadTitleInput] = useState<string | null>(null);
+  const chatEndRef = useRef<HTMLDivElement>(null);
+
+  // Auto-scroll chat
+  useEffect(() => {
+    chatEndRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [state.chatHistory]);
+
+  // Switching threads closes the rename field
+  const withThreadChange = (change: () => void) => {
+    setThreadTitleInput(null);
+    change();
+  };
+
+  const handleSendMessage = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!chatInput.trim() || tutor.isResponding) return;
+    tutor.sendMessage(chatInput);
+    setChatInput('');
+  };
+
+  const handleRenameThread = (e: React.FormEvent) => {
+    e.preventDefault();
+    const title = threadTitleInput?.trim();
+    setThreadTitleInput(null);
+    if (title) tutor.renameThread(title);
+  };
+
+  return (
+    <div className="w-full lg:w-[400px] xl:w-[450px] bg-gray-50 flex flex-col border-l border-gray-200 shadow-xl z-30">
+      <div className="p-4 bg-white border-b border-gray-200 flex items-center justify-between">
+        <div className="flex items-center">
+           <div className="w-8 h-8 rounded-full bg-green-100 text-green-600 flex items-center justify-center mr-3">
+              <MessageCircle className="w-4 h-4" />
+           </div>
+           <div>
+             <h3 className="font-bold text-gray-900 text-sm">Ask The Tutor</h3>
+             <p className="text-xs text-green-600 flex items-center"><span className="w-2 h-2 rounded-full bg-green-500 mr-1"></span> Online</p>
+           </div>
+        </div>
+        <button
+          onClick={() => withThreadChange(tutor.newThread)}
+          className="text-gray-400 hover:text-green-600 p-2 rounded-md hover:bg-green-50 transition-colors"
+          title="New thread"
+        >
+          <Plus className="w-4 h-4" />
+        </button>
+      </div>
+
+      {/* Thread Controls */}
+      {state.chatThreads.length > 0 && (
+        <div className="px-4 py-2 bg-white border-b border-gray-200 flex items-center gap-2 text-xs">
+          {threadTitleInput !== null ? (
+            <form onSubmit={handleRenameThread} className="flex-1 flex items-center gap-2">
+              <input
+                autoFocus
+                value={threadTitleInput}
+                onChange={(e) => setThreadTitleInput(e.target.value)}
+                onBlur={handleRenameThread}
+                className="flex-1 px-2 py-1 border border-gray-300 rounded-md focus:ring-2 focus:ring-green-500 outline-none"
+              />
+            </form>
+          ) : (
+            <select
+              value={state.activeThreadId || ''}
+              onChange={(e) => tutor.switchThread(e.target.value)}
+              className="flex-1 min-w-0 px-2 py-1 bg-gray-50 border border-gray-200 rounded-md outline-none focus:ring-2 focus:ring-green-500"
+            >
+              {state.chatThreads.map(thread => (
+                <option key={thread.id} value={thread.id}>{thread.title}</option>
+              ))}
+            </select>
+          )}
+          <button
+            onClick={() => setThreadTitleInput(state.chatThreads.find(t => t.id === state.activeThreadId)?.title || '')}
+            className="text-gray-500 hover:text-green-600 transition-colors"
+          >
+            Rename
+          </button>
+          <button onClick={() => withThreadChange(tutor.clearThread)} className="text-gray-500 hover:text-green-600 transition-colors">
+            Clear
+          </button>
+          {state.chatThreads.length > 1 && (
+            <button onClick={() => withThreadChange(tutor.removeThread)} className="text-gray-400 hover:text-red-500 transition-colors" title="Delete thread">
+              <Trash className="w-3.5 h-3.5" />
+            </button>
+          )}
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4 custom-scrollbar">
+        {state.chatHistory.map((msg) => (
+          <div key={msg.id} className={`flex group ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+            <div
+              className={`max-w-[85%] rounded-2xl p-4 text-sm leading-relaxed shadow-sm
+              ${msg.role === 'user'
+                ? 'bg-black text-white rounded-br-none'
+                : 'bg-white text-gray-800 border border-gray-200 rounded-bl-none'}`}
+            >
+               {msg.isThinking ? (
+                  <div className="flex space-x-1 h-5 items-center">
+                    <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0ms' }}></div>
+                    <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '150ms' }}></div>
+                    <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '300ms' }}></div>
+                  </div>
+               ) : (
+                  <ReactMarkdown
+                    components={{
+                      code({node, className, children, ...props}) {
+                        return <code className="bg-gray-100 text-black border border-gray-300 rounded px-1 py-0.5 text-xs font-mono" {...props}>{children}</code>
+                      }
+                    }}
+                  >
+                    {msg.text}
+                  </ReactMarkdown>
+               )}
+               {msg.isStreaming && (
+                  <span className="inline-block w-1.5 h-4 bg-gray-400 animate-pulse align-middle ml-0.5"></span>
+               )}
+               {msg.interrupted && (
+                  <p className="text-[10px] text-gray-400 italic mt-2">Response stopped</p>
+               )}
+               {!msg.isThinking && !msg.isStreaming && msg.role === 'model' && msg.id !== 'welcome' && (
+                  <button
+                    onClick={() => withThreadChange(() => tutor.branchFrom(msg.id))}
+                    className="text-[10px] text-gray-400 hover:text-green-600 mt-2 opacity-0 group-hover:opacity-100 transition-opacity"
+                  >
+                    Branch from here
+                  </button>
+               )}
+            </div>
+          </div>
+        ))}
+        <div ref={chatEndRef} />
+      </div>
+
+      <div className="p-4 bg-white border-t border-gray-200">
+         <form onSubmit={handleSendMessage} className="relative">
+           <input
+              type="text"
+              value={chatInput}
+              onChange={(e) => setChatInput(e.target.value)}
+              placeholder="Ask about any concept..."
+              className="w-full pl-4 pr-12 py-3 bg-gray-100 border-none rounded-xl text-sm focus:ring-2 focus:ring-green-500 outline-none"
+              disabled={state.isLoading}
+           />
+           {tutor.isResponding ? (
+             <button
+               type="button"
+               onClick={tutor.stopResponse}
+               className="absolute right-2 top-1/2 -translate-y-1/2 p-2 bg-white text-red-500 border border-gray-200 rounded-lg hover:bg-red-50 transition-colors"
+               title="Stop generating"
+             >
+               <Square className="w-4 h-4 fill-current" />
+             </button>
+           ) : (
+             <button
+               type="submit"
+               disabled={!chatInput.trim() || state.isLoading}
+               className="absolute right-2 top-1/2 -translate-y-1/2 p-2 bg-black text-white rounded-lg hover:bg-gray-800 disabled:opacity-50 disabled:hover:bg-black transition-colors"
+             >
+               <Send className="w-4 h-4" />
+             </button>
+           )}
+         </form>
+         <p className="text-[10px] text-gray-400 text-center mt-2">
+           AI can make mistakes. Verify important info.
+         </p>
+      </div>
+    </div>
+  );
+};
+
+export default TutorPanel;
@@ -0,0 +1,2 @@
+export * from './useTutor';
+export { default as TutorPanel } from './TutorPanel';
@@ -0,0 +1,184 @@
+import { useEffect, useRef } from 'react';
+import { AppStep, ChatMessage, ChatThread, SavedCourse } from '../../types';
+import { initializeChat, streamMessageToTutor } from '../../services/geminiService';
+import { toUserMessage, isCancellation } from '../../services/llm';
+import { loadThreads, saveThread, deleteThread, createThread, branchThread } from '../../services/chatHistoryStore';
+import { useAppState, useAppStore, selectIsTutorResponding } from '../../store';
+
+// The tutor chat beside a course, split into threads that are saved per course.
+export const useTutor = () => {
+  const state = useAppState();
+  const { getState, dispatch } = useAppStore();
+  const isResponding = selectIsTutorResponding(state);
+
+  // In-flight tutor reply, aborted by the Stop button
+  const chatAbortRef = useRef<AbortController | null>(null);
+
+  // Restore chat session on mount if we are in the curriculum view
+  useEffect(() => {
+    const { step, curriculum, selectedPillar, selectedPath, subject, chatHistory } = getState();
+    if (step === AppStep.CURRICULUM && curriculum && selectedPillar && selectedPath) {
+      initializeChat(subject, selectedPillar.title, selectedPath.title, curriculum, chatHistory);
+    }
+  }, []);
+
+  // Persist the active tutor thread once a reply has settled
+  useEffect(() => {
+    if (!state.user || !state.activeCourseId || !state.activeThreadId || isResponding) return;
+    const thread = state.chatThreads.find(t => t.id === state.activeThreadId);
+    if (!thread || thread.messages === state.chatHistory) return;
+
+    const updatedThread: ChatThread = { ...thread, messages: state.chatHistory, updatedAt: Date.now() };
+    dispatch({ type: 'tutor/threadSaved', thread: updatedThread });
+    saveThread(state.user.id, state.activeCourseId, updatedThread);
+  }, [state.chatHistory]);
+
+  // Points the provider's chat session at the given messages of the open course
+  const resetChat = (messages: ChatMessage[]) => {
+    const { curriculum, selectedPillar, selectedPath, subject } = getState();
+    if (curriculum && selectedPillar && selectedPath) {
+      initializeChat(subject, selectedPillar.title, selectedPath.title, curriculum, messages);
+    }
+  };
+
+  // Restores the most recent tutor thread of a course that was just opened, or starts one
+  const restoreThreads = async (course: SavedCourse) => {
+    const { user } = getState();
+    const threads = user ? await loadThreads(user.id, course.id) : [];
+    let thread = threads[0];
+    if (!thread) {
+      thread = createThread('Main', [{
+         id: 'welcome',
+         role: 'model',
+         text: `Welcome back to **${course.path.title}**! Ready to continue learning?`,
+         timestamp: Date.now()
+      }]);
+      threads.push(thread);
+      if (user) saveThread(user.id, course.id, thread);
+    }
+
+    // Re-init chat context
+    initializeChat(course.subject, course.pillar.title, course.path.title, course.curriculum, thread.messages);
+    dispatch({ type: 'tutor/threadsLoaded', courseId: course.id, threads, thread });
+  };
+
+  const sendMessage = async (text: string) => {
+    const userMsg: ChatMessage = {
+      id: Date.now().toString(),
+      role: 'user',
+      text,
+      timestamp: Date.now()
+    };
+    const replyId = (Date.now() + 1).toString();
+    const updateReply = (changes: Partial<ChatMessage>) => dispatch({ type: 'tutor/replyUpdated', replyId, changes });
+
+    dispatch({
+      type: 'tutor/messageSent',
+      message: userMsg,
+      reply: { id: replyId, role: 'model', text: '', timestamp: Date.now(), isThinking: true }
+    });
+
+    const controller = new AbortController();
+    chatAbortRef.current = controller;
+    let partial = '';
+
+    try {
+      const responseText = await streamMessageToTutor(userMsg.text, (text) => {
+        partial = text;
+        updateReply({ text, isThinking: false, isStreaming: true });
+      }, controller.signal);
+      updateReply({ text: responseText, isThinking: false, isStreaming: false });
+    } catch (err) {
+      if (partial) {
+        // Keep what the tutor managed to say
+        updateReply({ isThinking: false, isStreaming: false, interrupted: true });
+      } else {
+        // Nothing came back, so the question goes too rather than leaving it unanswered
+        dispatch({ type: 'tutor/exchangeDiscarded', messageId: userMsg.id, replyId });
+      }
+      if (!isCancellation(err)) {
+        dispatch({ type: 'error/shown', error: toUserMessage(err) });
+      }
+      // The session only records exchanges that finished, so rebuild it from what's on screen
+      resetChat(getState().chatHistory);
+    } finally {
+      if (chatAbortRef.current === controller) chatAbortRef.current = null;
+    }
+  };
+
+  const stopResponse = () => {
+    chatAbortRef.current?.abort();
+  };
+
+  // --- Threads ---
+
+  const activateThread = (thread: ChatThread, threads: ChatThread[]) => {
+    stopResponse();
+    resetChat(thread.messages);
+    dispatch({ type: 'tutor/threadActivated', thread, threads });
+  };
+
+  const greeting = (): ChatMessage => ({
+    id: 'welcome',
+    role: 'model',
+    text: `New thread for **${getState().selectedPath?.title}**. What would you like to explore?`,
+    timestamp: Date.now()
+  });
+
+  const newThread = () => {
+    const { user, activeCourseId, chatThreads } = getState();
+    if (!activeCourseId) return;
+    const thread = createThread(`Thread ${chatThreads.length + 1}`, [greeting()]);
+    if (user) saveThread(user.id, activeCourseId, thread);
+    activateThread(thread, [thread, ...chatThreads]);
+  };
+
+  const switchThread = (threadId: string) => {
+    const { chatThreads } = getState();
+    const thread = chatThreads.find(t => t.id === threadId);
+    if (thread) activateThread(thread, chatThreads);
+  };
+
+  const branchFrom = (messageId: string) => {
+    const { user, activeCourseId, activeThreadId, chatThreads, chatHistory } = getState();
+    const source = chatThreads.find(t => t.id === activeThreadId);
+    if (!source || !activeCourseId) return;
+    // Branch from what is on screen, which may be newer than the stored thread
+    const branch = branchThread({ ...source, messages: chatHistory }, messageId);
+    if (user) saveThread(user.id, activeCourseId, branch);
+    activateThread(branch, [branch, ...chatThreads]);
+  };
+
+  const clearThread = () => {
+    const { user, activeCourseId, activeThreadId, chatThreads } = getState();
+    const thread = chatThreads.find(t => t.id === activeThreadId);
+    if (!thread || !activeCourseId) return;
+    const cleared: ChatThread = { ...thread, messages: [greeting()], updatedAt: Date.now() };
+    if (user) saveThread(user.id, activeCourseId, cleared);
+    activateThread(cleared, chatThreads.map(t => t.id === cleared.id ? cleared : t));
+  };
+
+  const removeThread = () => {
+    const { user, activeCourseId, activeThreadId, chatThreads } = getState();
+    if (!activeThreadId || !activeCourseId || chatThreads.length < 2) return;
+    const remaining = chatThreads.filter(t => t.id !== activeThreadId);
+    if (user) deleteThread(user.id, activeCourseId, activeThreadId);
+    activateThread(remaining[0], remaining);
+  };
+
+  const renameThread = (title: string) => {
+    const { user, activeCourseId, activeThreadId, chatThreads } = getState();
+    const thread = chatThreads.find(t => t.id === activeThreadId);
+    if (!title || !thread || !activeCourseId) return;
+    const renamed: ChatThread = { ...thread, title, updatedAt: Date.now() };
+    if (user) saveThread(user.id, activeCourseId, renamed);
+    dispatch({ type: 'tutor/threadSaved', thread: renamed });
+  };
+
+  return {
+    isResponding, restoreThreads, sendMessage, stopResponse,
+    newThread, switchThread, branchFrom, clearThread, removeThread, renameThread
+  };
+};
+
+export type Tutor = ReturnType<typeof useTutor>;
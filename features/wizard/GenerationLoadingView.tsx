@@ -0,0 +1,38 @@
+import React from 'react';
+import { AppStep } from '../../types';
+import { useAppState } from '../../store';
+import Loading from '../../components/Loading';
+import { Breadcrumbs, Navigation } from '../navigation';
+import { GenerationWizard } from './useGenerationWizard';
+
+interface GenerationLoadingViewProps {
+  wizard: GenerationWizard;
+  navigation: Navigation;
+}
+
+// Shown while the step after the current one is being generated
+const GenerationLoadingView: React.FC<GenerationLoadingViewProps> = ({ wizard, navigation }) => {
+  const state = useAppState();
+  return (
+     <div className="h-screen bg-surface flex flex-col">
+        <header className="bg-white border-b border-gray-200 px-6 py-4">
+           <div className="max-w-7xl mx-auto w-full">
+             <Breadcrumbs navigation={navigation} />
+           </div>
+        </header>
+        <div className="flex-1 flex flex-col items-center justify-center">
+           <Loading message={
+             state.step === AppStep.PILLARS || state.step === AppStep.SUBJECT ? `Preparing a quick placement check for ${state.selectedPillar?.title}...`
+             : state.step === AppStep.PLACEMENT ? `Mapping routes for ${state.selectedPillar?.title}...`
+             : state.step === AppStep.PATHS ? `Building curriculum for ${state.selectedPath?.title}...`
+             : `Deconstructing ${state.subject}...`
+           } />
+           <button onClick={wizard.cancelGeneration} className="text-sm text-gray-500 hover:text-red-600 transition-colors">
+              Cancel
+           </button>
+        </div>
+     </div>
+  );
+};
+
+export default GenerationLoadingView;
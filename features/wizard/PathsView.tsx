@@ -0,0 +1,128 @@
+import React from 'react';
+import { PathFit } from '../../types';
+import { buildPathGraph } from '../../services/knowledgeGraph';
+import { useAppState, selectSubjectCourses } from '../../store';
+import { ArrowLeft, ChevronRight, Compass, Target } from '../../components/Icons';
+import PillarIcon from '../../components/PillarIcon';
+import KnowledgeMap from '../../components/KnowledgeMap';
+import { Breadcrumbs, Navigation } from '../navigation';
+import { GenerationWizard } from './useGenerationWizard';
+import ViewToggle from './ViewToggle';
+
+const PATH_FIT_BADGES: Record<PathFit, { label: string; className: string }> = {
+  recommended: { label: 'Recommended for you', className: 'bg-green-600 text-white' },
+  too_hard: { label: 'Stretch', className: 'bg-orange-100 text-orange-700' },
+  too_easy: { label: 'Review', className: 'bg-gray-100 text-gray-500' },
+};
+
+interface PathsViewProps {
+  wizard: GenerationWizard;
+  navigation: Navigation;
+}
+
+const PathsView: React.FC<PathsViewProps> = ({ wizard, navigation }) => {
+  const state = useAppState();
+  const { isMapView } = wizard;
+
+  return (
+    <div className="h-screen flex flex-col bg-surface overflow-hidden">
+      <header className="bg-white border-b border-gray-200 px-6 py-4 shadow-sm z-10">
+        <div className="max-w-7xl mx-auto w-full flex items-center justify-between">
+          <Breadcrumbs navigation={navigation} />
+          <button onClick={navigation.goBack} className="text-sm text-gray-500 hover:text-black flex items-center transition-colors">
+            <ArrowLeft className="w-4 h-4 mr-1" /> Back to Pillars
+          </button>
+        </div>
+        <div className="max-w-7xl mx-auto w-full mt-2">
+          <div className="flex items-center gap-3">
+             <div className="w-10 h-10 bg-green-50 text-green-600 rounded-lg flex items-center justify-center">
+                <PillarIcon icon={state.selectedPillar?.icon} />
+             </div>
+             <div className="flex-1">
+                <h2 className="text-2xl font-bold text-black">{state.selectedPillar?.title} Paths</h2>
+             </div>
+             <ViewToggle isMapView={isMapView} onChange={wizard.setIsMapView} />
+          </div>
+          <div className="flex items-center gap-4 mt-2">
+            <p className="text-gray-500">Choose a path to generate your curriculum.</p>
+            {!state.placement && state.selectedPillar && (
+              <button
+                onClick={() => state.selectedPillar && wizard.startPlacement(state.selectedPillar)}
+                className="text-sm text-green-600 font-semibold hover:underline"
+              >
+                Take the placement check and remap
+              </button>
+            )}
+          </div>
+          {state.placement && (
+            <div className="mt-3 inline-flex items-center gap-3 bg-green-50 border border-green-200 text-green-800 text-sm px-4 py-2 rounded-lg">
+              <Target className="w-4 h-4" />
+              <span>
+                Placement: <strong>{state.placement.level}</strong> ({state.placement.correct}/{state.placement.total} correct)
+                {state.placement.weakTopics.length > 0 && <> · Focus on {state.placement.weakTopics.join(', ')}</>}
+              </span>
+            </div>
+          )}
+        </div>
+      </header>
+
+      <main className="flex-1 overflow-y-auto p-6 custom-scrollbar">
+        {isMapView ? (
+          <div className="max-w-7xl mx-auto">
+            <KnowledgeMap
+              graph={buildPathGraph(state.paths, selectSubjectCourses(state).filter(c => c.pillar.title === state.selectedPillar?.title))}
+              onSelect={(id) => {
+                const path = state.paths.find(p => p.id === id);
+                if (path) wizard.selectMapPath(path);
+              }}
+            />
+          </div>
+        ) : (
+        <div className="max-w-4xl mx-auto space-y-4">
+          {state.paths.map((path, idx) => (
+            <button
+              key={path.id}
+              onClick={() => wizard.selectPath(path)}
+              className="w-full bg-white p-6 rounded-xl border border-gray-200 shadow-sm hover:shadow-md hover:border-green-400 transition-all text-left flex items-start group animate-slide-up"
+              style={{ animationDelay: `${idx * 100}ms` }}
+            >
+              <div className="mr-6 mt-1">
+                 <div className={`w-12 h-12 rounded-full flex items-center justify-center text-white font-bold text-lg
+                    ${path.difficulty === 'Beginner' ? 'bg-green-600' :
+                      path.difficulty === 'Intermediate' ? 'bg-yellow-600' : 'bg-red-600'}`
+                 }>
+                    {idx + 1}
+                 </div>
+              </div>
+              <div className="flex-1">
+                <div className="flex items-center justify-between mb-1">
+                  <h3 className="text-lg font-bold text-gray-900 group-hover:text-green-600 transition-colors">{path.title}</h3>
+                  <span className={`text-xs px-2 py-1 rounded-full font-medium
+                    ${path.difficulty === 'Beginner' ? 'bg-green-100 text-green-700' :
+                      path.difficulty === 'Intermediate' ? 'bg-yellow-100 text-yellow-700' : 'bg-red-100 text-red-700'}`
+                  }>
+                    {path.difficulty}
+                  </span>
+                </div>
+                <p className="text-gray-600 mb-2">{path.description}</p>
+                <div className="flex items-center text-xs text-gray-400">
+                  <span className="flex items-center mr-4"><Compass className="w-3 h-3 mr-1"/> {path.estimatedTime}</span>
+                  {path.fit && (
+                    <span className={`px-2 py-0.5 rounded-full font-medium mr-2 ${PATH_FIT_BADGES[path.fit].className}`}>
+                      {PATH_FIT_BADGES[path.fit].label}
+                    </span>
+                  )}
+                  {path.fitReason && <span className="italic truncate">{path.fitReason}</span>}
+                </div>
+              </div>
+              <ChevronRight className="w-6 h-6 text-gray-300 group-hover:text-green-600 transition-colors self-center ml-4" />
+            </button>
+          ))}
+        </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default PathsView;
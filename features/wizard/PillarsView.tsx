@@ -0,0 +1,74 @@
+import React from 'react';
+import { buildPillarGraph } from '../../services/knowledgeGraph';
+import { useAppState, selectSubjectCourses } from '../../store';
+import { ArrowLeft } from '../../components/Icons';
+import PillarIcon from '../../components/PillarIcon';
+import KnowledgeMap from '../../components/KnowledgeMap';
+import { Breadcrumbs, Navigation } from '../navigation';
+import { GenerationWizard } from './useGenerationWizard';
+import ViewToggle from './ViewToggle';
+
+interface PillarsViewProps {
+  wizard: GenerationWizard;
+  navigation: Navigation;
+}
+
+const PillarsView: React.FC<PillarsViewProps> = ({ wizard, navigation }) => {
+  const state = useAppState();
+  const { isMapView } = wizard;
+
+  return (
+    <div className="h-screen flex flex-col bg-surface overflow-hidden">
+      <header className="bg-white border-b border-gray-200 px-6 py-4 shadow-sm z-10">
+        <div className="max-w-7xl mx-auto w-full flex items-center justify-between">
+          <Breadcrumbs navigation={navigation} />
+          <button onClick={navigation.goBack} className="text-sm text-gray-500 hover:text-black flex items-center transition-colors">
+            <ArrowLeft className="w-4 h-4 mr-1" /> Change Subject
+          </button>
+        </div>
+        <div className="max-w-7xl mx-auto w-full mt-2 flex items-end justify-between gap-4">
+          <div>
+            <h2 className="text-2xl font-bold text-black">Learning Pillars: {state.subject}</h2>
+            <p className="text-gray-500">
+              {isMapView ? 'Foundations are on the left; arrows point to what they unlock.' : 'Select a pillar to explore focused lesson paths.'}
+            </p>
+          </div>
+          <ViewToggle isMapView={isMapView} onChange={wizard.setIsMapView} />
+        </div>
+      </header>
+
+      <main className="flex-1 overflow-y-auto p-6 custom-scrollbar">
+        <div className="max-w-7xl mx-auto">
+          {isMapView ? (
+            <KnowledgeMap
+              graph={buildPillarGraph(state.pillars, selectSubjectCourses(state))}
+              onSelect={(id) => {
+                const pillar = state.pillars.find(p => p.id === id);
+                if (pillar) wizard.selectPillar(pillar);
+              }}
+            />
+          ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
+            {state.pillars.map((pillar) => (
+              <button
+                key={pillar.id}
+                onClick={() => wizard.selectPillar(pillar)}
+                className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm hover:shadow-md hover:border-green-400 transition-all text-left flex flex-col h-full group animate-slide-up"
+                style={{ animationDelay: `${pillar.id * 50}ms` }}
+              >
+                <div className="w-10 h-10 bg-green-50 text-green-600 rounded-lg flex items-center justify-center mb-4 group-hover:bg-green-600 group-hover:text-white transition-colors">
+                  <PillarIcon icon={pillar.icon} />
+                </div>
+                <h3 className="font-semibold text-gray-900 mb-2 group-hover:text-green-600 transition-colors">{pillar.title}</h3>
+                <p className="text-sm text-gray-500 line-clamp-3">{pillar.description}</p>
+              </button>
+            ))}
+          </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default PillarsView;
@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { useAppState } from '../../store';
+import { ArrowLeft, ChevronRight } from '../../components/Icons';
+import { Breadcrumbs, Navigation } from '../navigation';
+import { GenerationWizard } from './useGenerationWizard';
+
+interface PlacementViewProps {
+  wizard: GenerationWizard;
+  navigation: Navigation;
+}
+
+const PlacementView: React.FC<PlacementViewProps> = ({ wizard, navigation }) => {
+  const state = useAppState();
+  // Chosen option per question id
+  const [answers, setAnswers] = useState<Record<number, number>>({});
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    wizard.submitPlacement(answers);
+  };
+
+  return (
+    <div className="h-screen flex flex-col bg-surface overflow-hidden">
+      <header className="bg-white border-b border-gray-200 px-6 py-4 shadow-sm z-10">
+        <div className="max-w-7xl mx-auto w-full flex items-center justify-between">
+          <Breadcrumbs navigation={navigation} />
+          <button onClick={navigation.goBack} className="text-sm text-gray-500 hover:text-black flex items-center transition-colors">
+            <ArrowLeft className="w-4 h-4 mr-1" /> Back to Pillars
+          </button>
+        </div>
+        <div className="max-w-7xl mx-auto w-full mt-2">
+          <h2 className="text-2xl font-bold text-black">Quick Placement Check</h2>
+          <p className="text-gray-500">Answer a few questions so we can recommend paths at the right level for you.</p>
+        </div>
+      </header>
+
+      <main className="flex-1 overflow-y-auto p-6 custom-scrollbar">
+        <form onSubmit={handleSubmit} className="max-w-3xl mx-auto space-y-4">
+          {state.placementQuiz.map((question, idx) => (
+            <div
+              key={question.id}
+              className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm animate-slide-up"
+              style={{ animationDelay: `${idx * 100}ms` }}
+            >
+              <div className="flex items-start justify-between mb-4 gap-4">
+                <h3 className="font-semibold text-gray-900">{idx + 1}. {question.question}</h3>
+                <span className="text-xs text-gray-400 whitespace-nowrap">{question.difficulty}</span>
+              </div>
+              <div className="space-y-2">
+                {question.options.map((option, optionIdx) => (
+                  <label
+                    key={optionIdx}
+                    className={`flex items-center p-3 rounded-lg border cursor-pointer transition-colors text-sm
+                      ${answers[question.id] === optionIdx ? 'border-green-500 bg-green-50 text-green-800' : 'border-gray-200 hover:border-gray-300 text-gray-700'}`}
+                  >
+                    <input
+                      type="radio"
+                      name={`placement-${question.id}`}
+                      checked={answers[question.id] === optionIdx}
+                      onChange={() => setAnswers(prev => ({ ...prev, [question.id]: optionIdx }))}
+                      className="mr-3 accent-green-600"
+                    />
+                    {option}
+                  </label>
+                ))}
+              </div>
+            </div>
+          ))}
+
+          <div className="flex items-center justify-between pt-4">
+            <button type="button" onClick={wizard.skipPlacement} className="text-sm text-gray-500 hover:text-black transition-colors">
+              Skip, show all paths
+            </button>
+            <button
+              type="submit"
+              className="bg-green-600 hover:bg-green-700 text-white font-semibold py-3 px-6 rounded-lg transition-colors flex items-center"
+            >
+              See My Paths <ChevronRight className="w-5 h-5 ml-2" />
+            </button>
+          </div>
+        </form>
+      </main>
+    </div>
+  );
+};
+
+export default PlacementView;
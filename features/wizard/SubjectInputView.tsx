@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { useAppState } from '../../store';
+import { ChevronRight } from '../../components/Icons';
+import { Breadcrumbs, Navigation } from '../navigation';
+import { GenerationWizard } from './useGenerationWizard';
+
+interface SubjectInputViewProps {
+  wizard: GenerationWizard;
+  navigation: Navigation;
+}
+
+const SubjectInputView: React.FC<SubjectInputViewProps> = ({ wizard, navigation }) => {
+  const state = useAppState();
+  // Pre-filled when coming back to the subject already being explored
+  const [inputText, setInputText] = useState(state.subject);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    wizard.submitSubject(inputText);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col">
+      <header className="bg-white border-b border-gray-200 px-6 py-4">
+         <div className="max-w-7xl mx-auto w-full flex items-center justify-between">
+            <Breadcrumbs navigation={navigation} />
+         </div>
+      </header>
+      <div className="flex-1 flex items-center justify-center p-4">
+        <div className="max-w-xl w-full bg-white rounded-2xl shadow-xl overflow-hidden animate-slide-up border border-gray-100">
+          <div className="p-8">
+            <h2 className="text-2xl font-bold text-center mb-6">What do you want to master today?</h2>
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div>
+                <input
+                  type="text"
+                  value={inputText}
+                  onChange={(e) => setInputText(e.target.value)}
+                  placeholder="e.g., Quantum Physics, French Cooking, React Native..."
+                  className="w-full px-4 py-3 bg-white text-gray-900 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500 outline-none transition-all placeholder-gray-400"
+                  required
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={state.isLoading}
+                className="w-full bg-green-600 hover:bg-green-700 text-white font-semibold py-3 px-6 rounded-lg transition-colors flex items-center justify-center disabled:opacity-70"
+              >
+                {state.isLoading ? (
+                  <span className="animate-pulse">Analyzing Subject...</span>
+                ) : (
+                  <>
+                    Start Learning Journey
+                    <ChevronRight className="w-5 h-5 ml-2" />
+                  </>
+                )}
+              </button>
+            </form>
+            <div className="mt-8 pt-6 border-t border-gray-100 text-center">
+              <p className="text-xs text-gray-400">Powered by Gemini 2.5 Flash</p>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SubjectInputView;
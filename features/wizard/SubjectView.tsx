@@ -0,0 +1,47 @@
+import React from 'react';
+import { SavedCourse } from '../../types';
+import { useAppState, selectCurrentSubject } from '../../store';
+import { ArrowLeft } from '../../components/Icons';
+import PillarIcon from '../../components/PillarIcon';
+import SubjectOverview from '../../components/SubjectOverview';
+import { Breadcrumbs, Navigation } from '../navigation';
+import { GenerationWizard } from './useGenerationWizard';
+
+interface SubjectViewProps {
+  wizard: GenerationWizard;
+  navigation: Navigation;
+  onOpenCourse: (course: SavedCourse) => void;
+}
+
+const SubjectView: React.FC<SubjectViewProps> = ({ wizard, navigation, onOpenCourse }) => {
+  const state = useAppState();
+  const currentSubject = selectCurrentSubject(state);
+  if (!currentSubject) return null;
+
+  return (
+    <div className="h-screen flex flex-col bg-surface overflow-hidden">
+      <header className="bg-white border-b border-gray-200 px-6 py-4 shadow-sm z-10">
+        <div className="max-w-7xl mx-auto w-full flex items-center justify-between">
+          <Breadcrumbs navigation={navigation} />
+          <button onClick={navigation.goBack} className="text-sm text-gray-500 hover:text-black flex items-center transition-colors">
+            <ArrowLeft className="w-4 h-4 mr-1" /> Back to Library
+          </button>
+        </div>
+      </header>
+      <main className="flex-1 overflow-y-auto p-6 lg:p-10 custom-scrollbar bg-gray-50">
+        <div className="max-w-7xl mx-auto">
+          <SubjectOverview
+            subject={currentSubject}
+            library={state.library}
+            renderIcon={(icon) => <PillarIcon icon={icon} />}
+            onSelectPillar={wizard.selectPillar}
+            onResumeCourse={onOpenCourse}
+            onDelete={() => wizard.removeSubject(currentSubject)}
+          />
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default SubjectView;
@@ -0,0 +1,22 @@
+import React from 'react';
+
+interface ViewToggleProps {
+  isMapView: boolean;
+  onChange: (isMapView: boolean) => void;
+}
+
+const ViewToggle: React.FC<ViewToggleProps> = ({ isMapView, onChange }) => (
+  <div className="inline-flex bg-gray-100 rounded-lg p-1 text-sm shrink-0">
+    {[{ map: false, label: 'List' }, { map: true, label: 'Map' }].map(option => (
+      <button
+        key={option.label}
+        onClick={() => onChange(option.map)}
+        className={`px-3 py-1 rounded-md transition-colors ${isMapView === option.map ? 'bg-white shadow-sm font-semibold text-black' : 'text-gray-500 hover:text-black'}`}
+      >
+        {option.label}
+      </button>
+    ))}
+  </div>
+);
+
+export default ViewToggle;
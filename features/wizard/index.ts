@@ -0,0 +1,7 @@
+export * from './useGenerationWizard';
+export { default as SubjectInputView } from './SubjectInputView';
+export { default as GenerationLoadingView } from './GenerationLoadingView';
+export { default as SubjectView } from './SubjectView';
+export { default as PillarsView } from './PillarsView';
+export { default as PlacementView } from './PlacementView';
+export { default as PathsView } from './PathsView';
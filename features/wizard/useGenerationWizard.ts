@@ -0,0 +1,275 @@
+import { useRef, useState } from 'react';
+import { Curriculum, LearningPillar, LessonPath, PlacementResult, SavedCourse, SavedSubject } from '../../types';
+import {
+  generatePillars, generatePlacementQuiz, generateLessonPaths, generateCurriculum, generateFollowUpPath, initializeChat
+} from '../../services/geminiService';
+import { toUserMessage, isCancellation } from '../../services/llm';
+import { scorePlacement } from '../../services/placement';
+import { assessCourse } from '../../services/recommender';
+import { subjectIdFor, createSubject, withPillarPaths, saveSubject, deleteSubject } from '../../services/subjectStore';
+import { saveThread, createThread } from '../../services/chatHistoryStore';
+import { getCourseRepository } from '../../services/courses';
+import { Route } from '../../services/router';
+import { COURSE_SCHEMA_VERSION } from '../../services/persistence';
+import { useAppStore, selectCurrentSubject, selectSubjectCourses } from '../../store';
+
+// Fills the lessons that are still stubs in the stored curriculum with the ones
+// just generated; lessons the learner has touched since are left as they are.
+const withGeneratedLessons = (stored: Curriculum, generated: Curriculum): Curriculum => ({
+  ...stored,
+  subLessons: stored.subLessons.map((lesson, i) => lesson.status && generated.subLessons[i] ? generated.subLessons[i] : lesson),
+});
+
+interface GenerationWizardOptions {
+  openCourse: (course: SavedCourse) => void;
+}
+
+// Subject → pillars → placement check → paths → a new course. Each step reads the
+// store when it runs, so a step started from an earlier screen uses what's chosen now.
+export const useGenerationWizard = ({ openCourse }: GenerationWizardOptions) => {
+  const { getState, dispatch } = useAppStore();
+  // Pillars and paths shown as a prerequisite map instead of a list
+  const [isMapView, setIsMapView] = useState(false);
+  // Course a follow-up path is being designed for
+  const [suggestingFor, setSuggestingFor] = useState<string | null>(null);
+
+  // In-flight generation request, so it can be cancelled when the learner navigates away
+  const generationAbortRef = useRef<AbortController | null>(null);
+  // Course whose lessons that request is writing, once its outline is shown
+  const generatingCourseIdRef = useRef<string | null>(null);
+
+  const startGeneration = (): AbortSignal => {
+    generationAbortRef.current?.abort();
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
+    generatingCourseIdRef.current = null;
+    return controller.signal;
+  };
+
+  const cancelGeneration = () => {
+    generationAbortRef.current?.abort();
+    generationAbortRef.current = null;
+    generatingCourseIdRef.current = null;
+  };
+
+  // Cancels the request unless the route still shows what it's generating: the
+  // course being written, or the wizard's screens before a course exists
+  const leaveGeneration = (route: Route) => {
+    const courseId = generatingCourseIdRef.current;
+    const isShown = courseId
+      ? route.name === 'course' && route.courseId === courseId
+      : route.name !== 'course' && route.name !== 'dashboard';
+    if (!isShown) cancelGeneration();
+  };
+
+  const failureMessage = (err: unknown) => isCancellation(err) ? null : toUserMessage(err);
+
+  const upsertSubject = (subject: SavedSubject) => {
+    dispatch({ type: 'subjects/saved', subject });
+    const { user } = getState();
+    if (user) saveSubject(user.id, subject);
+  };
+
+  const startNewCourse = () => dispatch({ type: 'wizard/started' });
+
+  const openSubject = (subject: SavedSubject) => dispatch({ type: 'subjects/opened', subject });
+
+  const removeSubject = (subject: SavedSubject) => {
+    dispatch({ type: 'subjects/deleted', subjectId: subject.id });
+    const { user } = getState();
+    if (user) deleteSubject(user.id, subject.id);
+  };
+
+  const submitSubject = async (name: string) => {
+    if (!name.trim()) return;
+
+    // A subject that was mapped before opens its saved map
+    const existing = getState().subjects.find(s => s.id === subjectIdFor(name));
+    if (existing) {
+      openSubject(existing);
+      return;
+    }
+
+    dispatch({ type: 'wizard/pillarsRequested', subject: name });
+    const signal = startGeneration();
+
+    try {
+      const pillars = await generatePillars(name, signal);
+      upsertSubject(createSubject(name, pillars));
+      dispatch({ type: 'wizard/pillarsLoaded', pillars });
+    } catch (err) {
+      dispatch({ type: 'wizard/generationFailed', error: failureMessage(err) });
+    }
+  };
+
+  const loadPaths = async (pillar: LearningPillar, placement: PlacementResult | null) => {
+    const { subject } = getState();
+    dispatch({ type: 'wizard/pathsRequested', placement });
+    const signal = startGeneration();
+
+    try {
+      const paths = await generateLessonPaths(subject, pillar.title, placement, signal);
+      const current = getState();
+      const saved = selectCurrentSubject(current) || createSubject(subject, current.pillars);
+      upsertSubject(withPillarPaths(saved, pillar.id, paths));
+      dispatch({ type: 'wizard/pathsLoaded', paths });
+    } catch (err) {
+      dispatch({ type: 'wizard/generationFailed', error: failureMessage(err) });
+    }
+  };
+
+  const startPlacement = async (pillar: LearningPillar) => {
+    const { subject } = getState();
+    dispatch({ type: 'wizard/placementRequested', pillar });
+    const signal = startGeneration();
+
+    try {
+      const placementQuiz = await generatePlacementQuiz(subject, pillar.title, signal);
+      dispatch({ type: 'wizard/placementLoaded', placementQuiz });
+    } catch (err) {
+      if (isCancellation(err)) {
+        dispatch({ type: 'wizard/placementCancelled' });
+        return;
+      }
+      // The quiz is optional; fall back to unpersonalized paths
+      console.warn("Placement quiz unavailable, skipping", err);
+      await loadPaths(pillar, null);
+    }
+  };
+
+  // Pillars whose paths were mapped before open straight onto them
+  const selectPillar = (pillar: LearningPillar) => {
+    const savedPaths = selectCurrentSubject(getState())?.pathsByPillar[pillar.id];
+    if (savedPaths && savedPaths.length > 0) {
+      dispatch({ type: 'wizard/savedPathsOpened', pillar, paths: savedPaths });
+      return;
+    }
+    startPlacement(pillar);
+  };
+
+  const submitPlacement = (answers: Record<number, number>) => {
+    const { selectedPillar, placementQuiz } = getState();
+    if (!selectedPillar) return;
+    loadPaths(selectedPillar, scorePlacement(placementQuiz, answers));
+  };
+
+  const skipPlacement = () => {
+    const { selectedPillar } = getState();
+    if (!selectedPillar) return;
+    loadPaths(selectedPillar, null);
+  };
+
+  // `from` is set when starting a recommended next path from an existing course;
+  // the new course then inherits its subject, pillar and sibling paths.
+  const selectPath = async (path: LessonPath, from?: SavedCourse) => {
+    const state = getState();
+    const subject = from ? from.subject : state.subject;
+    const siblingPaths = from ? from.siblingPaths || [] : state.paths;
+    const pillar = from ? from.pillar : state.selectedPillar;
+    dispatch({ type: 'wizard/courseRequested', path, from });
+    const signal = startGeneration();
+    const newCourseId = Date.now().toString();
+    let outlineReady = false;
+
+    try {
+      if (!pillar) throw new Error("Pillar not selected");
+
+      const curriculum = await generateCurriculum(subject, pillar.title, path.title, {
+        // Show the course as soon as its outline exists; lessons fill in behind it
+        onOutline: (outline) => {
+          outlineReady = true;
+          generatingCourseIdRef.current = newCourseId;
+          const newCourse: SavedCourse = {
+            id: newCourseId,
+            subjectId: subjectIdFor(subject),
+            subject,
+            pillar,
+            path: path,
+            siblingPaths,
+            curriculum: outline,
+            completedSubLessons: [],
+            subLessonFeedback: {},
+            quizScores: {},
+            requireMastery: false,
+            schemaVersion: COURSE_SCHEMA_VERSION,
+            createdAt: Date.now(),
+            lastAccessed: Date.now()
+          };
+
+          // Initialize chat session
+          initializeChat(subject, pillar.title, path.title, outline);
+          const thread = createThread('Main', [{
+            id: 'welcome',
+            role: 'model',
+            text: `Hi! I'm your tutor for **${path.title}**. We'll cover ${outline.objectives.length} main objectives today. Ask me anything as you go through the material!`,
+            timestamp: Date.now()
+          }]);
+          dispatch({ type: 'wizard/courseOutlined', course: newCourse, thread });
+
+          const { user } = getState();
+          if (user) {
+            saveThread(user.id, newCourseId, thread);
+            getCourseRepository().save(user.id, newCourse)
+              .catch(err => console.error("Failed to save new course", err));
+          }
+        },
+        onSubLesson: (index, lesson) => {
+          dispatch({ type: 'course/lessonGenerationFinished', courseId: newCourseId, index });
+          dispatch({ type: 'course/lessonWritten', courseId: newCourseId, index, lesson });
+        },
+        onSubLessonError: (index) => {
+          dispatch({ type: 'course/lessonGenerationFinished', courseId: newCourseId, index });
+          dispatch({ type: 'course/lessonFailed', courseId: newCourseId, index });
+        }
+      }, signal);
+
+      // The active course is synced by the progress effect; this covers a learner who navigated away mid-build.
+      // The stored course is re-read so a quiz, narration or rewrite added meanwhile is kept.
+      const { user } = getState();
+      if (user) {
+        const repository = getCourseRepository();
+        repository.get(user.id, newCourseId)
+          .then(stored => stored && repository.update(user.id, newCourseId, { curriculum: withGeneratedLessons(stored.curriculum, curriculum) }))
+          .catch(err => console.error("Failed to save curriculum", err));
+      }
+
+    } catch (err) {
+      if (outlineReady) {
+        // Remaining lessons stay pending and can be generated on demand
+        dispatch({ type: 'course/generationStopped', courseId: newCourseId });
+        if (!isCancellation(err)) dispatch({ type: 'error/shown', error: toUserMessage(err) });
+        return;
+      }
+      dispatch({ type: 'wizard/courseFailed', error: failureMessage(err) });
+    }
+  };
+
+  // Paths on the map that already have a course open it instead of building another
+  const selectMapPath = (path: LessonPath) => {
+    const state = getState();
+    const existing = selectSubjectCourses(state).find(c => c.pillar.title === state.selectedPillar?.title && c.path.title === path.title);
+    if (existing) openCourse(existing);
+    else selectPath(path);
+  };
+
+  // Designs a new path when none of the course's sibling paths are left to recommend
+  const suggestFollowUp = async (course: SavedCourse) => {
+    setSuggestingFor(course.id);
+    try {
+      const path = await generateFollowUpPath(course, assessCourse(course).readiness);
+      await selectPath(path, course);
+    } catch (err) {
+      dispatch({ type: 'error/shown', error: toUserMessage(err) });
+    } finally {
+      setSuggestingFor(null);
+    }
+  };
+
+  return {
+    isMapView, setIsMapView, suggestingFor,
+    startNewCourse, openSubject, removeSubject, submitSubject, selectPillar, startPlacement, submitPlacement, skipPlacement,
+    selectPath, selectMapPath, suggestFollowUp, cancelGeneration, leaveGeneration
+  };
+};
+
+export type GenerationWizard = ReturnType<typeof useGenerationWizard>;
@@ -0,0 +1,51 @@
+import { ASSET_STORE, openDatabase, toPromise } from "../courses/indexedDb";
+import { AssetCache, CachedAsset } from "./types";
+
+export const createIndexedDbAssetCache = (): AssetCache => {
+  const storeFor = async (mode: IDBTransactionMode) => {
+    const db = await openDatabase();
+    return db.transaction(ASSET_STORE, mode).objectStore(ASSET_STORE);
+  };
+
+  return {
+    async get(userId, assetId) {
+      const asset = await toPromise<CachedAsset | undefined>((await storeFor('readonly')).get(`${userId}/${assetId}`));
+      return asset || null;
+    },
+
+    async put(asset) {
+      await toPromise((await storeFor('readwrite')).put(asset));
+    },
+
+    async list() {
+      return toPromise<CachedAsset[]>((await storeFor('readonly')).getAll());
+    },
+
+    async remove(keys) {
+      const store = await storeFor('readwrite');
+      await Promise.all(keys.map(key => toPromise(store.delete(key))));
+    },
+  };
+};
+
+export const createMemoryAssetCache = (): AssetCache => {
+  const assets = new Map<string, CachedAsset>();
+
+  return {
+    async get(userId, assetId) {
+      return assets.get(`${userId}/${assetId}`) || null;
+    },
+
+    async put(asset) {
+      assets.set(asset.key, asset);
+    },
+
+    async list() {
+      return Array.from(assets.values());
+    },
+
+    async remove(keys) {
+      keys.forEach(key => assets.delete(key));
+    },
+  };
+};
@@ -0,0 +1,27 @@
+import { FirebaseStorage, ref, getBlob, uploadBytes, listAll, deleteObject, StorageError } from 'firebase/storage';
+import { RemoteAssetStore } from "./types";
+
+// Assets live at `users/{uid}/assets/{courseId}/{name}`.
+export const createCloudStorageAssetStore = (storage: FirebaseStorage): RemoteAssetStore => {
+  const assetRef = (userId: string, assetId: string) => ref(storage, `users/${userId}/assets/${assetId}`);
+
+  return {
+    async get(userId, assetId) {
+      try {
+        return await getBlob(assetRef(userId, assetId));
+      } catch (error) {
+        if ((error as StorageError).code === 'storage/object-not-found') return null;
+        throw error;
+      }
+    },
+
+    async put(userId, assetId, blob) {
+      await uploadBytes(assetRef(userId, assetId), blob, { contentType: blob.type });
+    },
+
+    async removeCourse(userId, courseId) {
+      const { items } = await listAll(ref(storage, `users/${userId}/assets/${courseId}`));
+      await Promise.all(items.map(item => deleteObject(item)));
+    },
+  };
+};
@@ -0,0 +1,174 @@
+import { storage } from "../firebase";
+import { isIndexedDbAvailable } from "../courses/indexedDb";
+import { NarrationAudio, SavedCourse } from "../../types";
+import { pcmToWav } from "../audio";
+import { hashText } from "../flashcards";
+import { AssetCache, CachedAsset, RemoteAssetStore } from "./types";
+import { createIndexedDbAssetCache, createMemoryAssetCache } from "./cache";
+import { createCloudStorageAssetStore } from "./cloudStorage";
+
+export * from "./types";
+
+// Assets are read through a local cache. With Cloud Storage configured the cache
+// only holds copies, so the least recently used uploaded assets are evicted once it
+// grows past MAX_CACHE_BYTES and fetched again on demand. Without a remote store the
+// cache is the only copy and is never evicted.
+
+export const MAX_CACHE_BYTES = 150 * 1024 * 1024;
+
+export const assetIdFor = (courseId: string, name: string) => `${courseId}/${name}`;
+
+// Keyed by the description, so a rewritten lesson gets a fresh image.
+export const imageAssetIdFor = (courseId: string, description: string) => assetIdFor(courseId, `image-${hashText(description)}`);
+
+const courseIdOf = (assetId: string) => assetId.split('/')[0];
+
+let cache: AssetCache | null = null;
+let remote: RemoteAssetStore | null = storage ? createCloudStorageAssetStore(storage) : null;
+
+const getCache = (): AssetCache => {
+  if (!cache) {
+    cache = isIndexedDbAvailable() ? createIndexedDbAssetCache() : createMemoryAssetCache();
+  }
+  return cache;
+};
+
+// Swap the stores at runtime, e.g. to run without a browser database in tests.
+export const setAssetStores = (local: AssetCache, remoteStore: RemoteAssetStore | null) => {
+  cache = local;
+  remote = remoteStore;
+};
+
+const cacheAsset = (userId: string, assetId: string, blob: Blob, uploaded: boolean): CachedAsset => ({
+  key: `${userId}/${assetId}`,
+  userId,
+  assetId,
+  courseId: courseIdOf(assetId),
+  blob,
+  size: blob.size,
+  lastUsedAt: Date.now(),
+  uploaded,
+});
+
+const evictAssets = async () => {
+  const assets = await getCache().list();
+  let total = assets.reduce((sum, a) => sum + a.size, 0);
+  if (total <= MAX_CACHE_BYTES) return;
+
+  const evictable = assets.filter(a => a.uploaded).sort((a, b) => a.lastUsedAt - b.lastUsedAt);
+  const keys: string[] = [];
+  for (const asset of evictable) {
+    if (total <= MAX_CACHE_BYTES) break;
+    keys.push(asset.key);
+    total -= asset.size;
+  }
+  await getCache().remove(keys);
+};
+
+const uploadAsset = async (asset: CachedAsset) => {
+  if (!remote) return;
+  try {
+    await remote.put(asset.userId, asset.assetId, asset.blob);
+    await getCache().put({ ...asset, uploaded: true });
+  } catch (error) {
+    console.error("Failed to upload asset, will retry later:", error);
+  }
+};
+
+const pendingLoads = new Map<string, Promise<Blob | null>>();
+
+// Returns the asset from the cache, fetching it from the remote store if it was evicted.
+export const loadAsset = (userId: string, assetId: string): Promise<Blob | null> => {
+  const key = `${userId}/${assetId}`;
+  const pending = pendingLoads.get(key);
+  if (pending) return pending;
+
+  const load = (async () => {
+    const cached = await getCache().get(userId, assetId);
+    if (cached) {
+      getCache().put({ ...cached, lastUsedAt: Date.now() }).catch(() => {});
+      return cached.blob;
+    }
+    if (!remote) return null;
+
+    const blob = await remote.get(userId, assetId);
+    if (blob) {
+      await getCache().put(cacheAsset(userId, assetId, blob, true));
+      await evictAssets();
+    }
+    return blob;
+  })().finally(() => pendingLoads.delete(key));
+
+  pendingLoads.set(key, load);
+  return load;
+};
+
+// Stores the asset locally straight away; the upload happens in the background.
+export const saveAsset = async (userId: string, assetId: string, blob: Blob) => {
+  const asset = cacheAsset(userId, assetId, blob, false);
+  await getCache().put(asset);
+  uploadAsset(asset)
+    .then(evictAssets)
+    .catch(error => console.error("Failed to upload or evict assets", error));
+};
+
+export const deleteCourseAssets = async (userId: string, courseId: string) => {
+  try {
+    const assets = await getCache().list();
+    await getCache().remove(assets.filter(a => a.userId === userId && a.courseId === courseId).map(a => a.key));
+    if (remote) await remote.removeCourse(userId, courseId);
+  } catch (error) {
+    console.error("Failed to delete course assets", error);
+  }
+};
+
+// Retries uploads that failed while offline.
+export const uploadPendingAssets = async (userId: string) => {
+  if (!remote) return;
+  const assets = await getCache().list();
+  for (const asset of assets.filter(a => a.userId === userId && !a.uploaded)) {
+    await uploadAsset(asset);
+  }
+  await evictAssets();
+};
+
+// Courses saved before assets were stored separately carry their audio inline.
+// Moves it into the asset store; returns null when there was nothing to move.
+export const extractInlineAssets = async (userId: string, course: SavedCourse): Promise<SavedCourse | null> => {
+  const { audioData, ...curriculum } = course.curriculum;
+  if (!audioData) return null;
+
+  const audioAssetId = assetIdFor(course.id, 'module-audio');
+  await saveAsset(userId, audioAssetId, pcmToWav(audioData));
+  return { ...course, curriculum: { ...curriculum, audioAssetId } };
+};
+
+// Re-homes a guest's assets in the existing account they signed in to. Only the
+// copies cached on this device can be moved, since the guest's remote ones can't be
+// read once signed in as someone else; narration stored only there is dropped from
+// the courses and generated again when it's next played.
+export const moveGuestAssets = async (guestId: string, accountId: string, courses: SavedCourse[]): Promise<SavedCourse[]> => {
+  const assets = (await getCache().list()).filter(a => a.userId === guestId);
+  for (const asset of assets) {
+    await saveAsset(accountId, asset.assetId, asset.blob);
+  }
+  await getCache().remove(assets.map(a => a.key));
+
+  const moved = new Set(assets.map(a => a.assetId));
+  const withoutLost = <T extends { narration?: NarrationAudio }>(item: T): T => {
+    if (!item.narration || moved.has(item.narration.assetId)) return item;
+    const { narration, ...rest } = item;
+    return rest as T;
+  };
+  return courses.map(course => {
+    const { audioAssetId, ...curriculum } = withoutLost(course.curriculum);
+    return {
+      ...course,
+      curriculum: {
+        ...curriculum,
+        ...(audioAssetId && moved.has(audioAssetId) ? { audioAssetId } : {}),
+        subLessons: curriculum.subLessons.map(withoutLost),
+      },
+    };
+  });
+};
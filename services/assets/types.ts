@@ -0,0 +1,29 @@
+// Binary assets (narration audio, lesson images) are kept out of course documents
+// and referenced by id. An id is `${courseId}/${name}`, so every asset belongs to
+// exactly one course and can be dropped with it.
+
+export interface CachedAsset {
+  key: string; // `${userId}/${assetId}`
+  userId: string;
+  assetId: string;
+  courseId: string;
+  blob: Blob;
+  size: number;
+  lastUsedAt: number;
+  uploaded: boolean; // False while the remote store has no copy; such assets are never evicted
+}
+
+// Local copy of a user's assets, in IndexedDB when the browser has it.
+export interface AssetCache {
+  get(userId: string, assetId: string): Promise<CachedAsset | null>;
+  put(asset: CachedAsset): Promise<void>;
+  list(): Promise<CachedAsset[]>; // Every user's assets, for eviction
+  remove(keys: string[]): Promise<void>;
+}
+
+// Durable remote home for assets; Cloud Storage when Firebase is configured.
+export interface RemoteAssetStore {
+  get(userId: string, assetId: string): Promise<Blob | null>;
+  put(userId: string, assetId: string, blob: Blob): Promise<void>;
+  removeCourse(userId: string, courseId: string): Promise<void>;
+}
@@ -0,0 +1,63 @@
+// Helper to convert raw PCM (Int16) to WAV Blob for use in <audio> element
+export function pcmToWav(pcmData: string, sampleRate: number = 24000, numChannels: number = 1): Blob {
+  const binaryString = atob(pcmData);
+  const len = binaryString.length;
+  const buffer = new ArrayBuffer(44 + len);
+  const view = new DataView(buffer);
+  
+  // RIFF identifier
+  writeString(view, 0, 'RIFF');
+  // file length
+  view.setUint32(4, 36 + len, true);
+  // RIFF type
+  writeString(view, 8, 'WAVE');
+  // format chunk identifier
+  writeString(view, 12, 'fmt ');
+  // format chunk length
+  view.setUint32(16, 16, true);
+  // sample format (raw)
+  view.setUint16(20, 1, true);
+  // channel count
+  view.setUint16(22, numChannels, true);
+  // sample rate
+  view.setUint32(24, sampleRate, true);
+  // byte rate (sampleRate * blockAlign)
+  view.setUint32(28, sampleRate * numChannels * 2, true);
+  // block align (channel count * bytes per sample)
+  view.setUint16(32, numChannels * 2, true);
+  // bits per sample
+  view.setUint16(34, 16, true);
+  // data chunk identifier
+  writeString(view, 36, 'data');
+  // data chunk length
+  view.setUint32(40, len, true);
+
+  // write the PCM samples
+  const bytes = new Uint8Array(buffer, 44);
+  for (let i = 0; i < len; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+
+  return new Blob([buffer], { type: 'audio/wav' });
+}
+
+function writeString(view: DataView, offset: number, string: string) {
+  for (let i = 0; i < string.length; i++) {
+    view.setUint8(offset + i, string.charCodeAt(i));
+  }
+}
+
+// Providers return 16-bit mono PCM at 24kHz
+export const PCM_BYTES_PER_SECOND = 24000 * 2;
+
+// Joins base64 PCM clips into one WAV, returning where each clip starts in seconds.
+export function joinPcmClips(clips: string[]): { wav: Blob; starts: number[] } {
+  const decoded = clips.map(clip => atob(clip));
+  const starts: number[] = [];
+  let offset = 0;
+  decoded.forEach(clip => {
+    starts.push(offset / PCM_BYTES_PER_SECOND);
+    offset += clip.length;
+  });
+  return { wav: pcmToWav(btoa(decoded.join(''))), starts };
+}
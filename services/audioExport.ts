@@ -0,0 +1,260 @@
+import { AudioChapter } from "../types";
+import { PCM_BYTES_PER_SECOND } from "./audio";
+
+// Builds a single downloadable file from a course's narration tracks, with a
+// chapter marker at every track and section. WAV carries the chapters as cue
+// points with labels; compressed audio is Opus in an Ogg container, encoded
+// with WebCodecs, with chapters as CHAPTERxxx Vorbis comments.
+
+export type AudioExportFormat = 'wav' | 'opus';
+
+export const AUDIO_EXPORT_EXTENSIONS: Record<AudioExportFormat, string> = { wav: 'wav', opus: 'opus' };
+
+export interface ExportTrack {
+  title: string;
+  blob: Blob; // WAV as stored in the asset store
+  chapters: AudioChapter[];
+}
+
+const SAMPLE_RATE = 24000;
+const OPUS_BITRATE = 48000;
+const OPUS_GRANULE_RATE = 48000; // Ogg Opus granule positions always count 48kHz samples
+const DEFAULT_PRE_SKIP = 312; // libopus encoder lookahead, used when the encoder doesn't report one
+
+export const canExportCompressed = (): boolean => typeof AudioEncoder !== 'undefined';
+
+const ascii = (text: string) => Uint8Array.from(text, c => c.charCodeAt(0));
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const joined = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  parts.reduce((offset, part) => { joined.set(part, offset); return offset + part.length; }, 0);
+  return joined;
+};
+
+// Returns the samples from the WAV `data` chunk.
+const readPcm = async (wav: Blob): Promise<Uint8Array> => {
+  const bytes = new Uint8Array(await wav.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const id = String.fromCharCode(...bytes.subarray(offset, offset + 4));
+    const size = view.getUint32(offset + 4, true);
+    if (id === 'data') return bytes.subarray(offset + 8, offset + 8 + size);
+    offset += 8 + size + (size % 2);
+  }
+  throw new Error("Narration audio has no data chunk");
+};
+
+// Joins the tracks and lists every chapter with its start in the joined audio.
+const joinTracks = async (tracks: ExportTrack[]): Promise<{ pcm: Uint8Array; chapters: AudioChapter[] }> => {
+  const parts: Uint8Array[] = [];
+  const chapters: AudioChapter[] = [];
+  let elapsed = 0;
+  for (const track of tracks) {
+    const pcm = await readPcm(track.blob);
+    const trackChapters = track.chapters.length > 1 ? track.chapters : [{ title: '', start: 0 }];
+    trackChapters.forEach(chapter => chapters.push({
+      title: chapter.title ? `${track.title} - ${chapter.title}` : track.title,
+      start: elapsed + chapter.start,
+    }));
+    parts.push(pcm);
+    elapsed += pcm.length / PCM_BYTES_PER_SECOND;
+  }
+  return { pcm: concat(parts), chapters };
+};
+
+// --- WAV ---
+
+const riffChunk = (id: string, body: Uint8Array): Uint8Array => {
+  const header = new Uint8Array(8);
+  header.set(ascii(id));
+  new DataView(header.buffer).setUint32(4, body.length, true);
+  return concat(body.length % 2 ? [header, body, new Uint8Array(1)] : [header, body]);
+};
+
+const encodeWav = (pcm: Uint8Array, title: string, chapters: AudioChapter[]): Blob => {
+  const text = new TextEncoder();
+
+  const fmt = new Uint8Array(16);
+  const fmtView = new DataView(fmt.buffer);
+  fmtView.setUint16(0, 1, true); // PCM
+  fmtView.setUint16(2, 1, true); // Mono
+  fmtView.setUint32(4, SAMPLE_RATE, true);
+  fmtView.setUint32(8, PCM_BYTES_PER_SECOND, true);
+  fmtView.setUint16(12, 2, true); // Block align
+  fmtView.setUint16(14, 16, true); // Bits per sample
+
+  const cue = new Uint8Array(4 + chapters.length * 24);
+  const cueView = new DataView(cue.buffer);
+  cueView.setUint32(0, chapters.length, true);
+  chapters.forEach((chapter, i) => {
+    const base = 4 + i * 24;
+    const frame = Math.round(chapter.start * SAMPLE_RATE);
+    cueView.setUint32(base, i + 1, true); // Cue point id, matched by its label
+    cueView.setUint32(base + 4, frame, true);
+    cue.set(ascii('data'), base + 8);
+    cueView.setUint32(base + 20, frame, true);
+  });
+
+  const labels = chapters.map((chapter, i) => {
+    const id = new Uint8Array(4);
+    new DataView(id.buffer).setUint32(0, i + 1, true);
+    return riffChunk('labl', concat([id, text.encode(chapter.title), new Uint8Array(1)]));
+  });
+  const adtl = riffChunk('LIST', concat([ascii('adtl'), ...labels]));
+  const info = riffChunk('LIST', concat([ascii('INFO'), riffChunk('INAM', concat([text.encode(title), new Uint8Array(1)]))]));
+
+  const body = concat([ascii('WAVE'), riffChunk('fmt ', fmt), riffChunk('data', pcm), riffChunk('cue ', cue), adtl, info]);
+  return new Blob([riffChunk('RIFF', body)], { type: 'audio/wav' });
+};
+
+// --- Ogg Opus ---
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let r = i << 24;
+    for (let bit = 0; bit < 8; bit++) r = r & 0x80000000 ? (r << 1) ^ 0x04c11db7 : r << 1;
+    table[i] = r >>> 0;
+  }
+  return table;
+})();
+
+const oggCrc = (bytes: Uint8Array): number => {
+  let crc = 0;
+  for (let i = 0; i < bytes.length; i++) crc = ((crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ bytes[i]) & 0xff]) >>> 0;
+  return crc;
+};
+
+const OGG_BOS = 0x02;
+const OGG_EOS = 0x04;
+
+// One packet per page keeps the muxing simple; Opus packets are a few hundred bytes.
+const oggPage = (packet: Uint8Array, granule: number, serial: number, sequence: number, flags: number): Uint8Array => {
+  const lacing: number[] = [];
+  for (let remaining = packet.length; ; remaining -= 255) {
+    lacing.push(Math.min(remaining, 255));
+    if (remaining < 255) break;
+  }
+  if (lacing.length > 255) throw new Error("Ogg packet too large for a single page");
+
+  const page = new Uint8Array(27 + lacing.length + packet.length);
+  const view = new DataView(page.buffer);
+  page.set(ascii('OggS'));
+  page[5] = flags;
+  view.setUint32(6, granule % 2 ** 32, true);
+  view.setUint32(10, Math.floor(granule / 2 ** 32), true);
+  view.setUint32(14, serial, true);
+  view.setUint32(18, sequence, true);
+  page[26] = lacing.length;
+  page.set(lacing, 27);
+  page.set(packet, 27 + lacing.length);
+  view.setUint32(22, oggCrc(page), true);
+  return page;
+};
+
+const opusHead = (preSkip: number): Uint8Array => {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(ascii('OpusHead'));
+  head[8] = 1; // Version
+  head[9] = 1; // Mono
+  view.setUint16(10, preSkip, true);
+  view.setUint32(12, SAMPLE_RATE, true);
+  return head;
+};
+
+const formatTimestamp = (seconds: number): string => {
+  const ms = Math.round(seconds * 1000);
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  return `${pad(Math.floor(ms / 3600000))}:${pad(Math.floor(ms / 60000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}.${pad(ms % 1000, 3)}`;
+};
+
+const opusTags = (title: string, chapters: AudioChapter[]): Uint8Array => {
+  const text = new TextEncoder();
+  const comments = [
+    `TITLE=${title}`,
+    ...chapters.flatMap((chapter, i) => {
+      const key = `CHAPTER${String(i + 1).padStart(3, '0')}`;
+      return [`${key}=${formatTimestamp(chapter.start)}`, `${key}NAME=${chapter.title}`];
+    }),
+  ].map(comment => text.encode(comment));
+  const vendor = text.encode('CogniPath');
+
+  const lengthPrefixed = (bytes: Uint8Array) => {
+    const length = new Uint8Array(4);
+    new DataView(length.buffer).setUint32(0, bytes.length, true);
+    return concat([length, bytes]);
+  };
+  const count = new Uint8Array(4);
+  new DataView(count.buffer).setUint32(0, comments.length, true);
+  return concat([ascii('OpusTags'), lengthPrefixed(vendor), count, ...comments.map(lengthPrefixed)]);
+};
+
+const encodeOpusPackets = async (pcm: Uint8Array): Promise<{ packets: { data: Uint8Array; duration: number }[]; preSkip: number }> => {
+  const config: AudioEncoderConfig = { codec: 'opus', sampleRate: SAMPLE_RATE, numberOfChannels: 1, bitrate: OPUS_BITRATE };
+  const support = await AudioEncoder.isConfigSupported(config);
+  if (!support.supported) throw new Error("This browser can't encode Opus audio. Export as WAV instead.");
+
+  const packets: { data: Uint8Array; duration: number }[] = [];
+  let preSkip = DEFAULT_PRE_SKIP;
+  let failure: unknown = null;
+  const encoder = new AudioEncoder({
+    output: (chunk, metadata) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      packets.push({ data, duration: chunk.duration || 20000 });
+      // Chrome reports the encoder's own OpusHead, which carries the real pre-skip
+      const description = metadata?.decoderConfig?.description;
+      if (description && description.byteLength >= 12) {
+        const head = description instanceof ArrayBuffer ? description : description.buffer;
+        preSkip = new DataView(head, 'byteOffset' in description ? description.byteOffset : 0).getUint16(10, true);
+      }
+    },
+    error: (error) => { failure = error; },
+  });
+  encoder.configure(config);
+
+  const samples = new Int16Array(pcm.buffer, pcm.byteOffset, Math.floor(pcm.byteLength / 2));
+  for (let start = 0; start < samples.length; start += SAMPLE_RATE) {
+    const frame = samples.slice(start, start + SAMPLE_RATE);
+    const data = new AudioData({
+      format: 's16',
+      sampleRate: SAMPLE_RATE,
+      numberOfChannels: 1,
+      numberOfFrames: frame.length,
+      timestamp: Math.round(start / SAMPLE_RATE * 1e6),
+      data: frame,
+    });
+    encoder.encode(data);
+    data.close();
+  }
+  await encoder.flush();
+  encoder.close();
+  if (failure) throw failure;
+  return { packets, preSkip };
+};
+
+const encodeOggOpus = async (pcm: Uint8Array, title: string, chapters: AudioChapter[]): Promise<Blob> => {
+  const { packets, preSkip } = await encodeOpusPackets(pcm);
+  const serial = Math.floor(Math.random() * 2 ** 32);
+  const totalGranules = preSkip + Math.round(pcm.length / 2 * OPUS_GRANULE_RATE / SAMPLE_RATE);
+
+  const pages = [
+    oggPage(opusHead(preSkip), 0, serial, 0, OGG_BOS),
+    oggPage(opusTags(title, chapters), 0, serial, 1, 0),
+  ];
+  let granule = preSkip;
+  packets.forEach((packet, i) => {
+    granule += Math.round(packet.duration * OPUS_GRANULE_RATE / 1e6);
+    const isLast = i === packets.length - 1;
+    // The final granule position trims the padding of the last frame
+    pages.push(oggPage(packet.data, isLast ? Math.min(granule, totalGranules) : granule, serial, i + 2, isLast ? OGG_EOS : 0));
+  });
+  return new Blob(pages, { type: 'audio/ogg; codecs=opus' });
+};
+
+export const exportCourseAudio = async (title: string, tracks: ExportTrack[], format: AudioExportFormat): Promise<Blob> => {
+  const { pcm, chapters } = await joinTracks(tracks);
+  return format === 'wav' ? encodeWav(pcm, title, chapters) : encodeOggOpus(pcm, title, chapters);
+};
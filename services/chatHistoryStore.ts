@@ -0,0 +1,134 @@
+import { collection, doc, setDoc, getDocs, deleteDoc, query } from 'firebase/firestore';
+import { db } from './firebase';
+import { ChatMessage, ChatThread } from '../types';
+
+// Tutor threads are stored per course: in localStorage under each user (including
+// demo mode) and in the `users/{uid}/courses/{courseId}/threads` subcollection
+// when Firestore is available. Keeping them out of the course document stops long
+// conversations from counting against its size limit.
+
+const localKey = (userId: string, courseId: string) => `cognipath_chat_${userId}_${courseId}`;
+
+// Threads used to be kept under the course id alone; course ids are only ever in
+// their owner's library, so whoever loads the course first takes them over.
+const legacyLocalKey = (courseId: string) => `cognipath_chat_${courseId}`;
+
+const threadsPath = (userId: string, courseId: string) => `users/${userId}/courses/${courseId}/threads`;
+
+// Drop UI-only flags and undefined fields (Firestore rejects `undefined`).
+const toStoredMessage = (msg: ChatMessage): ChatMessage => ({
+  id: msg.id,
+  role: msg.role,
+  text: msg.text,
+  timestamp: msg.timestamp,
+  ...(msg.interrupted || msg.isStreaming ? { interrupted: true } : {}),
+});
+
+const toStoredThread = (thread: ChatThread): ChatThread => ({
+  id: thread.id,
+  title: thread.title,
+  messages: thread.messages.filter(m => !m.isThinking).map(toStoredMessage),
+  createdAt: thread.createdAt,
+  updatedAt: thread.updatedAt,
+  ...(thread.branchedFrom ? { branchedFrom: thread.branchedFrom } : {}),
+});
+
+const readLocal = (userId: string, courseId: string): ChatThread[] => {
+  try {
+    const saved = localStorage.getItem(localKey(userId, courseId)) ?? localStorage.getItem(legacyLocalKey(courseId));
+    return saved ? JSON.parse(saved) : [];
+  } catch (e) {
+    console.error("Failed to read chat threads from localStorage", e);
+    return [];
+  }
+};
+
+const writeLocal = (userId: string, courseId: string, threads: ChatThread[]) => {
+  try {
+    localStorage.setItem(localKey(userId, courseId), JSON.stringify(threads));
+    localStorage.removeItem(legacyLocalKey(courseId));
+  } catch (e) {
+    console.error("Failed to save chat threads to localStorage", e);
+  }
+};
+
+export const createThread = (title: string, messages: ChatMessage[] = []): ChatThread => ({
+  id: `thread-${Date.now()}-${Math.floor(Math.random() * 1000)}`,
+  title,
+  messages,
+  createdAt: Date.now(),
+  updatedAt: Date.now(),
+});
+
+// Copies a thread up to and including `messageId` into a new thread.
+export const branchThread = (source: ChatThread, messageId: string): ChatThread => {
+  const cutoff = source.messages.findIndex(m => m.id === messageId);
+  const messages = cutoff === -1 ? source.messages : source.messages.slice(0, cutoff + 1);
+  return {
+    ...createThread(`${source.title} (branch)`, messages.map(toStoredMessage)),
+    branchedFrom: { threadId: source.id, messageId },
+  };
+};
+
+// Loads local and remote threads, keeping the most recently updated copy of each.
+export const loadThreads = async (userId: string, courseId: string): Promise<ChatThread[]> => {
+  const byId = new Map<string, ChatThread>();
+  readLocal(userId, courseId).forEach(thread => byId.set(thread.id, thread));
+
+  if (db) {
+    try {
+      const snapshot = await getDocs(query(collection(db, threadsPath(userId, courseId))));
+      snapshot.forEach(d => {
+        const remote = d.data() as ChatThread;
+        const local = byId.get(remote.id);
+        if (!local || remote.updatedAt > local.updatedAt) byId.set(remote.id, remote);
+      });
+    } catch (error) {
+      console.error("Error fetching chat threads:", error);
+    }
+  }
+
+  const threads = Array.from(byId.values()).sort((a, b) => b.updatedAt - a.updatedAt);
+  writeLocal(userId, courseId, threads);
+  return threads;
+};
+
+export const saveThread = async (userId: string, courseId: string, thread: ChatThread) => {
+  const stored = toStoredThread(thread);
+  const others = readLocal(userId, courseId).filter(t => t.id !== stored.id);
+  writeLocal(userId, courseId, [stored, ...others]);
+
+  if (db) {
+    try {
+      await setDoc(doc(db, `${threadsPath(userId, courseId)}/${stored.id}`), stored);
+    } catch (error) {
+      console.error("Failed to save chat thread to Firestore", error);
+    }
+  }
+};
+
+export const deleteThread = async (userId: string, courseId: string, threadId: string) => {
+  writeLocal(userId, courseId, readLocal(userId, courseId).filter(t => t.id !== threadId));
+
+  if (db) {
+    try {
+      await deleteDoc(doc(db, `${threadsPath(userId, courseId)}/${threadId}`));
+    } catch (error) {
+      console.error("Failed to delete chat thread", error);
+    }
+  }
+};
+
+export const deleteAllThreads = async (userId: string, courseId: string) => {
+  localStorage.removeItem(localKey(userId, courseId));
+  localStorage.removeItem(legacyLocalKey(courseId));
+
+  if (db) {
+    try {
+      const snapshot = await getDocs(query(collection(db, threadsPath(userId, courseId))));
+      await Promise.all(snapshot.docs.map(d => deleteDoc(d.ref)));
+    } catch (error) {
+      console.error("Failed to delete chat threads", error);
+    }
+  }
+};
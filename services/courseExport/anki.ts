@@ -0,0 +1,28 @@
+import { SavedCourse } from "../../types";
+import { extractFlashcards } from "../flashcards";
+
+// Anki's plain-text import format: one note per line with tab-separated fields,
+// configured by `#key:value` header lines. Fields are HTML, so text is escaped
+// and line breaks become <br>. Imported with File > Import as Basic notes.
+
+const escapeField = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/\t/g, ' ')
+  .replace(/\r?\n/g, '<br>');
+
+const tag = (text: string) => text.trim().replace(/\s+/g, '_');
+
+// Key concepts and lesson examples, the same cards the in-app review uses.
+export const courseToAnkiDeck = (course: SavedCourse): string => {
+  const cards = extractFlashcards(course).filter(card => card.source !== 'reference');
+  const deck = `CogniPath::${course.curriculum.pathTitle.replace(/::/g, ':')}`;
+  const header = ['#separator:tab', '#html:true', '#notetype:Basic', `#deck:${deck}`, '#tags column:3'];
+  const notes = cards.map(card => [
+    escapeField(card.front),
+    escapeField(card.back),
+    `cognipath ${tag(course.subject)} ${card.source}`,
+  ].join('\t'));
+  return [...header, ...notes].join('\n') + '\n';
+};
@@ -0,0 +1,33 @@
+import { SavedCourse } from "../../types";
+import { downloadBlob, toFileName } from "../download";
+import { courseToMarkdown } from "./markdown";
+import { courseToAnkiDeck } from "./anki";
+import { printCourse } from "./pdf";
+
+export { courseToMarkdown } from "./markdown";
+export { courseToAnkiDeck } from "./anki";
+export { courseToPrintHtml, printCourse } from "./pdf";
+
+// Everything is generated in the browser from the saved course.
+
+export type CourseExportFormat = 'markdown' | 'pdf' | 'anki';
+
+export const COURSE_EXPORT_FORMATS: { format: CourseExportFormat; label: string; hint: string }[] = [
+  { format: 'markdown', label: 'Markdown', hint: 'Lessons, progress and notes' },
+  { format: 'pdf', label: 'PDF', hint: 'Print or save as PDF' },
+  { format: 'anki', label: 'Anki deck', hint: 'Key concepts and examples' },
+];
+
+export const exportCourse = async (course: SavedCourse, format: CourseExportFormat): Promise<void> => {
+  const name = toFileName(course.curriculum.pathTitle);
+  switch (format) {
+    case 'markdown':
+      downloadBlob(new Blob([courseToMarkdown(course)], { type: 'text/markdown' }), `${name}.md`);
+      return;
+    case 'anki':
+      downloadBlob(new Blob([courseToAnkiDeck(course)], { type: 'text/plain' }), `${name} (Anki).txt`);
+      return;
+    case 'pdf':
+      return printCourse(course);
+  }
+};
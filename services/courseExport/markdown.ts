@@ -0,0 +1,67 @@
+import { SavedCourse, SubLesson } from "../../types";
+import { REGENERATION_REASONS } from "../lessonVersions";
+
+const bullets = (items: string[]) => items.map(item => `- ${item}`).join('\n');
+
+const section = (heading: string, body: string) => body.trim() ? `${heading}\n\n${body.trim()}\n` : '';
+
+const percent = (score: number) => `${Math.round(score * 100)}%`;
+
+const lessonMarkdown = (lesson: SubLesson, index: number): string => {
+  const heading = `## ${index + 1}. ${lesson.title}`;
+  // Outlines of lessons that were never written only have a summary
+  if (lesson.status) return `${heading}\n\n${lesson.content}\n\n_This lesson hasn't been written yet._\n`;
+
+  return [
+    `${heading}\n\n_${lesson.content}_\n`,
+    section('### Concepts', lesson.generalConcepts),
+    section('### Example', lesson.example),
+    section('### Use cases', bullets(lesson.useCases)),
+    section('### Case studies', bullets(lesson.caseStudies)),
+    section('### Visual', lesson.visualDescription),
+    section('### Action item', lesson.actionItem),
+    section('### References', bullets(lesson.references)),
+  ].filter(Boolean).join('\n');
+};
+
+const progressMarkdown = (course: SavedCourse): string => {
+  const lessons = course.curriculum.subLessons;
+  const lines = lessons.map((lesson, i) => {
+    const done = course.completedSubLessons.includes(i);
+    const score = course.quizScores?.[i];
+    const feedback = course.subLessonFeedback[i];
+    const details = [
+      score && `quiz best ${percent(score.best)} over ${score.attempts} attempt${score.attempts === 1 ? '' : 's'}`,
+      feedback && `marked ${feedback}`,
+    ].filter(Boolean).join(', ');
+    return `- ${done ? '✓' : '○'} ${i + 1}. ${lesson.title}${details ? ` (${details})` : ''}`;
+  });
+  return `${course.completedSubLessons.length} of ${lessons.length} lessons completed.\n\n${lines.join('\n')}`;
+};
+
+// The learner's own words: what they asked for when regenerating a lesson.
+const notesMarkdown = (course: SavedCourse): string =>
+  course.curriculum.subLessons.flatMap((lesson, i) => (lesson.history || []).flatMap(version => {
+    if (!version.revision) return [];
+    const reason = REGENERATION_REASONS.find(r => r.reason === version.revision!.reason)?.label || version.revision.reason;
+    const date = new Date(version.replacedAt).toLocaleDateString();
+    return [`- **${i + 1}. ${lesson.title}** (${date}, ${reason})${version.revision.note ? `: ${version.revision.note}` : ''}`];
+  })).join('\n');
+
+// Renders the whole course as one Markdown document, followed by the learner's progress.
+export const courseToMarkdown = (course: SavedCourse): string => {
+  const { curriculum } = course;
+  const { caseStudy } = curriculum;
+  return [
+    `# ${curriculum.pathTitle}\n\n${course.subject} · ${course.pillar.title} · ${course.path.difficulty} · ${course.path.estimatedTime}\n`,
+    section('## Introduction', curriculum.introduction),
+    section('## Objectives', bullets(curriculum.objectives)),
+    section('## Key concepts', bullets(curriculum.keyConcepts)),
+    section('## Real-world use cases', bullets(curriculum.realWorldUseCases)),
+    section(`## Case study: ${caseStudy.title}`, `${caseStudy.scenario}\n\n**Outcome:** ${caseStudy.outcome}`),
+    ...curriculum.subLessons.map(lessonMarkdown),
+    section('## Further resources', bullets(curriculum.resources)),
+    section('## My progress', progressMarkdown(course)),
+    section('## My notes', notesMarkdown(course)),
+  ].filter(Boolean).join('\n');
+};
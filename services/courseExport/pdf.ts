@@ -0,0 +1,51 @@
+import { createElement } from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import ReactMarkdown from "react-markdown";
+import { SavedCourse } from "../../types";
+import { courseToMarkdown } from "./markdown";
+
+// There's no PDF library in the bundle: the Markdown export is rendered into a
+// print-styled page and handed to the browser's print dialog, where "Save as PDF"
+// produces the file.
+
+const PRINT_STYLES = `
+  @page { margin: 2cm; }
+  body { font-family: Georgia, 'Times New Roman', serif; color: #111; line-height: 1.5; font-size: 11pt; }
+  h1 { font-size: 24pt; margin-bottom: 4pt; }
+  h1 + p { color: #555; margin-top: 0; }
+  h2 { font-size: 16pt; margin-top: 24pt; border-bottom: 1px solid #ccc; padding-bottom: 4pt; break-after: avoid; }
+  h3 { font-size: 12pt; margin-top: 14pt; break-after: avoid; }
+  li { margin-bottom: 2pt; }
+  pre, code { font-family: Menlo, Consolas, monospace; font-size: 9pt; }
+  pre { background: #f5f5f5; padding: 8pt; white-space: pre-wrap; break-inside: avoid; }
+`;
+
+const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export const courseToPrintHtml = (course: SavedCourse): string => {
+  const body = renderToStaticMarkup(createElement(ReactMarkdown, null, courseToMarkdown(course)));
+  return `<!DOCTYPE html><html><head><meta charset="UTF-8"><title>${escapeHtml(course.curriculum.pathTitle)}</title><style>${PRINT_STYLES}</style></head><body>${body}</body></html>`;
+};
+
+// Prints from a hidden frame so no pop-up window is needed.
+export const printCourse = (course: SavedCourse): Promise<void> => new Promise((resolve, reject) => {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.onload = () => {
+    const view = frame.contentWindow;
+    if (!view) {
+      frame.remove();
+      reject(new Error("Couldn't open the print view"));
+      return;
+    }
+    view.addEventListener('afterprint', () => frame.remove());
+    view.focus();
+    view.print();
+    resolve();
+  };
+  frame.srcdoc = courseToPrintHtml(course);
+  document.body.appendChild(frame);
+});
@@ -0,0 +1,34 @@
+import { Firestore, collection, doc, setDoc, getDoc, getDocs, deleteDoc, query } from 'firebase/firestore';
+import { SavedCourse } from "../../types";
+import { CourseRepository } from "./types";
+
+// Courses live at `users/{uid}/courses/{courseId}`.
+export const createFirestoreCourseRepository = (db: Firestore): CourseRepository => {
+  const courseRef = (userId: string, courseId: string) => doc(db, `users/${userId}/courses/${courseId}`);
+
+  return {
+    name: 'firestore',
+
+    async list(userId) {
+      const snapshot = await getDocs(query(collection(db, `users/${userId}/courses`)));
+      return snapshot.docs.map(d => d.data() as SavedCourse);
+    },
+
+    async get(userId, courseId) {
+      const snapshot = await getDoc(courseRef(userId, courseId));
+      return snapshot.exists() ? snapshot.data() as SavedCourse : null;
+    },
+
+    async save(userId, course) {
+      await setDoc(courseRef(userId, course.id), course);
+    },
+
+    async update(userId, courseId, fields) {
+      await setDoc(courseRef(userId, courseId), fields, { merge: true });
+    },
+
+    async remove(userId, courseId) {
+      await deleteDoc(courseRef(userId, courseId));
+    },
+  };
+};
@@ -0,0 +1,44 @@
+import { db } from "../firebase";
+import { CourseRepository } from "./types";
+import { createFirestoreCourseRepository } from "./firestore";
+import { createIndexedDbCourseRepository, isIndexedDbAvailable } from "./indexedDb";
+import { createMemoryCourseRepository } from "./memory";
+import { createIndexedDbOutbox, createMemoryOutbox } from "./outbox";
+import { createOfflineFirstCourseRepository } from "./offlineFirst";
+
+export * from "./types";
+export { isSyncingRepository } from "./offlineFirst";
+export type { SyncState, SyncStatus, SyncingCourseRepository } from "./offlineFirst";
+export { mergeCourses, stampProgressChanges } from "./merge";
+export { createFirestoreCourseRepository } from "./firestore";
+export { createIndexedDbCourseRepository } from "./indexedDb";
+export { createMemoryCourseRepository } from "./memory";
+
+// The best local store the browser offers, fronting Firestore when Firebase is configured.
+const createRepository = (): CourseRepository => {
+  const hasIndexedDb = isIndexedDbAvailable();
+  if (!hasIndexedDb) {
+    console.warn("IndexedDB unavailable. Unsynced courses will only be kept until the page is closed.");
+  }
+  const local = hasIndexedDb ? createIndexedDbCourseRepository() : createMemoryCourseRepository();
+  if (!db) return local;
+  return createOfflineFirstCourseRepository(
+    local,
+    createFirestoreCourseRepository(db),
+    hasIndexedDb ? createIndexedDbOutbox() : createMemoryOutbox()
+  );
+};
+
+let activeRepository: CourseRepository | null = null;
+
+export const getCourseRepository = (): CourseRepository => {
+  if (!activeRepository) {
+    activeRepository = createRepository();
+  }
+  return activeRepository;
+};
+
+// Swap the repository at runtime, e.g. to use the in-memory store in tests.
+export const setCourseRepository = (repository: CourseRepository) => {
+  activeRepository = repository;
+};
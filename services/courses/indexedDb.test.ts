@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { makeCourse } from './testFixtures';
+
+// Each test gets an empty database and a fresh module, since the connection is shared
+const loadModule = () => import('./indexedDb');
+
+const openVersion1 = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open('cognipath', 1);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore('courses', { keyPath: 'key' }).createIndex('userId', 'userId');
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+describe('IndexedDB course storage', () => {
+  beforeEach(() => {
+    vi.stubGlobal('indexedDB', new IDBFactory());
+    vi.resetModules();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('adds the outbox and asset stores to a version 1 database, keeping its courses', async () => {
+    const legacy = await openVersion1();
+    await new Promise<void>((resolve, reject) => {
+      const request = legacy.transaction('courses', 'readwrite').objectStore('courses')
+        .put({ key: 'ada/course-1', userId: 'ada', course: makeCourse() });
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+    legacy.close();
+
+    const { openDatabase, createIndexedDbCourseRepository, OUTBOX_STORE, ASSET_STORE } = await loadModule();
+    const db = await openDatabase();
+
+    expect(db.version).toBe(3);
+    expect(Array.from(db.objectStoreNames).sort()).toEqual([ASSET_STORE, 'courses', OUTBOX_STORE].sort());
+    expect((await createIndexedDbCourseRepository().list('ada')).map(c => c.id)).toEqual(['course-1']);
+  });
+
+  it('saves, updates and removes courses per user', async () => {
+    const { createIndexedDbCourseRepository } = await loadModule();
+    const repository = createIndexedDbCourseRepository();
+    await repository.save('ada', makeCourse());
+    await repository.save('bob', makeCourse({ id: 'course-2' }));
+    await repository.update('ada', 'course-1', { completedSubLessons: [1] });
+
+    expect(await repository.get('ada', 'course-1')).toMatchObject({ completedSubLessons: [1], subject: 'Chemistry' });
+    expect((await repository.list('bob')).map(c => c.id)).toEqual(['course-2']);
+
+    await repository.remove('ada', 'course-1');
+    expect(await repository.list('ada')).toEqual([]);
+  });
+
+  it('keeps outbox entries in the order they were queued', async () => {
+    const { createIndexedDbOutbox } = await import('./outbox');
+    const outbox = createIndexedDbOutbox();
+    await outbox.add({ userId: 'ada', courseId: 'a', op: 'save', queuedAt: 1 });
+    await outbox.add({ userId: 'ada', courseId: 'b', op: 'delete', queuedAt: 2 });
+
+    const entries = await outbox.list('ada');
+    expect(entries.map(e => e.courseId)).toEqual(['a', 'b']);
+
+    await outbox.remove([entries[0].id!]);
+    expect((await outbox.list('ada')).map(e => e.courseId)).toEqual(['b']);
+  });
+});
@@ -0,0 +1,99 @@
+import { SavedCourse } from "../../types";
+import { CourseRepository } from "./types";
+
+// Browser-local persistence for demo mode (mock auth) and for running without
+// Firebase config. Courses are far too large for localStorage once they carry
+// generated lessons and audio, which is why this is not a localStorage store.
+
+const DB_NAME = 'cognipath';
+const DB_VERSION = 3;
+const STORE = 'courses';
+export const OUTBOX_STORE = 'outbox';
+export const ASSET_STORE = 'assets';
+
+interface CourseRecord {
+  key: string; // `${userId}/${courseId}`
+  userId: string;
+  course: SavedCourse;
+}
+
+const recordKey = (userId: string, courseId: string) => `${userId}/${courseId}`;
+
+export const toPromise = <T,>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// One shared connection for the course store, the sync outbox and the asset cache.
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          db.createObjectStore(STORE, { keyPath: 'key' }).createIndex('userId', 'userId');
+        }
+        if (event.oldVersion < 2) {
+          db.createObjectStore(OUTBOX_STORE, { keyPath: 'id', autoIncrement: true }).createIndex('userId', 'userId');
+        }
+        if (event.oldVersion < 3) {
+          db.createObjectStore(ASSET_STORE, { keyPath: 'key' }).createIndex('userId', 'userId');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+export const isIndexedDbAvailable = (): boolean => {
+  try {
+    return typeof indexedDB !== 'undefined';
+  } catch {
+    return false;
+  }
+};
+
+export const createIndexedDbCourseRepository = (): CourseRepository => {
+  const storeFor = async (mode: IDBTransactionMode) => {
+    const db = await openDatabase();
+    return db.transaction(STORE, mode).objectStore(STORE);
+  };
+
+  const readCourse = async (userId: string, courseId: string): Promise<SavedCourse | null> => {
+    const record = await toPromise<CourseRecord | undefined>((await storeFor('readonly')).get(recordKey(userId, courseId)));
+    return record ? record.course : null;
+  };
+
+  const writeCourse = async (userId: string, course: SavedCourse) => {
+    const record: CourseRecord = { key: recordKey(userId, course.id), userId, course };
+    await toPromise((await storeFor('readwrite')).put(record));
+  };
+
+  return {
+    name: 'indexeddb',
+
+    async list(userId) {
+      const store = await storeFor('readonly');
+      const records = await toPromise<CourseRecord[]>(store.index('userId').getAll(userId));
+      return records.map(record => record.course);
+    },
+
+    get: readCourse,
+
+    save: writeCourse,
+
+    async update(userId, courseId, fields) {
+      const existing = await readCourse(userId, courseId);
+      await writeCourse(userId, { ...existing, ...fields, id: courseId } as SavedCourse);
+    },
+
+    async remove(userId, courseId) {
+      await toPromise((await storeFor('readwrite')).delete(recordKey(userId, courseId)));
+    },
+  };
+};
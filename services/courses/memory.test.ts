@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { createMemoryCourseRepository } from './memory';
+import { createMemoryOutbox } from './outbox';
+import { makeCourse } from './testFixtures';
+
+describe('createMemoryCourseRepository', () => {
+  it('keeps each user\'s library apart', async () => {
+    const repository = createMemoryCourseRepository();
+    await repository.save('ada', makeCourse({ id: 'a' }));
+    await repository.save('bob', makeCourse({ id: 'b' }));
+
+    expect((await repository.list('ada')).map(c => c.id)).toEqual(['a']);
+    expect(await repository.get('bob', 'a')).toBeNull();
+  });
+
+  it('merges updates into the stored course', async () => {
+    const repository = createMemoryCourseRepository();
+    await repository.save('ada', makeCourse({ id: 'a', completedSubLessons: [0] }));
+    await repository.update('ada', 'a', { requireMastery: true });
+
+    expect(await repository.get('ada', 'a')).toMatchObject({ completedSubLessons: [0], requireMastery: true });
+  });
+
+  it('removes a course', async () => {
+    const repository = createMemoryCourseRepository();
+    await repository.save('ada', makeCourse({ id: 'a' }));
+    await repository.remove('ada', 'a');
+
+    expect(await repository.list('ada')).toEqual([]);
+  });
+});
+
+describe('createMemoryOutbox', () => {
+  it('lists a user\'s entries oldest first and removes them by id', async () => {
+    const outbox = createMemoryOutbox();
+    await outbox.add({ userId: 'ada', courseId: 'a', op: 'save', queuedAt: 1 });
+    await outbox.add({ userId: 'bob', courseId: 'b', op: 'save', queuedAt: 2 });
+    await outbox.add({ userId: 'ada', courseId: 'a', op: 'delete', queuedAt: 3 });
+
+    const entries = await outbox.list('ada');
+    expect(entries.map(e => e.op)).toEqual(['save', 'delete']);
+
+    await outbox.remove([entries[0].id!]);
+    expect((await outbox.list('ada')).map(e => e.op)).toEqual(['delete']);
+    expect(await outbox.list('bob')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,38 @@
+import { SavedCourse } from "../../types";
+import { CourseRepository } from "./types";
+
+// Keeps courses for the lifetime of the page. Used when neither Firestore nor
+// IndexedDB is available, and as a fast fake in tests.
+export const createMemoryCourseRepository = (): CourseRepository => {
+  const users = new Map<string, Map<string, SavedCourse>>();
+
+  const coursesOf = (userId: string) => {
+    if (!users.has(userId)) users.set(userId, new Map());
+    return users.get(userId)!;
+  };
+
+  return {
+    name: 'memory',
+
+    async list(userId) {
+      return Array.from(coursesOf(userId).values());
+    },
+
+    async get(userId, courseId) {
+      return coursesOf(userId).get(courseId) || null;
+    },
+
+    async save(userId, course) {
+      coursesOf(userId).set(course.id, course);
+    },
+
+    async update(userId, courseId, fields) {
+      const courses = coursesOf(userId);
+      courses.set(courseId, { ...courses.get(courseId), ...fields } as SavedCourse);
+    },
+
+    async remove(userId, courseId) {
+      coursesOf(userId).delete(courseId);
+    },
+  };
+};
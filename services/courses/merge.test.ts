@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { mergeCourses, stampProgressChanges } from './merge';
+import { makeCourse } from './testFixtures';
+
+describe('mergeCourses', () => {
+  it('keeps a lesson unchecked on one device', () => {
+    const stale = makeCourse({ completedSubLessons: [0, 1], lastAccessed: 10 });
+    const unchecked = makeCourse({
+      completedSubLessons: [0],
+      progressChangedAt: stampProgressChanges(stale, { completedSubLessons: [0], subLessonFeedback: {} }, 20),
+      lastAccessed: 5,
+    });
+
+    const merged = mergeCourses(stale, unchecked);
+
+    expect(merged.completedSubLessons).toEqual([0]);
+    expect(merged.progressChangedAt).toEqual({ 'completed:1': 20 });
+  });
+
+  it('keeps feedback cleared on one device', () => {
+    const stale = makeCourse({ subLessonFeedback: { 0: 'helpful', 2: 'unhelpful' }, lastAccessed: 10 });
+    const cleared = makeCourse({
+      subLessonFeedback: { 0: 'helpful' },
+      progressChangedAt: stampProgressChanges(stale, { completedSubLessons: [], subLessonFeedback: { 0: 'helpful' } }, 20),
+      lastAccessed: 20,
+    });
+
+    expect(mergeCourses(cleared, stale).subLessonFeedback).toEqual({ 0: 'helpful' });
+    expect(mergeCourses(stale, cleared).subLessonFeedback).toEqual({ 0: 'helpful' });
+  });
+
+  it('lets a later completion win over an earlier removal', () => {
+    const removed = makeCourse({ completedSubLessons: [], progressChangedAt: { 'completed:1': 10 }, lastAccessed: 30 });
+    const completed = makeCourse({ completedSubLessons: [1], progressChangedAt: { 'completed:1': 20 }, lastAccessed: 20 });
+
+    expect(mergeCourses(removed, completed).completedSubLessons).toEqual([1]);
+  });
+
+  it('combines progress saved without change times', () => {
+    const a = makeCourse({ completedSubLessons: [0], subLessonFeedback: { 0: 'helpful' }, lastAccessed: 10 });
+    const b = makeCourse({ completedSubLessons: [2], subLessonFeedback: { 0: 'unhelpful', 2: 'helpful' }, lastAccessed: 5 });
+
+    const merged = mergeCourses(a, b);
+
+    expect(merged.completedSubLessons).toEqual([0, 2]);
+    expect(merged.subLessonFeedback).toEqual({ 0: 'helpful', 2: 'helpful' });
+    expect(merged.progressChangedAt).toBeUndefined();
+  });
+});
@@ -0,0 +1,133 @@
+import { Curriculum, LessonScore, SavedCourse, SubLesson } from "../../types";
+
+// Field-level conflict resolution for a course edited on two devices. Progress
+// is resolved lesson by lesson so nothing a learner did on either side is lost;
+// everything else is taken from whichever copy was touched most recently.
+
+const mergeScores = (a: LessonScore | undefined, b: LessonScore | undefined): LessonScore | undefined => {
+  if (!a || !b) return a || b;
+  const newer = a.updatedAt >= b.updatedAt ? a : b;
+  return {
+    best: Math.max(a.best, b.best),
+    last: newer.last,
+    attempts: Math.max(a.attempts, b.attempts),
+    updatedAt: newer.updatedAt,
+  };
+};
+
+const mergeRecords = <T,>(
+  newer: Record<number, T> = {},
+  older: Record<number, T> = {},
+  combine: (n: T | undefined, o: T | undefined) => T | undefined = (n, o) => n ?? o
+): Record<number, T> => {
+  const keys = new Set([...Object.keys(newer), ...Object.keys(older)].map(Number));
+  const merged: Record<number, T> = {};
+  keys.forEach(key => {
+    const value = combine(newer[key], older[key]);
+    if (value !== undefined) merged[key] = value;
+  });
+  return merged;
+};
+
+type Feedback = SavedCourse['subLessonFeedback'][number];
+
+const completedKey = (index: number) => `completed:${index}`;
+const feedbackKey = (index: number) => `feedback:${index}`;
+const changedAt = (course: SavedCourse, key: string) => course.progressChangedAt?.[key] ?? 0;
+
+// Records which lessons' completion or feedback differ between two versions of a
+// course, including ones that were removed.
+export const stampProgressChanges = (
+  before: Pick<SavedCourse, 'completedSubLessons' | 'subLessonFeedback' | 'progressChangedAt'>,
+  after: Pick<SavedCourse, 'completedSubLessons' | 'subLessonFeedback'>,
+  now = Date.now()
+): Record<string, number> => {
+  const stamps = { ...before.progressChangedAt };
+  const completed = new Set([...before.completedSubLessons, ...after.completedSubLessons]);
+  completed.forEach(index => {
+    if (before.completedSubLessons.includes(index) !== after.completedSubLessons.includes(index)) stamps[completedKey(index)] = now;
+  });
+  const rated = new Set([...Object.keys(before.subLessonFeedback), ...Object.keys(after.subLessonFeedback)].map(Number));
+  rated.forEach(index => {
+    if (before.subLessonFeedback[index] !== after.subLessonFeedback[index]) stamps[feedbackKey(index)] = now;
+  });
+  return stamps;
+};
+
+// Each lesson's completion and feedback come from whichever copy changed it last,
+// so a lesson unchecked or a rating cleared on one device stays that way. Entries
+// without a change time (saved before they were recorded) are kept if either copy has them.
+const mergeProgress = (newer: SavedCourse, older: SavedCourse) => {
+  const completed = new Set<number>();
+  const feedback: Record<number, Feedback> = {};
+  const stamps: Record<string, number> = { ...older.progressChangedAt };
+  Object.entries(newer.progressChangedAt || {}).forEach(([key, time]) => { stamps[key] = Math.max(time, stamps[key] ?? 0); });
+
+  // Which copy decides the entry; null when neither has recorded a change
+  const decider = (key: string): SavedCourse | null => {
+    const n = changedAt(newer, key);
+    const o = changedAt(older, key);
+    if (n === 0 && o === 0) return null;
+    return n >= o ? newer : older;
+  };
+
+  new Set([...newer.completedSubLessons, ...older.completedSubLessons]).forEach(index => {
+    const source = decider(completedKey(index));
+    const isCompleted = source
+      ? source.completedSubLessons.includes(index)
+      : newer.completedSubLessons.includes(index) || older.completedSubLessons.includes(index);
+    if (isCompleted) completed.add(index);
+  });
+
+  new Set([...Object.keys(newer.subLessonFeedback), ...Object.keys(older.subLessonFeedback)].map(Number)).forEach(index => {
+    const source = decider(feedbackKey(index));
+    const value = source ? source.subLessonFeedback[index] : newer.subLessonFeedback[index] ?? older.subLessonFeedback[index];
+    if (value) feedback[index] = value;
+  });
+
+  return {
+    completedSubLessons: Array.from(completed).sort((x, y) => x - y),
+    subLessonFeedback: feedback,
+    ...(Object.keys(stamps).length > 0 ? { progressChangedAt: stamps } : {}),
+  };
+};
+
+// A written lesson beats a pending or failed stub; otherwise the newer copy wins,
+// keeping a quiz or narration generated on the other device for the same lesson.
+const mergeLesson = (newer: SubLesson, older: SubLesson | undefined): SubLesson => {
+  if (!older) return newer;
+  if (newer.status && !older.status) return older;
+  const sameLesson = newer.generalConcepts === older.generalConcepts;
+  return {
+    ...newer,
+    ...(!newer.quiz && older.quiz ? { quiz: older.quiz } : {}),
+    ...(!newer.narration && older.narration && sameLesson ? { narration: older.narration } : {}),
+  };
+};
+
+const mergeCurriculum = (newer: Curriculum, older: Curriculum): Curriculum => {
+  // Different lesson counts mean the course was restructured; don't splice them
+  if (newer.subLessons.length !== older.subLessons.length) return newer;
+  return {
+    ...newer,
+    subLessons: newer.subLessons.map((lesson, i) => mergeLesson(lesson, older.subLessons[i])),
+    ...(newer.audioAssetId || older.audioAssetId ? { audioAssetId: newer.audioAssetId || older.audioAssetId } : {}),
+    ...(newer.narration || older.narration ? { narration: newer.narration || older.narration } : {}),
+  };
+};
+
+export const mergeCourses = (a: SavedCourse, b: SavedCourse): SavedCourse => {
+  const [newer, older] = a.lastAccessed >= b.lastAccessed ? [a, b] : [b, a];
+  const positions = [a.listeningPosition, b.listeningPosition].filter(p => !!p).sort((x, y) => y!.updatedAt - x!.updatedAt);
+  const listeningPosition = positions[0];
+  return {
+    ...older,
+    ...newer,
+    ...mergeProgress(newer, older),
+    quizScores: mergeRecords(newer.quizScores, older.quizScores, mergeScores),
+    curriculum: mergeCurriculum(newer.curriculum, older.curriculum),
+    ...(listeningPosition ? { listeningPosition } : {}),
+    createdAt: Math.min(newer.createdAt, older.createdAt),
+    lastAccessed: newer.lastAccessed,
+  };
+};
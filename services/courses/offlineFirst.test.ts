@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SavedCourse } from '../../types';
+import { createMemoryCourseRepository } from './memory';
+import { createMemoryOutbox } from './outbox';
+import { createOfflineFirstCourseRepository } from './offlineFirst';
+import { makeCourse } from './testFixtures';
+
+// A remote store whose next `failingSaves` writes fail
+const createFlakyRemote = () => {
+  const store = createMemoryCourseRepository();
+  const remote = {
+    ...store,
+    failingSaves: 0,
+    async save(userId: string, course: SavedCourse) {
+      if (remote.failingSaves > 0) {
+        remote.failingSaves--;
+        throw new Error('Remote unavailable');
+      }
+      await store.save(userId, course);
+    },
+  };
+  return remote;
+};
+
+const setOnline = (onLine: boolean) => vi.stubGlobal('navigator', { onLine });
+
+describe('createOfflineFirstCourseRepository', () => {
+  let browser: EventTarget;
+
+  beforeEach(() => {
+    browser = new EventTarget();
+    vi.stubGlobal('window', browser);
+    setOnline(true);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  const setup = () => {
+    const local = createMemoryCourseRepository();
+    const remote = createFlakyRemote();
+    const outbox = createMemoryOutbox();
+    const repository = createOfflineFirstCourseRepository(local, remote, outbox);
+    return { local, remote, outbox, repository };
+  };
+
+  it('pushes a save straight away when online', async () => {
+    const { remote, outbox, repository } = setup();
+    await repository.save('ada', makeCourse());
+    await repository.flush('ada');
+
+    expect(await remote.get('ada', 'course-1')).not.toBeNull();
+    expect(await outbox.list('ada')).toEqual([]);
+    expect(repository.getSyncStatus()).toMatchObject({ state: 'synced', pending: 0 });
+  });
+
+  it('queues changes while offline and flushes them on reconnect', async () => {
+    const { remote, outbox, repository } = setup();
+    setOnline(false);
+    await repository.save('ada', makeCourse());
+    await repository.update('ada', 'course-1', { completedSubLessons: [0] });
+
+    expect(await remote.get('ada', 'course-1')).toBeNull();
+    expect(await outbox.list('ada')).toHaveLength(2);
+    expect(repository.getSyncStatus().state).toBe('offline');
+
+    setOnline(true);
+    browser.dispatchEvent(new Event('online'));
+    await repository.flush('ada');
+
+    expect(await remote.get('ada', 'course-1')).toMatchObject({ completedSubLessons: [0] });
+    expect(await outbox.list('ada')).toEqual([]);
+    expect(repository.getSyncStatus().state).toBe('synced');
+  });
+
+  it('keeps a failed push queued and retries it later', async () => {
+    vi.useFakeTimers();
+    const { remote, outbox, repository } = setup();
+    remote.failingSaves = 1;
+    await repository.save('ada', makeCourse());
+    await repository.flush('ada');
+
+    expect(repository.getSyncStatus().state).toBe('error');
+    expect(await outbox.list('ada')).toHaveLength(1);
+
+    await vi.advanceTimersByTimeAsync(30000);
+    await repository.flush('ada');
+
+    expect(await remote.get('ada', 'course-1')).not.toBeNull();
+    expect(await outbox.list('ada')).toEqual([]);
+  });
+
+  it('only replays the latest change to each course', async () => {
+    const { remote, repository } = setup();
+    const save = vi.spyOn(remote, 'save');
+    setOnline(false);
+    await repository.save('ada', makeCourse());
+    await repository.remove('ada', 'course-1');
+
+    setOnline(true);
+    await repository.flush('ada');
+
+    expect(save).not.toHaveBeenCalled();
+    expect(await remote.get('ada', 'course-1')).toBeNull();
+  });
+
+  it('merges with the copy another device pushed', async () => {
+    const { local, remote, repository } = setup();
+    await remote.save('ada', makeCourse({ completedSubLessons: [2], lastAccessed: 5 }));
+    await repository.save('ada', makeCourse({ completedSubLessons: [0], lastAccessed: 10 }));
+    await repository.flush('ada');
+
+    expect((await remote.get('ada', 'course-1'))?.completedSubLessons).toEqual([0, 2]);
+    expect((await local.get('ada', 'course-1'))?.completedSubLessons).toEqual([0, 2]);
+  });
+
+  it('drops cached courses deleted on another device when listing', async () => {
+    const { local, remote, repository } = setup();
+    await local.save('ada', makeCourse({ id: 'gone' }));
+    await remote.save('ada', makeCourse({ id: 'kept' }));
+
+    expect((await repository.list('ada')).map(c => c.id)).toEqual(['kept']);
+    expect((await local.list('ada')).map(c => c.id)).toEqual(['kept']);
+  });
+
+  it('serves the cache while offline', async () => {
+    const { local, repository } = setup();
+    await local.save('ada', makeCourse());
+    setOnline(false);
+
+    expect((await repository.list('ada')).map(c => c.id)).toEqual(['course-1']);
+    expect(repository.getSyncStatus().state).toBe('offline');
+  });
+});
@@ -0,0 +1,199 @@
+import { SavedCourse } from "../../types";
+import { CourseRepository } from "./types";
+import { Outbox, OutboxEntry } from "./outbox";
+import { mergeCourses } from "./merge";
+
+// Every change lands in the local repository first and is queued in a durable
+// outbox; the outbox is pushed to the remote repository whenever the browser is
+// online. Remote copies are merged field by field (see merge.ts) rather than
+// overwritten, so progress made on another device survives.
+
+export type SyncState = 'synced' | 'pending' | 'syncing' | 'offline' | 'error';
+
+export interface SyncStatus {
+  state: SyncState;
+  pending: number; // Queued changes not yet pushed
+  lastSyncedAt: number | null;
+}
+
+export interface SyncingCourseRepository extends CourseRepository {
+  getSyncStatus(): SyncStatus;
+  subscribe(listener: (status: SyncStatus) => void): () => void;
+  flush(userId: string): Promise<void>;
+}
+
+export const isSyncingRepository = (repository: CourseRepository): repository is SyncingCourseRepository =>
+  'subscribe' in repository;
+
+const REMOTE_TIMEOUT_MS = 15000;
+const RETRY_DELAY_MS = 30000;
+
+const isOnline = () => typeof navigator === 'undefined' || navigator.onLine !== false;
+
+// Firestore can wait a long time before giving up on a flaky connection.
+const withTimeout = <T,>(promise: Promise<T>, label: string): Promise<T> => new Promise((resolve, reject) => {
+  const timer = setTimeout(() => reject(new Error(`${label} timed out`)), REMOTE_TIMEOUT_MS);
+  promise.then(
+    value => { clearTimeout(timer); resolve(value); },
+    error => { clearTimeout(timer); reject(error); }
+  );
+});
+
+export const createOfflineFirstCourseRepository = (
+  local: CourseRepository,
+  remote: CourseRepository,
+  outbox: Outbox
+): SyncingCourseRepository => {
+  let status: SyncStatus = { state: 'synced', pending: 0, lastSyncedAt: null };
+  const listeners = new Set<(status: SyncStatus) => void>();
+  let flushing: Promise<void> | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let activeUserId: string | null = null;
+
+  const setStatus = (next: Partial<SyncStatus>) => {
+    status = { ...status, ...next };
+    listeners.forEach(listener => listener(status));
+  };
+
+  const scheduleRetry = (userId: string, delay: number) => {
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      flush(userId);
+    }, delay);
+  };
+
+  // Pushes the local copy, merged with whatever another device wrote meanwhile.
+  const pushCourse = async (userId: string, courseId: string) => {
+    const localCopy = await local.get(userId, courseId);
+    if (!localCopy) return;
+    const remoteCopy = await withTimeout(remote.get(userId, courseId), 'Fetching course');
+    const merged = remoteCopy ? mergeCourses(localCopy, remoteCopy) : localCopy;
+    await withTimeout(remote.save(userId, merged), 'Saving course');
+    await local.save(userId, merged);
+  };
+
+  const runFlush = async (userId: string) => {
+    if (!isOnline()) {
+      setStatus({ state: 'offline' });
+      return;
+    }
+
+    const entries = await outbox.list(userId);
+    if (entries.length === 0) {
+      setStatus({ state: 'synced', pending: 0 });
+      return;
+    }
+    setStatus({ state: 'syncing', pending: entries.length });
+
+    // Only the latest operation per course matters
+    const latest = new Map<string, OutboxEntry>();
+    entries.forEach(entry => latest.set(entry.courseId, entry));
+
+    for (const entry of latest.values()) {
+      if (entry.op === 'delete') {
+        await withTimeout(remote.remove(userId, entry.courseId), 'Deleting course');
+      } else {
+        await pushCourse(userId, entry.courseId);
+      }
+      await outbox.remove(entries.filter(e => e.courseId === entry.courseId).map(e => e.id!));
+    }
+
+    const remaining = (await outbox.list(userId)).length;
+    setStatus({ state: remaining > 0 ? 'pending' : 'synced', pending: remaining, lastSyncedAt: Date.now() });
+    // Changes queued while this flush was running
+    if (remaining > 0) scheduleRetry(userId, 0);
+  };
+
+  const flush = (userId: string): Promise<void> => {
+    activeUserId = userId;
+    if (!flushing) {
+      flushing = runFlush(userId)
+        .catch(error => {
+          console.error("Course sync failed:", error);
+          setStatus({ state: isOnline() ? 'error' : 'offline' });
+          scheduleRetry(userId, RETRY_DELAY_MS);
+        })
+        .finally(() => { flushing = null; });
+    }
+    return flushing;
+  };
+
+  const enqueue = async (userId: string, courseId: string, op: OutboxEntry['op']) => {
+    await outbox.add({ userId, courseId, op, queuedAt: Date.now() });
+    setStatus({ state: isOnline() ? 'pending' : 'offline', pending: (await outbox.list(userId)).length });
+    flush(userId);
+  };
+
+  if (typeof window !== 'undefined') {
+    window.addEventListener('online', () => { if (activeUserId) flush(activeUserId); });
+    window.addEventListener('offline', () => setStatus({ state: 'offline' }));
+  }
+
+  return {
+    name: remote.name,
+
+    getSyncStatus: () => status,
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+
+    flush,
+
+    // Serves the local cache when offline. Online, pending changes are pushed
+    // first and the remote library is then merged into the cache.
+    async list(userId) {
+      activeUserId = userId;
+      const localCourses = await local.list(userId);
+      if (!isOnline()) {
+        setStatus({ state: 'offline', pending: (await outbox.list(userId)).length });
+        return localCourses;
+      }
+
+      try {
+        await flush(userId);
+        const remoteCourses = await withTimeout(remote.list(userId), 'Fetching courses');
+        const queued = new Set((await outbox.list(userId)).map(e => e.courseId));
+        const localById = new Map(localCourses.map(c => [c.id, c]));
+        const remoteIds = new Set(remoteCourses.map(c => c.id));
+
+        const merged = remoteCourses.map(r => localById.has(r.id) ? mergeCourses(localById.get(r.id)!, r) : r);
+        // Local-only courses are either still queued or were deleted on another device
+        const unsent = localCourses.filter(c => !remoteIds.has(c.id) && queued.has(c.id));
+        const deletedElsewhere = localCourses.filter(c => !remoteIds.has(c.id) && !queued.has(c.id));
+
+        await Promise.all([
+          ...merged.map(c => local.save(userId, c)),
+          ...deletedElsewhere.map(c => local.remove(userId, c.id)),
+        ]);
+        return [...merged, ...unsent];
+      } catch (error) {
+        console.error("Using cached courses, remote library unavailable:", error);
+        return localCourses;
+      }
+    },
+
+    async get(userId, courseId) {
+      const cached = await local.get(userId, courseId);
+      if (cached || !isOnline()) return cached;
+      return withTimeout(remote.get(userId, courseId), 'Fetching course');
+    },
+
+    async save(userId, course: SavedCourse) {
+      await local.save(userId, course);
+      await enqueue(userId, course.id, 'save');
+    },
+
+    async update(userId, courseId, fields) {
+      await local.update(userId, courseId, fields);
+      await enqueue(userId, courseId, 'save');
+    },
+
+    async remove(userId, courseId) {
+      await local.remove(userId, courseId);
+      await enqueue(userId, courseId, 'delete');
+    },
+  };
+};
@@ -0,0 +1,62 @@
+import { OUTBOX_STORE, openDatabase, toPromise } from "./indexedDb";
+
+// Durable queue of course changes still to be pushed to the remote store. Only
+// the course id and operation are queued: the local copy is the source of truth
+// and is read again when the entry is flushed.
+
+export interface OutboxEntry {
+  id?: number; // Assigned by the store
+  userId: string;
+  courseId: string;
+  op: 'save' | 'delete';
+  queuedAt: number;
+}
+
+export interface Outbox {
+  add(entry: OutboxEntry): Promise<void>;
+  list(userId: string): Promise<OutboxEntry[]>; // Oldest first
+  remove(ids: number[]): Promise<void>;
+}
+
+export const createIndexedDbOutbox = (): Outbox => {
+  const storeFor = async (mode: IDBTransactionMode) => {
+    const db = await openDatabase();
+    return db.transaction(OUTBOX_STORE, mode).objectStore(OUTBOX_STORE);
+  };
+
+  return {
+    async add(entry) {
+      await toPromise((await storeFor('readwrite')).add(entry));
+    },
+
+    async list(userId) {
+      const store = await storeFor('readonly');
+      const entries = await toPromise<OutboxEntry[]>(store.index('userId').getAll(userId));
+      return entries.sort((a, b) => (a.id || 0) - (b.id || 0));
+    },
+
+    async remove(ids) {
+      const store = await storeFor('readwrite');
+      await Promise.all(ids.map(id => toPromise(store.delete(id))));
+    },
+  };
+};
+
+export const createMemoryOutbox = (): Outbox => {
+  let entries: OutboxEntry[] = [];
+  let nextId = 1;
+
+  return {
+    async add(entry) {
+      entries.push({ ...entry, id: nextId++ });
+    },
+
+    async list(userId) {
+      return entries.filter(e => e.userId === userId);
+    },
+
+    async remove(ids) {
+      entries = entries.filter(e => !ids.includes(e.id!));
+    },
+  };
+};
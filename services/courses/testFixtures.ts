@@ -0,0 +1,24 @@
+import { SavedCourse } from "../../types";
+
+// A minimal valid course for storage tests; override only what a test is about.
+export const makeCourse = (overrides: Partial<SavedCourse> = {}): SavedCourse => ({
+  id: 'course-1',
+  subject: 'Chemistry',
+  pillar: { id: 1, title: 'Bonding', description: '' },
+  path: { id: 1, title: 'Foundations', description: '', difficulty: 'Beginner', estimatedTime: '1 week' },
+  curriculum: {
+    pathTitle: 'Foundations',
+    introduction: '',
+    objectives: [],
+    keyConcepts: [],
+    realWorldUseCases: [],
+    caseStudy: { title: '', scenario: '', outcome: '' },
+    subLessons: [],
+    resources: [],
+  },
+  completedSubLessons: [],
+  subLessonFeedback: {},
+  createdAt: 1,
+  lastAccessed: 1,
+  ...overrides,
+});
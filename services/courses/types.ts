@@ -0,0 +1,16 @@
+import { SavedCourse } from "../../types";
+
+export type CourseRepositoryName = 'firestore' | 'indexeddb' | 'memory';
+
+// Storage for a user's course library. Implementations reject on failure;
+// callers decide whether a failed write is worth surfacing.
+export interface CourseRepository {
+  name: CourseRepositoryName;
+  list(userId: string): Promise<SavedCourse[]>;
+  get(userId: string, courseId: string): Promise<SavedCourse | null>;
+  // Writes the whole course, replacing any stored copy
+  save(userId: string, course: SavedCourse): Promise<void>;
+  // Merges the given fields into a stored course, creating it if missing
+  update(userId: string, courseId: string, fields: Partial<SavedCourse>): Promise<void>;
+  remove(userId: string, courseId: string): Promise<void>;
+}
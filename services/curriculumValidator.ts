@@ -0,0 +1,171 @@
+import { Curriculum, SubLesson, CaseStudy } from "../types";
+
+// Runtime validation for model-generated curricula. The field tables below are
+// keyed by the `Curriculum` / `SubLesson` interfaces, so adding a field to the
+// types without describing it here is a compile error.
+
+type FieldKind = 'string' | 'stringArray';
+
+interface FieldRule {
+  kind: FieldKind;
+  // Required fields are sent back to the model for repair when missing;
+  // optional ones are filled with an empty default.
+  required: boolean;
+}
+
+type SubLessonField = Exclude<keyof SubLesson, 'status' | 'quiz' | 'history' | 'narration'>;
+
+const SUB_LESSON_FIELDS: { [K in SubLessonField]-?: FieldRule } = {
+  title: { kind: 'string', required: true },
+  content: { kind: 'string', required: true },
+  generalConcepts: { kind: 'string', required: true },
+  useCases: { kind: 'stringArray', required: false },
+  caseStudies: { kind: 'stringArray', required: false },
+  references: { kind: 'stringArray', required: false },
+  example: { kind: 'string', required: true },
+  visualDescription: { kind: 'string', required: false },
+  actionItem: { kind: 'string', required: true },
+};
+
+// Outlines only carry the title and summary of each lesson; the rest is filled later.
+const OUTLINE_SUB_LESSON_FIELDS: { [K in SubLessonField]-?: FieldRule } = {
+  ...SUB_LESSON_FIELDS,
+  generalConcepts: { kind: 'string', required: false },
+  example: { kind: 'string', required: false },
+  actionItem: { kind: 'string', required: false },
+};
+
+export type ValidationMode = 'full' | 'outline';
+
+const CASE_STUDY_FIELDS: { [K in keyof CaseStudy]-?: FieldRule } = {
+  title: { kind: 'string', required: true },
+  scenario: { kind: 'string', required: true },
+  outcome: { kind: 'string', required: true },
+};
+
+type ScalarCurriculumField = Exclude<keyof Curriculum, 'caseStudy' | 'subLessons' | 'narration' | 'audioAssetId' | 'audioData' | 'pathTitle'>;
+
+const CURRICULUM_FIELDS: { [K in ScalarCurriculumField]-?: FieldRule } = {
+  introduction: { kind: 'string', required: true },
+  objectives: { kind: 'stringArray', required: true },
+  keyConcepts: { kind: 'stringArray', required: true },
+  realWorldUseCases: { kind: 'stringArray', required: false },
+  resources: { kind: 'stringArray', required: false },
+};
+
+export type RepairableField = Exclude<keyof Curriculum, 'narration' | 'audioAssetId' | 'audioData' | 'pathTitle'>;
+
+export interface ValidationIssue {
+  field: RepairableField;
+  subLessonIndex?: number;
+  path: string;
+  message: string;
+}
+
+export class CurriculumValidationError extends Error {
+  readonly issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[]) {
+    super(`The generated curriculum was incomplete and could not be repaired (${issues.map(issue => issue.path).join(', ')}). Please try again.`);
+    this.name = 'CurriculumValidationError';
+    this.issues = issues;
+  }
+}
+
+export interface CurriculumValidationResult {
+  // Normalized curriculum with defaults filled in. Only safe to use when `issues` is empty.
+  curriculum: Curriculum;
+  issues: ValidationIssue[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readString = (value: unknown): string | undefined => {
+  if (typeof value === 'string' && value.trim()) return value;
+  if (typeof value === 'number') return String(value);
+  return undefined;
+};
+
+const readStringArray = (value: unknown): string[] | undefined => {
+  if (typeof value === 'string' && value.trim()) return [value];
+  if (!Array.isArray(value)) return undefined;
+  const items = value.map(readString).filter((item): item is string => item !== undefined);
+  return items.length > 0 ? items : undefined;
+};
+
+// Reads every field described by `rules` from `source`, recording an issue for each
+// missing required field and an empty default for each missing optional one.
+const readFields = <T>(
+  source: Record<string, unknown>,
+  rules: { [K in keyof T]-?: FieldRule },
+  reportMissing: (key: string) => void
+): T => {
+  const result: Record<string, unknown> = {};
+  (Object.keys(rules) as (keyof T & string)[]).forEach(key => {
+    const rule = rules[key];
+    const value = rule.kind === 'string' ? readString(source[key]) : readStringArray(source[key]);
+    if (value === undefined) {
+      if (rule.required) reportMissing(key);
+      result[key] = rule.kind === 'string' ? '' : [];
+    } else {
+      result[key] = value;
+    }
+  });
+  return result as T;
+};
+
+export const validateSubLesson = (
+  raw: unknown,
+  index: number,
+  issues: ValidationIssue[],
+  mode: ValidationMode = 'full'
+): SubLesson => {
+  const source = isRecord(raw) ? raw : {};
+  const lesson: SubLesson = readFields<Pick<SubLesson, SubLessonField>>(source, mode === 'outline' ? OUTLINE_SUB_LESSON_FIELDS : SUB_LESSON_FIELDS, key => issues.push({
+    field: 'subLessons',
+    subLessonIndex: index,
+    path: `subLessons[${index}].${key}`,
+    message: 'is missing or empty',
+  }));
+  if (mode === 'outline') lesson.status = 'pending';
+  return lesson;
+};
+
+export const validateCurriculum = (raw: unknown, fallbackTitle: string, mode: ValidationMode = 'full'): CurriculumValidationResult => {
+  const source = isRecord(raw) ? raw : {};
+  const issues: ValidationIssue[] = [];
+
+  const scalars = readFields<Pick<Curriculum, ScalarCurriculumField>>(source, CURRICULUM_FIELDS, key => issues.push({
+    field: key as ScalarCurriculumField,
+    path: key,
+    message: 'is missing or empty',
+  }));
+
+  const caseStudySource = isRecord(source.caseStudy) ? source.caseStudy : {};
+  const caseStudy = readFields<CaseStudy>(caseStudySource, CASE_STUDY_FIELDS, key => issues.push({
+    field: 'caseStudy',
+    path: `caseStudy.${key}`,
+    message: 'is missing or empty',
+  }));
+
+  let subLessons: SubLesson[] = [];
+  if (Array.isArray(source.subLessons) && source.subLessons.length > 0) {
+    subLessons = source.subLessons.map((lesson, index) => validateSubLesson(lesson, index, issues, mode));
+  } else {
+    issues.push({ field: 'subLessons', path: 'subLessons', message: 'must contain at least one lesson' });
+  }
+
+  const curriculum: Curriculum = {
+    pathTitle: readString(source.pathTitle) || fallbackTitle,
+    ...scalars,
+    caseStudy,
+    subLessons,
+  };
+  const audioAssetId = readString(source.audioAssetId);
+  if (audioAssetId) curriculum.audioAssetId = audioAssetId;
+  const audioData = readString(source.audioData);
+  if (audioData) curriculum.audioData = audioData;
+
+  return { curriculum, issues };
+};
@@ -1,24 +1,29 @@
-
 import { initializeApp } from 'firebase/app';
-import { getAuth, GoogleAuthProvider, signInWithPopup, signOut } from 'firebase/auth';
-import { getFirestore } from 'firebase/firestore';
+import {
+  getAuth, connectAuthEmulator, GoogleAuthProvider, EmailAuthProvider, AuthCredential, signInWithPopup, signInWithCredential,
+  signInWithEmailAndPassword, createUserWithEmailAndPassword, sendPasswordResetEmail, signInAnonymously, linkWithPopup,
+  linkWithCredential, updateProfile, onAuthStateChanged, signOut, User as FirebaseUser
+} from 'firebase/auth';
+import { getFirestore, connectFirestoreEmulator } from 'firebase/firestore';
+import { getStorage, connectStorageEmulator } from 'firebase/storage';
 
-// Safe access to process.env
-const getEnv = (key: string) => {
+// Vite's `define` only replaces literal `process.env.NAME` expressions, so each
+// variable is read with its own; `process` itself doesn't exist in the browser.
+const readEnv = (read: () => string | undefined) => {
   try {
-    return process.env[key];
+    return read() || undefined;
   } catch {
     return undefined;
   }
 };
 
 const firebaseConfig = {
-  apiKey: getEnv('FIREBASE_API_KEY'),
-  authDomain: getEnv('FIREBASE_AUTH_DOMAIN'),
-  projectId: getEnv('FIREBASE_PROJECT_ID'),
-  storageBucket: getEnv('FIREBASE_STORAGE_BUCKET'),
-  messagingSenderId: getEnv('FIREBASE_MESSAGING_SENDER_ID'),
-  appId: getEnv('FIREBASE_APP_ID')
+  apiKey: readEnv(() => process.env.FIREBASE_API_KEY),
+  authDomain: readEnv(() => process.env.FIREBASE_AUTH_DOMAIN),
+  projectId: readEnv(() => process.env.FIREBASE_PROJECT_ID),
+  storageBucket: readEnv(() => process.env.FIREBASE_STORAGE_BUCKET),
+  messagingSenderId: readEnv(() => process.env.FIREBASE_MESSAGING_SENDER_ID),
+  appId: readEnv(() => process.env.FIREBASE_APP_ID)
 };
 
 // Check if config is actually set and valid
@@ -27,10 +32,18 @@ const isConfigValid =
   firebaseConfig.apiKey !== "YOUR_API_KEY" && 
   !firebaseConfig.apiKey.startsWith("YOUR_");
 
+// `host:port` from an emulator variable, e.g. FIREBASE_AUTH_EMULATOR_HOST=localhost:9099
+const emulatorAddress = (value: string | undefined, defaultPort: number): [string, number] | null => {
+  if (!value) return null;
+  const [host, port] = value.split(':');
+  return [host, Number(port) || defaultPort];
+};
+
 let app;
 let auth: any = null;
 let db: any = null;
 let googleProvider: any = null;
+let storage: any = null;
 
 if (isConfigValid) {
   try {
@@ -38,6 +51,22 @@ if (isConfigValid) {
     auth = getAuth(app);
     db = getFirestore(app);
     googleProvider = new GoogleAuthProvider();
+    // Set when running `firebase emulators:start`; see firebase.json for the ports
+    const authEmulator = emulatorAddress(readEnv(() => process.env.FIREBASE_AUTH_EMULATOR_HOST), 9099);
+    if (authEmulator) {
+      connectAuthEmulator(auth, `http://${authEmulator[0]}:${authEmulator[1]}`, { disableWarnings: true });
+    }
+    const firestoreEmulator = emulatorAddress(readEnv(() => process.env.FIREBASE_FIRESTORE_EMULATOR_HOST), 8080);
+    if (firestoreEmulator) {
+      connectFirestoreEmulator(db, ...firestoreEmulator);
+    }
+    if (firebaseConfig.storageBucket) {
+      storage = getStorage(app);
+      const storageEmulator = emulatorAddress(readEnv(() => process.env.FIREBASE_STORAGE_EMULATOR_HOST), 9199);
+      if (storageEmulator) {
+        connectStorageEmulator(storage, ...storageEmulator);
+      }
+    }
   } catch (error) {
     console.warn("Firebase initialization failed:", error);
   }
@@ -45,37 +74,208 @@ if (isConfigValid) {
   console.warn("Firebase configuration missing or invalid. App will run in Demo/Mock mode.");
 }
 
-export { auth, db, googleProvider };
+export { auth, db, storage, googleProvider };
+
+// The signed-in account, the same shape in demo mode as with Firebase.
+export interface AuthAccount {
+  uid: string;
+  displayName: string | null;
+  email: string | null;
+  photoURL: string | null;
+  isAnonymous: boolean;
+}
+
+// Linking a guest to an account that already exists signs in to that account
+// instead; `switched` tells the caller the user id changed.
+export interface LinkResult {
+  account: AuthAccount;
+  switched: boolean;
+}
+
+const toAccount = (user: FirebaseUser): AuthAccount => ({
+  uid: user.uid,
+  displayName: user.displayName,
+  email: user.email,
+  photoURL: user.photoURL,
+  isAnonymous: user.isAnonymous,
+});
+
+const AUTH_ERROR_MESSAGES: Record<string, string> = {
+  'auth/invalid-credential': "That email and password don't match.",
+  'auth/wrong-password': "That email and password don't match.",
+  'auth/user-not-found': "There's no account with that email.",
+  'auth/invalid-email': "That email address isn't valid.",
+  'auth/email-already-in-use': "There's already an account with that email. Sign in instead.",
+  'auth/weak-password': "Use a password of at least 6 characters.",
+  'auth/missing-password': "Enter a password.",
+  'auth/popup-closed-by-user': "The sign-in window was closed before finishing.",
+  'auth/popup-blocked': "The browser blocked the sign-in window. Allow pop-ups and try again.",
+  'auth/too-many-requests': "Too many attempts. Wait a moment and try again.",
+  'auth/network-request-failed': "Couldn't reach the sign-in service. Check your connection.",
+  'auth/operation-not-allowed': "This sign-in method isn't enabled for this app.",
+};
+
+const errorCode = (error: unknown) => (error as { code?: string } | null)?.code;
+
+export const toAuthMessage = (error: unknown): string =>
+  AUTH_ERROR_MESSAGES[errorCode(error) || ''] || (error instanceof Error ? error.message : "Sign-in failed. Please try again.");
 
-export const signInWithGoogle = async () => {
+// --- Demo mode ---
+// Without Firebase the account is kept in localStorage, so a learner keeps the
+// same id (and the library stored under it) across visits. Passwords aren't checked.
+
+const DEMO_ACCOUNT_KEY = 'cognipath_demo_account';
+const demoListeners = new Set<(account: AuthAccount | null) => void>();
+
+const loadDemoAccount = (): AuthAccount | null => {
+  try {
+    const saved = localStorage.getItem(DEMO_ACCOUNT_KEY);
+    return saved ? JSON.parse(saved) : null;
+  } catch {
+    return null;
+  }
+};
+
+const setDemoAccount = (account: AuthAccount | null): AuthAccount | null => {
+  if (account) localStorage.setItem(DEMO_ACCOUNT_KEY, JSON.stringify(account));
+  else localStorage.removeItem(DEMO_ACCOUNT_KEY);
+  demoListeners.forEach(listener => listener(account));
+  return account;
+};
+
+const demoEmailAccount = (email: string, name?: string): AuthAccount => ({
+  uid: `demo-${email.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-')}`,
+  displayName: name || email.split('@')[0],
+  email: email.trim(),
+  photoURL: null,
+  isAnonymous: false,
+});
+
+const DEMO_GOOGLE_ACCOUNT: AuthAccount = {
+  uid: 'demo-student',
+  displayName: 'Demo Student',
+  email: 'student@cognipath.demo',
+  photoURL: null,
+  isAnonymous: false,
+};
+
+// Demo sign-ins resolve after a short pause, like a network round trip
+const demoSignIn = (account: AuthAccount) =>
+  new Promise<AuthAccount>(resolve => setTimeout(() => resolve(setDemoAccount(account)!), 800));
+
+// Demo ids come from the email, so linking always moves the guest to that account
+const demoLink = (account: AuthAccount): Promise<LinkResult> => {
+  const current = loadDemoAccount();
+  return demoSignIn(account).then(linked => ({ account: linked, switched: current?.uid !== linked.uid }));
+};
+
+// Adopts a user restored from a session saved before demo accounts were stored
+export const restoreDemoAccount = (account: AuthAccount) => {
+  if (!auth && !loadDemoAccount()) setDemoAccount(account);
+};
+
+// --- Sign in ---
+
+// Calls back with the current account straight away and whenever it changes.
+export const watchAuth = (callback: (account: AuthAccount | null) => void): (() => void) => {
+  if (auth) {
+    return onAuthStateChanged(auth, (user: FirebaseUser | null) => callback(user ? toAccount(user) : null));
+  }
+  demoListeners.add(callback);
+  callback(loadDemoAccount());
+  return () => { demoListeners.delete(callback); };
+};
+
+export const signInWithGoogle = async (): Promise<AuthAccount> => {
   if (auth && googleProvider) {
     try {
       const result = await signInWithPopup(auth, googleProvider);
-      return result.user;
+      return toAccount(result.user);
     } catch (error) {
       console.error("Error signing in with Google", error);
       throw error;
     }
-  } else {
-    // Mock Fallback for Demo Mode
-    console.log("Firebase not configured. Using Mock Auth.");
-    return new Promise((resolve) => {
-      setTimeout(() => {
-        resolve({
-          uid: 'mock-user-' + Math.floor(Math.random() * 1000),
-          displayName: 'Demo Student',
-          email: 'student@cognipath.demo',
-          photoURL: null, 
-        });
-      }, 800);
+  }
+  console.log("Firebase not configured. Using Mock Auth.");
+  return demoSignIn(DEMO_GOOGLE_ACCOUNT);
+};
+
+export const signInWithEmail = async (email: string, password: string): Promise<AuthAccount> => {
+  if (!auth) return demoSignIn(demoEmailAccount(email));
+  const result = await signInWithEmailAndPassword(auth, email.trim(), password);
+  return toAccount(result.user);
+};
+
+export const signUpWithEmail = async (email: string, password: string, name?: string): Promise<AuthAccount> => {
+  if (!auth) return demoSignIn(demoEmailAccount(email, name));
+  const result = await createUserWithEmailAndPassword(auth, email.trim(), password);
+  if (name) await updateProfile(result.user, { displayName: name });
+  return { ...toAccount(result.user), displayName: name || result.user.displayName };
+};
+
+export const sendPasswordReset = async (email: string) => {
+  if (!auth) throw new Error("Demo mode doesn't check passwords, so there's nothing to reset.");
+  await sendPasswordResetEmail(auth, email.trim());
+};
+
+// A guest session; its courses are kept when the guest later links an account
+export const signInAsGuest = async (): Promise<AuthAccount> => {
+  if (!auth) {
+    return demoSignIn({
+      uid: `demo-guest-${Date.now().toString(36)}`,
+      displayName: null,
+      email: null,
+      photoURL: null,
+      isAnonymous: true,
     });
   }
+  const result = await signInAnonymously(auth);
+  return toAccount(result.user);
+};
+
+// --- Account linking ---
+
+// Links a credential to the signed-in guest, keeping its user id. If the
+// credential already belongs to another account, signs in to that one instead.
+const linkOrSwitch = async (link: () => Promise<FirebaseUser>, existing: (error: unknown) => AuthCredential | null): Promise<LinkResult> => {
+  try {
+    return { account: toAccount(await link()), switched: false };
+  } catch (error) {
+    const code = errorCode(error);
+    const credential = code === 'auth/credential-already-in-use' || code === 'auth/email-already-in-use' ? existing(error) : null;
+    if (!credential) throw error;
+    const result = await signInWithCredential(auth, credential);
+    return { account: toAccount(result.user), switched: true };
+  }
+};
+
+export const linkGoogleAccount = async (): Promise<LinkResult> => {
+  if (!auth) return demoLink(DEMO_GOOGLE_ACCOUNT);
+  if (!auth.currentUser) throw new Error("Sign in before linking an account.");
+  return linkOrSwitch(
+    async () => (await linkWithPopup(auth.currentUser, googleProvider)).user,
+    error => GoogleAuthProvider.credentialFromError(error as any)
+  );
+};
+
+export const linkEmailAccount = async (email: string, password: string, name?: string): Promise<LinkResult> => {
+  if (!auth) return demoLink(demoEmailAccount(email, name));
+  if (!auth.currentUser) throw new Error("Sign in before linking an account.");
+  const credential = EmailAuthProvider.credential(email.trim(), password);
+  return linkOrSwitch(
+    async () => {
+      const { user } = await linkWithCredential(auth.currentUser, credential);
+      if (name) await updateProfile(user, { displayName: name });
+      return user;
+    },
+    () => credential
+  );
 };
 
 export const logoutUser = async () => {
   if (auth) {
     await signOut(auth);
   } else {
-    console.log("Mock logout");
+    setDemoAccount(null);
   }
 };
@@ -0,0 +1,103 @@
+import { CardReview, Flashcard, FlashcardSource, ReviewGrade, SavedCourse } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASINESS = 1.3;
+export const NEW_CARDS_PER_SESSION = 20;
+
+// SM-2 response quality for each button
+const GRADE_QUALITY: Record<ReviewGrade, number> = { again: 1, hard: 3, good: 4, easy: 5 };
+
+// Short, stable hash so a card keeps its review history as long as its text is unchanged.
+export const hashText = (text: string): string => {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+};
+
+const makeCard = (courseId: string, source: FlashcardSource, front: string, back: string): Flashcard => ({
+  id: `${courseId}_${source}_${hashText(front)}`,
+  courseId,
+  source,
+  front,
+  back,
+});
+
+// Builds cards from key concepts, lesson references and lesson examples.
+// Lessons that are still pending or failed have no content yet and are skipped.
+export const extractFlashcards = (course: SavedCourse): Flashcard[] => {
+  const { curriculum } = course;
+  const lessons = curriculum.subLessons.filter(l => !l.status);
+  const cards: Flashcard[] = [];
+
+  curriculum.keyConcepts.forEach(concept => {
+    const needle = concept.toLowerCase();
+    const lesson = lessons.find(l =>
+      `${l.title} ${l.content} ${l.generalConcepts}`.toLowerCase().includes(needle)
+    );
+    const back = lesson ? `${lesson.title}: ${lesson.content}` : curriculum.introduction;
+    cards.push(makeCard(course.id, 'concept', `Explain the key concept "${concept}" in ${curriculum.pathTitle}.`, back));
+  });
+
+  lessons.forEach(lesson => {
+    if (lesson.example) {
+      cards.push(makeCard(course.id, 'example', `Give a concrete example for "${lesson.title}".`, lesson.example));
+    }
+    if (lesson.references.length > 0) {
+      cards.push(makeCard(course.id, 'reference', `Where can you read more about "${lesson.title}"?`, lesson.references.join('\n')));
+    }
+  });
+
+  return cards;
+};
+
+// Applies one SM-2 step. A failed recall resets the repetition count but keeps the card's history.
+export const scheduleReview = (card: Flashcard, previous: CardReview | undefined, grade: ReviewGrade, now = Date.now()): CardReview => {
+  const quality = GRADE_QUALITY[grade];
+  const prev = previous || { easiness: 2.5, interval: 0, repetitions: 0, lapses: 0 };
+  const easiness = Math.max(
+    MIN_EASINESS,
+    prev.easiness + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  let repetitions: number;
+  let interval: number;
+  if (quality < 3) {
+    repetitions = 0;
+    interval = 1;
+  } else {
+    repetitions = prev.repetitions + 1;
+    interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(prev.interval * easiness);
+  }
+
+  return {
+    cardId: card.id,
+    courseId: card.courseId,
+    easiness,
+    interval,
+    repetitions,
+    lapses: prev.lapses + (quality < 3 ? 1 : 0),
+    due: now + interval * DAY_MS,
+    lastReviewedAt: now,
+  };
+};
+
+export const isDue = (review: CardReview | undefined, now = Date.now()): boolean =>
+  !review || review.due <= now;
+
+// Cards already in rotation that are due come first (most overdue first),
+// followed by a capped number of never-reviewed cards.
+export const buildReviewQueue = (
+  courses: SavedCourse[],
+  reviews: Record<string, CardReview>,
+  now = Date.now(),
+  newLimit = NEW_CARDS_PER_SESSION
+): Flashcard[] => {
+  const cards = courses.flatMap(extractFlashcards);
+  const due = cards
+    .filter(c => reviews[c.id] && isDue(reviews[c.id], now))
+    .sort((a, b) => reviews[a.id].due - reviews[b.id].due);
+  const fresh = cards.filter(c => !reviews[c.id]).slice(0, newLimit);
+  return [...due, ...fresh];
+};
@@ -1,17 +1,39 @@
 
-import { GoogleGenAI, Type, Schema, Chat, Modality } from "@google/genai";
-import { LearningPillar, LessonPath, Curriculum, ChatMessage } from "../types";
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-const MODEL_NAME = 'gemini-2.5-flash';
+import { Type, Schema } from "@google/genai";
+import {
+  LearningPillar, LessonPath, Curriculum, SubLesson, ChatMessage, PlacementQuestion, PlacementResult, LessonQuiz, QuizQuestion, LearnerProfile,
+  LessonRevision, RegenerationReason, SavedCourse, PodcastLine
+} from "../types";
+import { getProvider, LLMChat, LLMRequestError, SpeechRequest, withRequestPolicy, isCancellation } from "./llm";
+import { rankPathsByFit } from "./placement";
+import { Readiness } from "./recommender";
+import { renumberWithPrerequisites } from "./knowledgeGraph";
+import { describeProfile } from "./learnerProfile";
+import { validateCurriculum, validateSubLesson, CurriculumValidationError, ValidationIssue } from "./curriculumValidator";
+import { toQuizQuestion } from "./quizGrading";
 
 // Helper to clean JSON string if the model adds markdown blocks
 const cleanJson = (text: string): string => {
   return text.replace(/```json\n?|\n?```/g, '').trim();
 };
 
-export const generatePillars = async (subject: string): Promise<LearningPillar[]> => {
+// Parses a top-level JSON array; anything else is malformed output worth retrying.
+const parseJsonArray = (text: string): any[] => {
+  const data = JSON.parse(cleanJson(text));
+  if (!Array.isArray(data)) {
+    throw new LLMRequestError('malformed', 'Expected a JSON array from the model.');
+  }
+  return data;
+};
+
+// Profile of the signed-in learner, folded into every generation prompt.
+let learnerProfile: LearnerProfile | null = null;
+
+export const setLearnerProfile = (profile: LearnerProfile | null) => {
+  learnerProfile = profile;
+};
+
+export const generatePillars = async (subject: string, signal?: AbortSignal): Promise<LearningPillar[]> => {
   const prompt = `
     Act as an expert curriculum designer. 
     Break down the subject "${subject}" into exactly 30 distinct, high-level "Learning Pillars" or key topic areas.
@@ -23,6 +45,9 @@ export const generatePillars = async (subject: string): Promise<LearningPillar[]
     "philosophy" (thinking, mind), "social" (people, culture), "nature" (plants, env), 
     "music" (audio), "data" (databases, charts). 
     Use "general" if none fit perfectly.
+    List the pillars in learning order, and for each give "prerequisites": the ids of earlier pillars
+    that should be studied first (empty for foundational pillars). Only list direct prerequisites.
+    ${describeProfile(learnerProfile)}
     Return ONLY a JSON array of objects.
   `;
 
@@ -35,42 +60,104 @@ export const generatePillars = async (subject: string): Promise<LearningPillar[]
         title: { type: Type.STRING },
         description: { type: Type.STRING },
         icon: { type: Type.STRING, enum: ["tech", "science", "art", "business", "history", "health", "math", "law", "language", "philosophy", "social", "nature", "music", "data", "general"] },
+        prerequisites: { type: Type.ARRAY, items: { type: Type.INTEGER } },
       },
-      required: ["id", "title", "description", "icon"],
+      required: ["id", "title", "description", "icon", "prerequisites"],
     },
   };
 
   try {
-    const response = await ai.models.generateContent({
-      model: MODEL_NAME,
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: schema,
-        systemInstruction: "You are a structural learning architect. You output strict JSON."
+    return await withRequestPolicy(async (attemptSignal) => {
+      const text = await getProvider().generateJson({
+        task: 'pillars',
+        prompt,
+        schema,
+        systemInstruction: "You are a structural learning architect. You output strict JSON.",
+        context: { subject },
+      }, attemptSignal) || "[]";
+      // Assign incremental IDs if not present or messy, keeping prerequisite links intact
+      return renumberWithPrerequisites(parseJsonArray(text));
+    }, { signal, label: 'generatePillars' });
+  } catch (error) {
+    console.error("Error generating pillars:", error);
+    throw error;
+  }
+};
+
+export const generatePlacementQuiz = async (subject: string, pillar: string, signal?: AbortSignal): Promise<PlacementQuestion[]> => {
+  const prompt = `
+    Write a short diagnostic placement quiz for a learner about to study the pillar "${pillar}" of the subject "${subject}".
+    Generate exactly 6 multiple-choice questions: 2 Beginner, 2 Intermediate and 2 Advanced, in that order.
+    Each question has exactly 4 options, one correct answer (zero-based correctIndex),
+    and a short topic label (2-4 words) naming the concept it tests.
+    Questions should reveal what the learner already knows, not trick them.
+    ${describeProfile(learnerProfile)}
+    Return ONLY a JSON array.
+  `;
+
+  const schema: Schema = {
+    type: Type.ARRAY,
+    items: {
+      type: Type.OBJECT,
+      properties: {
+        question: { type: Type.STRING },
+        options: { type: Type.ARRAY, items: { type: Type.STRING } },
+        correctIndex: { type: Type.INTEGER },
+        difficulty: { type: Type.STRING, enum: ["Beginner", "Intermediate", "Advanced"] },
+        topic: { type: Type.STRING },
       },
-    });
+      required: ["question", "options", "correctIndex", "difficulty", "topic"],
+    },
+  };
 
-    const text = response.text || "[]";
-    const data = JSON.parse(cleanJson(text));
-    
-    // Assign incremental IDs if not present or messy
-    return data.map((item: any, index: number) => ({
-      ...item,
-      id: index + 1
-    }));
+  try {
+    return await withRequestPolicy(async (attemptSignal) => {
+      const text = await getProvider().generateJson({
+        task: 'placementQuiz',
+        prompt,
+        schema,
+        context: { subject, pillar },
+      }, attemptSignal) || "[]";
+
+      const questions = parseJsonArray(text)
+        .filter((item: any) => Array.isArray(item?.options) && item.options.length >= 2
+          && Number.isInteger(item.correctIndex) && item.correctIndex >= 0 && item.correctIndex < item.options.length)
+        .map((item: any, index: number) => ({ ...item, id: index + 1 }));
+      if (questions.length === 0) {
+        throw new LLMRequestError('malformed', 'Placement quiz contained no usable questions.');
+      }
+      return questions;
+    }, { signal, label: 'generatePlacementQuiz' });
   } catch (error) {
-    console.error("Error generating pillars:", error);
-    throw new Error("Failed to generate learning pillars. Please try again.");
+    console.error("Error generating placement quiz:", error);
+    throw error;
   }
 };
 
-export const generateLessonPaths = async (subject: string, pillar: string): Promise<LessonPath[]> => {
+export const generateLessonPaths = async (
+  subject: string,
+  pillar: string,
+  placement: PlacementResult | null = null,
+  signal?: AbortSignal
+): Promise<LessonPath[]> => {
+  const placementContext = placement ? `
+    The learner took a placement quiz for this pillar and scored ${placement.correct}/${placement.total},
+    placing them at the ${placement.level} level.
+    ${placement.weakTopics.length > 0 ? `They struggled with: ${placement.weakTopics.join(', ')}.` : 'They answered everything correctly.'}
+    Tailor the paths to this learner: most should suit a ${placement.level} learner, include paths that address their weak topics,
+    and include a few stretch paths one level up.
+    For each path set "fit" to "recommended", "too_easy" or "too_hard" for this learner, and give a one-sentence "fitReason".
+  ` : '';
+
   const prompt = `
     For the subject "${subject}" and the specific pillar "${pillar}", 
     generate exactly 10 specific "Lesson Paths". 
     Each path should be a focused module or course that a student could take.
     Include difficulty levels.
+    List the paths in learning order, and for each give "prerequisites": the ids of earlier paths in this list
+    that should be completed first (empty if it can be started straight away).
+    ${placementContext}
+    ${describeProfile(learnerProfile)}
     Return ONLY a JSON array.
   `;
 
@@ -84,32 +171,285 @@ export const generateLessonPaths = async (subject: string, pillar: string): Prom
         description: { type: Type.STRING },
         difficulty: { type: Type.STRING, enum: ["Beginner", "Intermediate", "Advanced"] },
         estimatedTime: { type: Type.STRING },
+        prerequisites: { type: Type.ARRAY, items: { type: Type.INTEGER } },
+        ...(placement ? {
+          fit: { type: Type.STRING, enum: ["recommended", "too_easy", "too_hard"] },
+          fitReason: { type: Type.STRING },
+        } : {}),
       },
-      required: ["id", "title", "description", "difficulty", "estimatedTime"],
+      required: ["id", "title", "description", "difficulty", "estimatedTime", "prerequisites", ...(placement ? ["fit", "fitReason"] : [])],
     },
   };
 
   try {
-    const response = await ai.models.generateContent({
-      model: MODEL_NAME,
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: schema,
+    return await withRequestPolicy(async (attemptSignal) => {
+      const text = await getProvider().generateJson({
+        task: 'paths',
+        prompt,
+        schema,
+        context: { subject, pillar, ...(placement ? { level: placement.level } : {}) },
+      }, attemptSignal) || "[]";
+      const paths: LessonPath[] = renumberWithPrerequisites(parseJsonArray(text));
+      return placement ? rankPathsByFit(paths, placement) : paths;
+    }, { signal, label: 'generateLessonPaths' });
+  } catch (error) {
+    console.error("Error generating paths:", error);
+    throw error;
+  }
+};
+
+const READINESS_GUIDANCE: Record<Readiness, string> = {
+  advance: 'They did well: the new path should build on it and be one step harder.',
+  stay: 'They are progressing steadily: keep the new path at a similar level.',
+  consolidate: 'They struggled: the new path should revisit the same ideas from a different angle, at the same level or easier.',
+};
+
+// A single new path that follows on from a finished course, for when none of
+// the originally offered paths are left.
+export const generateFollowUpPath = async (
+  course: SavedCourse,
+  readiness: Readiness,
+  signal?: AbortSignal
+): Promise<LessonPath> => {
+  const prompt = `
+    A learner studying "${course.subject}" (pillar "${course.pillar.title}") has worked through the ${course.path.difficulty} path "${course.path.title}".
+    It covered: ${course.curriculum.subLessons.map(l => l.title).join('; ')}.
+    ${READINESS_GUIDANCE[readiness]}
+    ${course.siblingPaths?.length ? `Do not repeat any of these existing paths: ${course.siblingPaths.map(p => p.title).join('; ')}.` : ''}
+    Propose exactly one follow-up "Lesson Path" for them.
+    ${describeProfile(learnerProfile)}
+    Return ONLY a JSON object.
+  `;
+
+  const schema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+      title: { type: Type.STRING },
+      description: { type: Type.STRING },
+      difficulty: { type: Type.STRING, enum: ["Beginner", "Intermediate", "Advanced"] },
+      estimatedTime: { type: Type.STRING },
+    },
+    required: ["title", "description", "difficulty", "estimatedTime"],
+  };
+
+  try {
+    return await withRequestPolicy(async (attemptSignal) => {
+      const text = await getProvider().generateJson({
+        task: 'followUpPath',
+        prompt,
+        schema,
+        context: { subject: course.subject, pillar: course.pillar.title, path: course.path.title },
+      }, attemptSignal) || "{}";
+      const data = JSON.parse(cleanJson(text));
+      if (!data || typeof data.title !== 'string' || !data.title.trim()) {
+        throw new LLMRequestError('malformed', 'Expected a lesson path from the model.');
+      }
+      return {
+        id: Date.now(),
+        title: data.title,
+        description: data.description || '',
+        difficulty: ['Beginner', 'Intermediate', 'Advanced'].includes(data.difficulty) ? data.difficulty : course.path.difficulty,
+        estimatedTime: data.estimatedTime || '',
+      };
+    }, { signal, label: 'generateFollowUpPath' });
+  } catch (error) {
+    console.error("Error generating follow-up path:", error);
+    throw error;
+  }
+};
+
+// A short two-person conversation introducing a module, voiced as the podcast overview.
+export const generatePodcastScript = async (curriculum: Curriculum, signal?: AbortSignal): Promise<PodcastLine[]> => {
+  const prompt = `
+    Write a short, lively podcast conversation introducing the learning module "${curriculum.pathTitle}".
+    A Host guides the conversation and a Guest, an expert on the topic, explains.
+    Module introduction: ${curriculum.introduction}
+    Objectives: ${curriculum.objectives.join('; ')}
+    Key concepts: ${curriculum.keyConcepts.join(', ')}
+    Lessons: ${curriculum.subLessons.map(l => l.title).join('; ')}
+    Use 10 to 16 turns, alternating speakers, each one to three spoken sentences. No stage directions or markup.
+    ${describeProfile(learnerProfile)}
+    Return ONLY a JSON object.
+  `;
+
+  const schema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+      lines: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            speaker: { type: Type.STRING, enum: ["host", "guest"] },
+            text: { type: Type.STRING },
+          },
+          required: ["speaker", "text"],
+        },
       },
-    });
+    },
+    required: ["lines"],
+  };
 
-    const text = response.text || "[]";
-    return JSON.parse(cleanJson(text));
+  try {
+    return await withRequestPolicy(async (attemptSignal) => {
+      const text = await getProvider().generateJson({
+        task: 'podcastScript',
+        prompt,
+        schema,
+        context: { path: curriculum.pathTitle },
+      }, attemptSignal) || "{}";
+      const data = JSON.parse(cleanJson(text));
+      const lines: PodcastLine[] = (Array.isArray(data?.lines) ? data.lines : [])
+        .filter((line: any) => line && typeof line.text === 'string' && line.text.trim())
+        .map((line: any) => ({ speaker: line.speaker === 'guest' ? 'guest' : 'host', text: line.text.trim() }));
+      if (lines.length < 2) {
+        throw new LLMRequestError('malformed', 'Expected a podcast conversation from the model.');
+      }
+      return lines;
+    }, { signal, label: 'generatePodcastScript' });
   } catch (error) {
-    console.error("Error generating paths:", error);
-    throw new Error("Failed to generate lesson paths.");
+    console.error("Error generating podcast script:", error);
+    throw error;
   }
 };
 
-export const generateCurriculum = async (subject: string, pillar: string, path: string): Promise<Curriculum> => {
+const CASE_STUDY_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING },
+    scenario: { type: Type.STRING },
+    outcome: { type: Type.STRING },
+  },
+  required: ["title", "scenario", "outcome"]
+};
+
+const SUB_LESSON_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING },
+    content: { type: Type.STRING },
+    generalConcepts: { type: Type.STRING },
+    useCases: { type: Type.ARRAY, items: { type: Type.STRING } },
+    caseStudies: { type: Type.ARRAY, items: { type: Type.STRING } },
+    references: { type: Type.ARRAY, items: { type: Type.STRING } },
+    example: { type: Type.STRING },
+    visualDescription: { type: Type.STRING },
+    actionItem: { type: Type.STRING },
+  },
+  required: ["title", "content", "generalConcepts", "useCases", "caseStudies", "references", "example", "visualDescription", "actionItem"],
+};
+
+// Lesson stubs for the outline; bodies are generated separately against `SUB_LESSON_SCHEMA`.
+const OUTLINE_SUB_LESSON_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING },
+    content: { type: Type.STRING },
+  },
+  required: ["title", "content"],
+};
+
+const CURRICULUM_OUTLINE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    pathTitle: { type: Type.STRING },
+    introduction: { type: Type.STRING },
+    objectives: { type: Type.ARRAY, items: { type: Type.STRING } },
+    keyConcepts: { type: Type.ARRAY, items: { type: Type.STRING } },
+    realWorldUseCases: { type: Type.ARRAY, items: { type: Type.STRING } },
+    caseStudy: CASE_STUDY_SCHEMA,
+    subLessons: { type: Type.ARRAY, items: OUTLINE_SUB_LESSON_SCHEMA },
+    resources: { type: Type.ARRAY, items: { type: Type.STRING } },
+  },
+  required: ["pathTitle", "introduction", "objectives", "keyConcepts", "realWorldUseCases", "caseStudy", "subLessons", "resources"],
+};
+
+// Parses model output, treating unparseable text as an empty object so every
+// required field is reported as an issue instead of throwing.
+const parseJsonObject = (text: string): unknown => {
+  try {
+    return JSON.parse(cleanJson(text));
+  } catch {
+    return {};
+  }
+};
+
+// Asks the model to regenerate only the fields that failed validation and merges
+// the answer back into the draft outline.
+const repairOutline = async (
+  draft: Curriculum,
+  issues: ValidationIssue[],
+  context: Record<string, string>,
+  signal?: AbortSignal
+): Promise<Curriculum> => {
+  const brokenFields = Array.from(new Set(
+    issues.filter(issue => issue.subLessonIndex === undefined).map(issue => issue.field)
+  ));
+  const brokenLessons = Array.from(new Set(
+    issues.filter(issue => issue.subLessonIndex !== undefined).map(issue => issue.subLessonIndex as number)
+  ));
+
+  const properties: Record<string, Schema> = {};
+  brokenFields.forEach(field => {
+    properties[field] = CURRICULUM_OUTLINE_SCHEMA.properties![field];
+  });
+  if (brokenLessons.length > 0) {
+    properties.repairedSubLessons = {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: { index: { type: Type.INTEGER }, lesson: OUTLINE_SUB_LESSON_SCHEMA },
+        required: ["index", "lesson"],
+      },
+    };
+  }
+
   const prompt = `
-    Create a detailed, deep-dive micro-curriculum for the lesson path: "${path}".
+    The following micro-curriculum outline for the lesson path "${context.path}" (Subject: "${context.subject}", Pillar: "${context.pillar}")
+    was generated with missing or empty fields:
+    ${issues.map(issue => `- ${issue.path} ${issue.message}`).join('\n    ')}
+
+    Current outline:
+    ${JSON.stringify(draft)}
+
+    Return ONLY a JSON object containing replacements for the broken parts.
+    ${brokenFields.length > 0 ? `Provide these top-level fields: ${brokenFields.join(', ')}.` : ''}
+    ${brokenLessons.length > 0 ? `Provide the title and summary for sub-lessons ${brokenLessons.join(', ')} in "repairedSubLessons".` : ''}
+  `;
+
+  const text = await withRequestPolicy(
+    (attemptSignal) => getProvider().generateJson({
+      task: 'curriculumRepair',
+      prompt,
+      schema: { type: Type.OBJECT, properties, required: Object.keys(properties) },
+      context,
+    }, attemptSignal),
+    { signal, label: 'repairOutline' }
+  ) || "{}";
+  const patch = parseJsonObject(text) as Record<string, any>;
+
+  const repaired: Record<string, unknown> = { ...draft };
+  brokenFields.forEach(field => {
+    if (patch[field] !== undefined) repaired[field] = patch[field];
+  });
+  const subLessons = [...(repaired.subLessons as unknown[])];
+  (Array.isArray(patch.repairedSubLessons) ? patch.repairedSubLessons : []).forEach((entry: any) => {
+    if (brokenLessons.includes(entry?.index)) subLessons[entry.index] = entry.lesson;
+  });
+  repaired.subLessons = subLessons;
+  return repaired as unknown as Curriculum;
+};
+
+// Stage one: everything except the body of each sub-lesson. Lessons come back
+// with `status: 'pending'` and only their title and summary filled in.
+export const generateCurriculumOutline = async (
+  subject: string,
+  pillar: string,
+  path: string,
+  signal?: AbortSignal
+): Promise<Curriculum> => {
+  const prompt = `
+    Create the outline of a detailed, deep-dive micro-curriculum for the lesson path: "${path}".
     Context: Subject is "${subject}", Pillar is "${pillar}".
     
     The curriculum must be comprehensive, engaging, and easy to digest.
@@ -119,7 +459,123 @@ export const generateCurriculum = async (subject: string, pillar: string, path:
     3. 3-5 Key Concepts to master.
     4. 2-3 Real-world Use Cases (Why does this matter?).
     5. A short, narrative Case Study (Title, Scenario, Outcome).
-    6. 3-5 Sub-lessons. Each MUST include:
+    6. 3-5 Sub-lessons, in learning order. For each give ONLY:
+       - Title
+       - Brief Content Summary (1-2 sentences)
+       The full lesson body is written separately, so do not include it.
+    7. 3-4 Resources: Recommended books, search terms, or seminal papers for the whole path.
+    ${describeProfile(learnerProfile)}
+    Return ONLY JSON.
+  `;
+
+  const context = { subject, pillar, path };
+
+  try {
+    const text = await withRequestPolicy(
+      (attemptSignal) => getProvider().generateJson({
+        task: 'curriculumOutline',
+        prompt,
+        schema: CURRICULUM_OUTLINE_SCHEMA,
+        context,
+      }, attemptSignal),
+      { signal, label: 'generateCurriculumOutline' }
+    ) || "{}";
+
+    const first = validateCurriculum(parseJsonObject(text), path, 'outline');
+    if (first.issues.length === 0) return first.curriculum;
+
+    console.warn("Generated outline failed validation, requesting repair:", first.issues);
+    const second = validateCurriculum(await repairOutline(first.curriculum, first.issues, context, signal), path, 'outline');
+    if (second.issues.length > 0) {
+      throw new CurriculumValidationError(second.issues);
+    }
+    return second.curriculum;
+  } catch (error) {
+    console.error("Error generating curriculum outline:", error);
+    throw error;
+  }
+};
+
+const REVISION_GUIDANCE: Record<RegenerationReason, string> = {
+  too_hard: 'The learner found it too hard. Use simpler language, smaller steps and more scaffolding; define every term before using it.',
+  too_shallow: 'The learner found it too shallow. Go deeper: explain the mechanisms and trade-offs, and add nuance and edge cases.',
+  wrong_examples: 'The examples did not work for the learner. Replace the example, use cases and case studies with different, more relatable ones.',
+  other: 'The learner was not satisfied with it.',
+};
+
+// Extra instructions when rewriting a lesson the learner rated unhelpful.
+const describeRevision = (previous: SubLesson, revision: LessonRevision): string => `
+    This lesson is being REWRITTEN because the previous version did not work for the learner.
+    ${REVISION_GUIDANCE[revision.reason]}
+    ${revision.note ? `In their words: "${revision.note}"` : ''}
+    Previous version, for reference (do not copy it):
+    Summary: ${previous.content}
+    Example: ${previous.example}
+    Case studies: ${previous.caseStudies.join('; ')}
+  `;
+
+// Asks the model to regenerate only the fields of a sub-lesson that failed
+// validation and merges the answer back into the draft lesson.
+const repairSubLesson = async (
+  draft: SubLesson,
+  issues: ValidationIssue[],
+  context: Record<string, string>,
+  signal?: AbortSignal
+): Promise<SubLesson> => {
+  const brokenFields = Array.from(new Set(issues.map(issue => issue.path.slice(issue.path.lastIndexOf('.') + 1))));
+
+  const properties: Record<string, Schema> = {};
+  brokenFields.forEach(field => {
+    properties[field] = SUB_LESSON_SCHEMA.properties![field];
+  });
+
+  const prompt = `
+    The following lesson of the micro-curriculum "${context.path}" (Subject: "${context.subject}", Pillar: "${context.pillar}")
+    was generated with missing or empty fields:
+    ${issues.map(issue => `- ${issue.path} ${issue.message}`).join('\n    ')}
+
+    Current lesson:
+    ${JSON.stringify(draft)}
+
+    Return ONLY a JSON object with these fields: ${brokenFields.join(', ')}.
+  `;
+
+  const text = await withRequestPolicy(
+    (attemptSignal) => getProvider().generateJson({
+      task: 'subLessonRepair',
+      prompt,
+      schema: { type: Type.OBJECT, properties, required: brokenFields },
+      context,
+    }, attemptSignal),
+    { signal, label: `repairSubLesson[${context.index}]` }
+  ) || "{}";
+  const patch = parseJsonObject(text) as Record<string, unknown>;
+
+  const repaired: Record<string, unknown> = { ...draft };
+  brokenFields.forEach(field => {
+    if (patch[field] !== undefined) repaired[field] = patch[field];
+  });
+  return repaired as unknown as SubLesson;
+};
+
+const writeSubLesson = async (
+  subject: string,
+  pillar: string,
+  outline: Curriculum,
+  index: number,
+  revision: LessonRevision | null,
+  signal?: AbortSignal
+): Promise<SubLesson> => {
+  const target = outline.subLessons[index];
+  const prompt = `
+    You are writing one lesson of the micro-curriculum "${outline.pathTitle}".
+    Context: Subject is "${subject}", Pillar is "${pillar}".
+    Course objectives: ${outline.objectives.join('; ')}
+    Lesson sequence:
+    ${outline.subLessons.map((lesson, i) => `${i + 1}. ${lesson.title}${i === index ? '  <-- write this one' : ''}`).join('\n    ')}
+
+    Write lesson ${index + 1}: "${target.title}" (${target.content}).
+    It MUST include:
        - Title
        - Brief Content Summary
        - General Concepts: Detailed explanation of the core concepts (Markdown supported).
@@ -129,96 +585,186 @@ export const generateCurriculum = async (subject: string, pillar: string, path:
        - Concrete Example: A specific real-world example or analogy.
        - Visual Description: A highly detailed image generation prompt to visualize this concept (e.g., "A colorful diagram of the solar system with labels", "A close-up photograph of a computer motherboard", "An illustration of a neural network").
        - Practical Action Item (exercise).
-    7. 3-4 Resources: Recommended books, search terms, or seminal papers for the whole path.
-    
+    ${revision ? describeRevision(target, revision) : ''}
+    ${describeProfile(learnerProfile)}
     Return ONLY JSON.
   `;
 
+  const context = { subject, pillar, path: outline.pathTitle, index: String(index) };
+  const label = `${revision ? 'regenerateSubLesson' : 'generateSubLesson'}[${index}]`;
+  const requestLesson = async (attemptSignal: AbortSignal) => {
+    const text = await getProvider().generateJson({
+      task: 'subLesson',
+      prompt,
+      schema: SUB_LESSON_SCHEMA,
+      context,
+    }, attemptSignal) || "{}";
+    const issues: ValidationIssue[] = [];
+    const lesson = validateSubLesson(parseJsonObject(text), index, issues);
+    return { lesson, issues };
+  };
+
+  try {
+    const first = await withRequestPolicy(requestLesson, { signal, label });
+    if (first.issues.length === 0) return first.lesson;
+
+    console.warn(`Lesson ${index + 1} failed validation, requesting repair:`, first.issues);
+    try {
+      const issues: ValidationIssue[] = [];
+      const repaired = validateSubLesson(await repairSubLesson(first.lesson, first.issues, context, signal), index, issues);
+      if (issues.length === 0) return repaired;
+      console.warn(`Lesson ${index + 1} is still incomplete after repair, rewriting it:`, issues);
+    } catch (error) {
+      if (isCancellation(error)) throw error;
+      console.warn(`Repair of lesson ${index + 1} failed, rewriting it:`, error);
+    }
+
+    // The repair didn't complete it, so the whole lesson is written again
+    return await withRequestPolicy(async (attemptSignal) => {
+      const { lesson, issues } = await requestLesson(attemptSignal);
+      if (issues.length > 0) {
+        throw new LLMRequestError('malformed', `Lesson ${index + 1} was incomplete: ${issues.map(issue => issue.path).join(', ')}`);
+      }
+      return lesson;
+    }, { signal, label });
+  } catch (error) {
+    console.error(`Error generating sub-lesson ${index + 1}:`, error);
+    throw error;
+  }
+};
+
+// Stage two: the full body of one sub-lesson, written against the outline so
+// lessons don't repeat each other. Incomplete output is repaired field by field,
+// then rewritten in full if the repair doesn't complete it.
+export const generateSubLesson = (
+  subject: string,
+  pillar: string,
+  outline: Curriculum,
+  index: number,
+  signal?: AbortSignal
+): Promise<SubLesson> => writeSubLesson(subject, pillar, outline, index, null, signal);
+
+// Rewrites an existing lesson using the learner's reason for rejecting it.
+// The caller is responsible for keeping the old version in the lesson history.
+export const regenerateSubLesson = (
+  subject: string,
+  pillar: string,
+  curriculum: Curriculum,
+  index: number,
+  revision: LessonRevision,
+  signal?: AbortSignal
+): Promise<SubLesson> => writeSubLesson(subject, pillar, curriculum, index, revision, signal);
+
+export interface CurriculumProgress {
+  onOutline?: (outline: Curriculum) => void;
+  onSubLesson?: (index: number, lesson: SubLesson) => void;
+  onSubLessonError?: (index: number, error: unknown) => void;
+}
+
+// Builds a curriculum in stages: the outline is reported as soon as it exists,
+// then every pending sub-lesson is filled in parallel. Lessons that still fail
+// after retries are marked `status: 'failed'` rather than failing the course.
+export const generateCurriculum = async (
+  subject: string,
+  pillar: string,
+  path: string,
+  progress: CurriculumProgress = {},
+  signal?: AbortSignal
+): Promise<Curriculum> => {
+  const outline = await generateCurriculumOutline(subject, pillar, path, signal);
+  progress.onOutline?.(outline);
+
+  const subLessons = await Promise.all(outline.subLessons.map(async (stub, index) => {
+    try {
+      const lesson = await generateSubLesson(subject, pillar, outline, index, signal);
+      progress.onSubLesson?.(index, lesson);
+      return lesson;
+    } catch (error) {
+      if (isCancellation(error)) throw error;
+      progress.onSubLessonError?.(index, error);
+      return { ...stub, status: 'failed' as const };
+    }
+  }));
+
+  return { ...outline, subLessons };
+};
+
+export const generateLessonQuiz = async (
+  subject: string,
+  pathTitle: string,
+  lesson: SubLesson,
+  signal?: AbortSignal
+): Promise<LessonQuiz> => {
+  const prompt = `
+    Write a short quiz checking understanding of the lesson "${lesson.title}" from the course "${pathTitle}" (Subject: "${subject}").
+    Lesson summary: ${lesson.content}
+    Lesson body:
+    ${lesson.generalConcepts}
+    Example: ${lesson.example}
+
+    Generate exactly 5 questions mixing these types:
+    - "multiple_choice": 4 "options" and the zero-based "correctIndex".
+    - "short_answer": a question answerable in 1-3 words, with 2-4 "acceptableAnswers" (synonyms, spellings).
+    - "ordering": 3-5 steps or stages listed in "orderedItems" in the CORRECT order.
+    Include at least one of each type. Every question needs a one or two sentence "explanation" of the right answer.
+    Only ask about material covered in the lesson.
+    ${describeProfile(learnerProfile)}
+    Return ONLY a JSON array.
+  `;
+
   const schema: Schema = {
-    type: Type.OBJECT,
-    properties: {
-      pathTitle: { type: Type.STRING },
-      introduction: { type: Type.STRING },
-      objectives: { type: Type.ARRAY, items: { type: Type.STRING } },
-      keyConcepts: { type: Type.ARRAY, items: { type: Type.STRING } },
-      realWorldUseCases: { type: Type.ARRAY, items: { type: Type.STRING } },
-      caseStudy: {
-        type: Type.OBJECT,
-        properties: {
-            title: { type: Type.STRING },
-            scenario: { type: Type.STRING },
-            outcome: { type: Type.STRING },
-        },
-        required: ["title", "scenario", "outcome"]
-      },
-      subLessons: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            title: { type: Type.STRING },
-            content: { type: Type.STRING },
-            generalConcepts: { type: Type.STRING },
-            useCases: { type: Type.ARRAY, items: { type: Type.STRING } },
-            caseStudies: { type: Type.ARRAY, items: { type: Type.STRING } },
-            references: { type: Type.ARRAY, items: { type: Type.STRING } },
-            example: { type: Type.STRING },
-            visualDescription: { type: Type.STRING },
-            actionItem: { type: Type.STRING },
-          },
-          required: ["title", "content", "generalConcepts", "useCases", "caseStudies", "references", "example", "visualDescription", "actionItem"],
-        },
+    type: Type.ARRAY,
+    items: {
+      type: Type.OBJECT,
+      properties: {
+        type: { type: Type.STRING, enum: ["multiple_choice", "short_answer", "ordering"] },
+        prompt: { type: Type.STRING },
+        options: { type: Type.ARRAY, items: { type: Type.STRING } },
+        correctIndex: { type: Type.INTEGER },
+        acceptableAnswers: { type: Type.ARRAY, items: { type: Type.STRING } },
+        orderedItems: { type: Type.ARRAY, items: { type: Type.STRING } },
+        explanation: { type: Type.STRING },
       },
-      resources: { type: Type.ARRAY, items: { type: Type.STRING } },
+      required: ["type", "prompt", "explanation"],
     },
-    required: ["pathTitle", "introduction", "objectives", "keyConcepts", "realWorldUseCases", "caseStudy", "subLessons", "resources"],
   };
 
   try {
-    const response = await ai.models.generateContent({
-      model: MODEL_NAME,
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: schema,
-      },
-    });
+    return await withRequestPolicy(async (attemptSignal) => {
+      const text = await getProvider().generateJson({
+        task: 'lessonQuiz',
+        prompt,
+        schema,
+        context: { subject, path: pathTitle, lesson: lesson.title },
+      }, attemptSignal) || "[]";
 
-    const text = response.text || "{}";
-    return JSON.parse(cleanJson(text));
+      const questions = parseJsonArray(text)
+        .map((item, index) => toQuizQuestion(item, index + 1))
+        .filter((question): question is QuizQuestion => question !== null);
+      if (questions.length === 0) {
+        throw new LLMRequestError('malformed', 'Quiz contained no gradable questions.');
+      }
+      return { questions, generatedAt: Date.now() };
+    }, { signal, label: 'generateLessonQuiz' });
   } catch (error) {
-    console.error("Error generating curriculum:", error);
-    throw new Error("Failed to generate curriculum.");
+    console.error("Error generating lesson quiz:", error);
+    throw error;
   }
 };
 
-export const generateModuleAudio = async (text: string): Promise<string> => {
+export const generateSpeechAudio = async (request: SpeechRequest, signal?: AbortSignal): Promise<string> => {
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-preview-tts",
-      contents: [{ parts: [{ text }] }],
-      config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: {
-          voiceConfig: {
-            prebuiltVoiceConfig: { voiceName: 'Kore' },
-          },
-        },
-      },
-    });
-
-    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    if (!base64Audio) {
-      throw new Error("No audio data generated.");
-    }
-    return base64Audio;
+    return await withRequestPolicy(
+      (attemptSignal) => getProvider().generateSpeech(request, attemptSignal),
+      { signal, label: 'generateSpeechAudio', timeoutMs: 90000 }
+    );
   } catch (error) {
     console.error("Audio generation error:", error);
     throw error;
   }
 };
 
-let chatSession: Chat | null = null;
+let chatSession: LLMChat | null = null;
 
 export const initializeChat = (
   subject: string, 
@@ -227,18 +773,16 @@ export const initializeChat = (
   curriculum: Curriculum, 
   previousHistory: ChatMessage[] = []
 ) => {
-  // Format history for the SDK: remove UI-specific messages (welcome/thinking) and map to Content parts
+  // Format history for the provider: remove UI-specific messages (welcome/thinking)
   const history = previousHistory
     .filter(msg => !msg.isThinking && msg.id !== 'welcome')
     .map(msg => ({
       role: msg.role,
-      parts: [{ text: msg.text }]
+      text: msg.text
     }));
 
-  chatSession = ai.chats.create({
-    model: MODEL_NAME,
-    config: {
-      systemInstruction: `
+  chatSession = getProvider().createChat({
+    systemInstruction: `
         You are an expert, friendly, and adaptive AI Tutor.
         You are currently teaching a student about "${subject}".
         The specific pillar is "${pillar}".
@@ -253,24 +797,40 @@ export const initializeChat = (
         2. Identify gaps in knowledge.
         3. Suggest deeper dives or related topics if the user is curious.
         4. Be encouraging and structured.
-        
+        ${describeProfile(learnerProfile)}
         Keep responses concise and formatted with Markdown.
       `,
-    },
-    history: history.length > 0 ? history : undefined,
+    history,
   });
 };
 
-export const sendMessageToTutor = async (message: string): Promise<string> => {
+// Streams the tutor's answer, calling `onText` with the accumulated text after every chunk.
+// Resolves with the full answer. If `signal` aborts, rejects with a cancelled error and the
+// caller keeps whatever `onText` last delivered.
+export const streamMessageToTutor = async (
+  message: string,
+  onText: (text: string) => void,
+  signal?: AbortSignal
+): Promise<string> => {
   if (!chatSession) {
     throw new Error("Chat session not initialized");
   }
+  const session = chatSession;
+  let text = '';
 
   try {
-    const result = await chatSession.sendMessage({ message });
-    return result.text;
+    // Sessions only record a turn once it completes, so failed attempts are safe to retry;
+    // a retry restarts the answer from scratch.
+    await withRequestPolicy(async (attemptSignal) => {
+      text = '';
+      for await (const delta of session.sendMessageStream(message, attemptSignal)) {
+        text += delta;
+        onText(text);
+      }
+    }, { signal, label: 'streamMessageToTutor', retries: 2, timeoutMs: 90000 });
+    return text;
   } catch (error) {
-    console.error("Chat error:", error);
-    return "I'm having trouble connecting right now. Please try again.";
+    if (!isCancellation(error)) console.error("Chat error:", error);
+    throw error;
   }
 };
@@ -0,0 +1,138 @@
+import { LearningPillar, LessonPath, SavedCourse } from "../types";
+
+// Prerequisite graphs for the knowledge map. Pillars and paths are generated in
+// learning order, so a prerequisite always points at an earlier item; anything
+// else (unknown ids, self-references, forward links) is dropped, which also
+// guarantees the graph has no cycles.
+
+// Renumbers generated items 1..n and rewrites their prerequisite ids to match.
+export const renumberWithPrerequisites = <T extends { id: number; prerequisites?: number[] }>(items: T[]): T[] => {
+  const newIdFor = new Map<number, number>();
+  items.forEach((item, index) => {
+    if (!newIdFor.has(item.id)) newIdFor.set(item.id, index + 1);
+  });
+
+  return items.map((item, index) => {
+    const id = index + 1;
+    const prerequisites = Array.from(new Set(
+      (Array.isArray(item.prerequisites) ? item.prerequisites : [])
+        .map(p => newIdFor.get(p))
+        .filter((p): p is number => p !== undefined && p < id)
+    ));
+    return { ...item, id, prerequisites };
+  });
+};
+
+export type NodeStatus = 'not_started' | 'in_progress' | 'done';
+
+export interface GraphNode {
+  id: number;
+  label: string;
+  detail: string;
+  progress: number; // 0-1
+  status: NodeStatus;
+  unlocked: boolean; // Every prerequisite has been started
+  depth: number; // Length of the longest prerequisite chain below it
+  row: number; // Position within its depth column
+}
+
+export interface GraphEdge {
+  from: number; // Prerequisite
+  to: number;
+}
+
+export interface KnowledgeGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  depthCount: number;
+  maxRows: number;
+}
+
+const courseProgress = (course: SavedCourse) =>
+  course.completedSubLessons.length / (course.curriculum.subLessons.length || 1);
+
+const statusFor = (progress: number, started: boolean): NodeStatus =>
+  progress >= 1 ? 'done' : started ? 'in_progress' : 'not_started';
+
+interface GraphItem {
+  id: number;
+  label: string;
+  detail: string;
+  prerequisites: number[];
+  progress: number;
+  started: boolean;
+}
+
+const layoutGraph = (items: GraphItem[]): KnowledgeGraph => {
+  const byId = new Map(items.map(item => [item.id, item]));
+  const depths = new Map<number, number>();
+
+  const depthOf = (id: number, visiting: Set<number> = new Set()): number => {
+    if (depths.has(id)) return depths.get(id)!;
+    if (visiting.has(id)) return 0;
+    visiting.add(id);
+    const item = byId.get(id);
+    const prereqs = (item?.prerequisites || []).filter(p => byId.has(p));
+    const depth = prereqs.length === 0 ? 0 : Math.max(...prereqs.map(p => depthOf(p, visiting))) + 1;
+    depths.set(id, depth);
+    return depth;
+  };
+
+  const rows = new Map<number, number>();
+  const nodes: GraphNode[] = items.map(item => {
+    const depth = depthOf(item.id);
+    const row = rows.get(depth) || 0;
+    rows.set(depth, row + 1);
+    const prereqs = item.prerequisites.filter(p => byId.has(p));
+    return {
+      id: item.id,
+      label: item.label,
+      detail: item.detail,
+      progress: item.progress,
+      status: statusFor(item.progress, item.started),
+      unlocked: prereqs.every(p => byId.get(p)!.started),
+      depth,
+      row,
+    };
+  });
+
+  const edges = items.flatMap(item =>
+    item.prerequisites.filter(p => byId.has(p)).map(p => ({ from: p, to: item.id }))
+  );
+
+  return {
+    nodes,
+    edges,
+    depthCount: rows.size,
+    maxRows: Math.max(0, ...Array.from(rows.values())),
+  };
+};
+
+export const buildPillarGraph = (pillars: LearningPillar[], courses: SavedCourse[]): KnowledgeGraph =>
+  layoutGraph(pillars.map(pillar => {
+    const pillarCourses = courses.filter(c => c.pillar.title === pillar.title);
+    const progress = pillarCourses.length > 0
+      ? pillarCourses.reduce((sum, c) => sum + courseProgress(c), 0) / pillarCourses.length
+      : 0;
+    return {
+      id: pillar.id,
+      label: pillar.title,
+      detail: pillar.description,
+      prerequisites: pillar.prerequisites || [],
+      progress,
+      started: pillarCourses.length > 0,
+    };
+  }));
+
+export const buildPathGraph = (paths: LessonPath[], courses: SavedCourse[]): KnowledgeGraph =>
+  layoutGraph(paths.map(path => {
+    const course = courses.find(c => c.path.title === path.title);
+    return {
+      id: path.id,
+      label: path.title,
+      detail: `${path.difficulty} · ${path.estimatedTime}`,
+      prerequisites: path.prerequisites || [],
+      progress: course ? courseProgress(course) : 0,
+      started: !!course,
+    };
+  }));
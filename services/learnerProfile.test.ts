@@ -0,0 +1,27 @@
+import { describe, expect, it, vi } from 'vitest';
+import { DEFAULT_PROFILE, resolveAudioPreferences } from './learnerProfile';
+import { AudioPreferences } from '../types';
+
+vi.mock('./firebase', () => ({ db: null }));
+vi.mock('./llm', () => ({
+  getProvider: () => ({ speechVoices: [{ id: 'Kore' }, { id: 'Puck' }] }),
+}));
+
+describe('resolveAudioPreferences', () => {
+  it('fills in dialogue voices missing from older saved settings', () => {
+    const audio = { voice: 'Puck', languageCode: 'en-US' } as AudioPreferences;
+
+    expect(resolveAudioPreferences({ ...DEFAULT_PROFILE, audio })).toEqual({
+      voice: 'Puck',
+      languageCode: 'en-US',
+      overviewStyle: 'narration',
+      dialogueVoices: ['Kore', 'Puck'],
+    });
+  });
+
+  it('replaces voices the provider does not offer', () => {
+    const audio: AudioPreferences = { voice: 'Gone', languageCode: '', overviewStyle: 'dialogue', dialogueVoices: ['Puck', 'Gone'] };
+
+    expect(resolveAudioPreferences({ ...DEFAULT_PROFILE, audio }).dialogueVoices).toEqual(['Puck', 'Puck']);
+  });
+});
@@ -0,0 +1,130 @@
+import { doc, getDoc, setDoc } from 'firebase/firestore';
+import { db } from './firebase';
+import { AudioPreferences, LearnerProfile, LearningStyle, OverviewStyle, ReadingLevel } from '../types';
+import { getProvider } from './llm';
+
+// The profile lives on the user document (`users/{uid}`) so every course shares it,
+// with a localStorage copy for demo mode and offline starts.
+
+export const DEFAULT_PROFILE: LearnerProfile = {
+  priorKnowledge: '',
+  goals: '',
+  learningStyle: 'reading',
+  readingLevel: 'standard',
+  weeklyHours: 3,
+  language: 'English',
+};
+
+export const LEARNING_STYLE_LABELS: Record<LearningStyle, string> = {
+  visual: 'Visual (diagrams, imagery)',
+  reading: 'Reading (explanations, notes)',
+  hands_on: 'Hands-on (exercises, projects)',
+  auditory: 'Auditory (talking it through)',
+};
+
+export const READING_LEVEL_LABELS: Record<ReadingLevel, string> = {
+  simple: 'Simple, plain language',
+  standard: 'Standard',
+  advanced: 'Advanced, technical',
+};
+
+// Speech languages offered in the narration settings. Lessons are written in
+// `LearnerProfile.language`; this only steers pronunciation and accent.
+export const SPEECH_LANGUAGES: { code: string; label: string }[] = [
+  { code: '', label: 'Detect from the lesson text' },
+  { code: 'en-US', label: 'English (US)' },
+  { code: 'en-IN', label: 'English (India)' },
+  { code: 'es-US', label: 'Spanish' },
+  { code: 'fr-FR', label: 'French' },
+  { code: 'de-DE', label: 'German' },
+  { code: 'it-IT', label: 'Italian' },
+  { code: 'pt-BR', label: 'Portuguese (Brazil)' },
+  { code: 'nl-NL', label: 'Dutch' },
+  { code: 'pl-PL', label: 'Polish' },
+  { code: 'ru-RU', label: 'Russian' },
+  { code: 'tr-TR', label: 'Turkish' },
+  { code: 'ar-EG', label: 'Arabic' },
+  { code: 'hi-IN', label: 'Hindi' },
+  { code: 'ja-JP', label: 'Japanese' },
+  { code: 'ko-KR', label: 'Korean' },
+  { code: 'id-ID', label: 'Indonesian' },
+  { code: 'vi-VN', label: 'Vietnamese' },
+];
+
+export const OVERVIEW_STYLE_LABELS: Record<OverviewStyle, string> = {
+  narration: 'Single narrator',
+  dialogue: 'Podcast conversation (two voices)',
+};
+
+// Saved audio settings, with voices the current LLM provider doesn't offer
+// (e.g. after switching providers) or missing from older profiles replaced by
+// its defaults.
+export const resolveAudioPreferences = (profile: LearnerProfile | null | undefined): AudioPreferences => {
+  const voices = getProvider().speechVoices.map(v => v.id);
+  const pick = (voice: string | undefined, fallback: string) => voice && voices.includes(voice) ? voice : fallback;
+  const saved = profile?.audio;
+  return {
+    voice: pick(saved?.voice, voices[0]),
+    languageCode: saved?.languageCode || '',
+    overviewStyle: saved?.overviewStyle || 'narration',
+    dialogueVoices: [pick(saved?.dialogueVoices?.[0], voices[0]), pick(saved?.dialogueVoices?.[1], voices[1] || voices[0])],
+  };
+};
+
+const localKey = (userId: string) => `cognipath_profile_${userId}`;
+
+// Prompt fragment describing the learner. Empty when there is no profile, so
+// prompts read exactly as before for users who never filled one in.
+export const describeProfile = (profile: LearnerProfile | null | undefined): string => {
+  if (!profile) return '';
+  const lines = [
+    profile.priorKnowledge && `Prior knowledge: ${profile.priorKnowledge}`,
+    profile.goals && `Goals: ${profile.goals}`,
+    `Preferred learning style: ${LEARNING_STYLE_LABELS[profile.learningStyle]}`,
+    `Reading level: ${READING_LEVEL_LABELS[profile.readingLevel]}`,
+    `Time budget: about ${profile.weeklyHours} hours per week`,
+    `Write all learner-facing text in ${profile.language || DEFAULT_PROFILE.language}`,
+  ].filter(Boolean);
+  return `
+    Learner profile (tailor depth, pacing, examples and tone to this learner):
+    ${lines.map(line => `- ${line}`).join('\n    ')}
+  `;
+};
+
+export const loadProfile = async (userId: string): Promise<LearnerProfile | null> => {
+  let profile: LearnerProfile | null = null;
+  try {
+    const saved = localStorage.getItem(localKey(userId));
+    if (saved) profile = JSON.parse(saved);
+  } catch (e) {
+    console.error("Failed to read learner profile from localStorage", e);
+  }
+
+  if (db) {
+    try {
+      const snapshot = await getDoc(doc(db, `users/${userId}`));
+      const remote = snapshot.data()?.profile as LearnerProfile | undefined;
+      if (remote) profile = remote;
+    } catch (error) {
+      console.error("Error fetching learner profile:", error);
+    }
+  }
+
+  return profile ? { ...DEFAULT_PROFILE, ...profile } : null;
+};
+
+export const saveProfile = async (userId: string, profile: LearnerProfile) => {
+  try {
+    localStorage.setItem(localKey(userId), JSON.stringify(profile));
+  } catch (e) {
+    console.error("Failed to save learner profile to localStorage", e);
+  }
+
+  if (db) {
+    try {
+      await setDoc(doc(db, `users/${userId}`), { profile }, { merge: true });
+    } catch (error) {
+      console.error("Failed to save learner profile to Firestore", error);
+    }
+  }
+};
@@ -0,0 +1,43 @@
+import { LessonRevision, RegenerationReason, SubLesson, SubLessonVersion } from '../types';
+
+// Older versions are dropped past this so the course document stays small.
+export const MAX_LESSON_VERSIONS = 5;
+
+export const REGENERATION_REASONS: { reason: RegenerationReason; label: string }[] = [
+  { reason: 'too_hard', label: 'Too hard' },
+  { reason: 'too_shallow', label: 'Too shallow' },
+  { reason: 'wrong_examples', label: 'Examples didn\'t fit' },
+  { reason: 'other', label: 'Something else' },
+];
+
+// Firestore rejects `undefined`, so optional fields are only set when present.
+const toVersion = (lesson: SubLesson, revision?: LessonRevision): SubLessonVersion => {
+  const { history, ...snapshot } = lesson;
+  return {
+    lesson: snapshot,
+    replacedAt: Date.now(),
+    ...(revision ? { revision: { reason: revision.reason, ...(revision.note ? { note: revision.note } : {}) } } : {}),
+  };
+};
+
+const trimHistory = (history: SubLessonVersion[]): SubLessonVersion[] =>
+  history.slice(-MAX_LESSON_VERSIONS);
+
+// Replaces `current` with a regenerated lesson, moving `current` into the history.
+export const withRegeneratedLesson = (current: SubLesson, next: SubLesson, revision: LessonRevision): SubLesson => ({
+  ...next,
+  history: trimHistory([...(current.history || []), toVersion(current, revision)]),
+});
+
+// Restores a previous version. The version being replaced goes into the history
+// too, so a revert can itself be reverted.
+export const restoreLessonVersion = (current: SubLesson, versionIndex: number): SubLesson => {
+  const history = current.history || [];
+  const target = history[versionIndex];
+  if (!target) return current;
+  const remaining = history.filter((_, i) => i !== versionIndex);
+  return {
+    ...target.lesson,
+    history: trimHistory([...remaining, toVersion(current)]),
+  };
+};
@@ -0,0 +1,110 @@
+import { GoogleGenAI, Modality, GenerateContentResponse } from "@google/genai";
+import { LLMProvider, JsonRequest, ChatOptions, LLMChat, SpeechRequest, SpeechVoice } from "./types";
+import { LLMRequestError } from "./requestPolicy";
+
+const DEFAULT_MODEL = 'gemini-2.5-flash';
+const TTS_MODEL = 'gemini-2.5-flash-preview-tts';
+
+// A selection of the prebuilt TTS voices. Kore was the only voice before voices were selectable.
+export const GEMINI_VOICES: SpeechVoice[] = [
+  { id: 'Kore', label: 'Kore (firm)' },
+  { id: 'Puck', label: 'Puck (upbeat)' },
+  { id: 'Charon', label: 'Charon (informative)' },
+  { id: 'Zephyr', label: 'Zephyr (bright)' },
+  { id: 'Aoede', label: 'Aoede (breezy)' },
+  { id: 'Leda', label: 'Leda (youthful)' },
+  { id: 'Orus', label: 'Orus (firm)' },
+  { id: 'Fenrir', label: 'Fenrir (excitable)' },
+  { id: 'Iapetus', label: 'Iapetus (clear)' },
+  { id: 'Sulafat', label: 'Sulafat (warm)' },
+];
+
+const prebuiltVoice = (voiceName: string) => ({ prebuiltVoiceConfig: { voiceName } });
+
+// Gemini reports blocked prompts / candidates in the response body rather than as errors.
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || finishReason === 'SAFETY' || finishReason === 'PROHIBITED_CONTENT') {
+    throw new LLMRequestError('safety', `Response blocked by Gemini (${blockReason || finishReason}).`);
+  }
+};
+
+export const createGeminiProvider = (apiKey: string | undefined, model: string = DEFAULT_MODEL): LLMProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    name: 'gemini',
+
+    async generateJson({ prompt, schema, systemInstruction }: JsonRequest, signal?: AbortSignal) {
+      const response = await ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: schema,
+          systemInstruction,
+          abortSignal: signal,
+        },
+      });
+      assertNotBlocked(response);
+      return response.text || "";
+    },
+
+    speechVoices: GEMINI_VOICES,
+
+    async generateSpeech({ text, voice, languageCode, speakers }: SpeechRequest, signal?: AbortSignal) {
+      const response = await ai.models.generateContent({
+        model: TTS_MODEL,
+        contents: [{ parts: [{ text }] }],
+        config: {
+          responseModalities: [Modality.AUDIO],
+          speechConfig: {
+            ...(languageCode ? { languageCode } : {}),
+            ...(speakers ? {
+              multiSpeakerVoiceConfig: {
+                speakerVoiceConfigs: speakers.map(s => ({ speaker: s.name, voiceConfig: prebuiltVoice(s.voice) })),
+              },
+            } : {
+              voiceConfig: prebuiltVoice(voice || GEMINI_VOICES[0].id),
+            }),
+          },
+          abortSignal: signal,
+        },
+      });
+      assertNotBlocked(response);
+
+      const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+      if (!base64Audio) {
+        throw new Error("No audio data generated.");
+      }
+      return base64Audio;
+    },
+
+    createChat({ systemInstruction, history }: ChatOptions): LLMChat {
+      const chat = ai.chats.create({
+        model,
+        config: { systemInstruction },
+        history: history.length > 0
+          ? history.map(turn => ({ role: turn.role, parts: [{ text: turn.text }] }))
+          : undefined,
+      });
+
+      return {
+        async sendMessage(message: string, signal?: AbortSignal) {
+          const result = await chat.sendMessage({ message, config: { abortSignal: signal } });
+          assertNotBlocked(result);
+          return result.text || "";
+        },
+
+        async *sendMessageStream(message: string, signal?: AbortSignal) {
+          const stream = await chat.sendMessageStream({ message, config: { abortSignal: signal } });
+          for await (const chunk of stream) {
+            assertNotBlocked(chunk);
+            if (chunk.text) yield chunk.text;
+          }
+        },
+      };
+    },
+  };
+};
@@ -0,0 +1,74 @@
+import { LLMProvider, LLMProviderName } from "./types";
+import { createGeminiProvider } from "./gemini";
+import { createMockProvider } from "./mock";
+import { createOpenAICompatibleProvider } from "./openaiCompatible";
+
+export * from "./types";
+export * from "./requestPolicy";
+
+// Vite's `define` only replaces literal `process.env.NAME` expressions, so each
+// variable is read with its own; `process` itself doesn't exist in the browser.
+const readEnv = (read: () => string | undefined) => {
+  try {
+    return read() || undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const env = {
+  LLM_PROVIDER: readEnv(() => process.env.LLM_PROVIDER),
+  API_KEY: readEnv(() => process.env.API_KEY),
+  LLM_MODEL: readEnv(() => process.env.LLM_MODEL),
+  LLM_BASE_URL: readEnv(() => process.env.LLM_BASE_URL),
+  LLM_API_KEY: readEnv(() => process.env.LLM_API_KEY),
+  LLM_TTS_MODEL: readEnv(() => process.env.LLM_TTS_MODEL),
+  LLM_TTS_VOICE: readEnv(() => process.env.LLM_TTS_VOICE),
+};
+
+const resolveProviderName = (): LLMProviderName => {
+  const configured = env.LLM_PROVIDER;
+  if (configured === 'gemini' || configured === 'mock' || configured === 'openai-compatible') {
+    return configured;
+  }
+  if (configured) {
+    console.warn(`Unknown LLM_PROVIDER "${configured}". Falling back to default provider.`);
+  }
+  // Without a Gemini key there is nothing to talk to, so run against fixtures.
+  if (!env.API_KEY) {
+    console.warn("Gemini API key missing. Using the offline mock LLM provider.");
+    return 'mock';
+  }
+  return 'gemini';
+};
+
+const createProvider = (name: LLMProviderName): LLMProvider => {
+  switch (name) {
+    case 'mock':
+      return createMockProvider();
+    case 'openai-compatible':
+      return createOpenAICompatibleProvider({
+        baseUrl: env.LLM_BASE_URL || 'http://localhost:11434/v1',
+        model: env.LLM_MODEL || 'llama3.1',
+        apiKey: env.LLM_API_KEY,
+        speechModel: env.LLM_TTS_MODEL,
+        voice: env.LLM_TTS_VOICE,
+      });
+    case 'gemini':
+      return createGeminiProvider(env.API_KEY, env.LLM_MODEL);
+  }
+};
+
+let activeProvider: LLMProvider | null = null;
+
+export const getProvider = (): LLMProvider => {
+  if (!activeProvider) {
+    activeProvider = createProvider(resolveProviderName());
+  }
+  return activeProvider;
+};
+
+// Swap the provider at runtime, e.g. to force the mock backend in tests.
+export const setProvider = (provider: LLMProvider) => {
+  activeProvider = provider;
+};
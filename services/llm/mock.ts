@@ -0,0 +1,81 @@
+import { LLMProvider, JsonRequest, ChatOptions, LLMChat, SpeechRequest } from "./types";
+import { buildPillars, buildPlacementQuiz, buildPaths, buildCurriculum, buildSubLesson, buildLessonQuiz, buildFollowUpPath, buildPodcastScript, buildTutorReply, buildSilentAudio } from "./mockFixtures";
+import { GEMINI_VOICES } from "./gemini";
+
+// Offline provider backed by deterministic fixtures. Used for local development
+// without an API key and for exercising the UI without network access.
+
+const MOCK_LATENCY_MS = 300;
+
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(new DOMException('Aborted', 'AbortError'));
+  }, { once: true });
+});
+
+export const createMockProvider = (latencyMs: number = MOCK_LATENCY_MS): LLMProvider => ({
+  name: 'mock',
+
+  async generateJson({ task, context = {} }: JsonRequest, signal?: AbortSignal) {
+    await delay(latencyMs, signal);
+    const subject = context.subject || 'General Studies';
+    const pillar = context.pillar || 'Foundations';
+    const path = context.path || 'Getting Started';
+
+    switch (task) {
+      case 'pillars': return JSON.stringify(buildPillars(subject));
+      case 'placementQuiz': return JSON.stringify(buildPlacementQuiz(pillar));
+      case 'paths': return JSON.stringify(buildPaths(subject, pillar));
+      case 'curriculumOutline': {
+        const curriculum = buildCurriculum(subject, pillar, path);
+        return JSON.stringify({
+          ...curriculum,
+          subLessons: curriculum.subLessons.map(({ title, content }) => ({ title, content })),
+        });
+      }
+      case 'subLesson':
+      case 'subLessonRepair': // A repair is offered every field; the caller only merges the ones it asked for
+        return JSON.stringify(buildSubLesson(path, Number(context.index) || 0));
+      case 'lessonQuiz':
+        return JSON.stringify(buildLessonQuiz(context.lesson || path));
+      case 'followUpPath':
+        return JSON.stringify(buildFollowUpPath(subject, pillar, path));
+      case 'podcastScript':
+        return JSON.stringify(buildPodcastScript(path));
+      case 'curriculumRepair': {
+        // Offer every field; the caller only merges the ones it asked for.
+        const curriculum = buildCurriculum(subject, pillar, path);
+        return JSON.stringify({
+          ...curriculum,
+          repairedSubLessons: curriculum.subLessons.map((lesson, index) => ({ index, lesson })),
+        });
+      }
+    }
+  },
+
+  speechVoices: GEMINI_VOICES,
+
+  async generateSpeech(_request: SpeechRequest, signal?: AbortSignal) {
+    await delay(latencyMs, signal);
+    return buildSilentAudio();
+  },
+
+  createChat(_options: ChatOptions): LLMChat {
+    return {
+      async sendMessage(message: string, signal?: AbortSignal) {
+        await delay(latencyMs, signal);
+        return buildTutorReply(message);
+      },
+
+      async *sendMessageStream(message: string, signal?: AbortSignal) {
+        // Emit word by word so the streaming UI can be exercised offline.
+        for (const word of buildTutorReply(message).split(/(?<= )/)) {
+          await delay(latencyMs / 10, signal);
+          yield word;
+        }
+      },
+    };
+  },
+});
@@ -0,0 +1,160 @@
+import { LearningPillar, LessonPath, Curriculum, SubLesson, PlacementQuestion, Difficulty, PodcastLine } from "../../types";
+
+// Deterministic fixture data for the mock provider. Everything is derived from
+// the request context so the same subject always yields the same tree.
+
+const PILLAR_THEMES: { title: string; icon: string }[] = [
+  { title: 'Foundations', icon: 'general' },
+  { title: 'Core Terminology', icon: 'language' },
+  { title: 'History and Origins', icon: 'history' },
+  { title: 'Key Principles', icon: 'philosophy' },
+  { title: 'Essential Tools', icon: 'tech' },
+  { title: 'Quantitative Methods', icon: 'math' },
+  { title: 'Data and Evidence', icon: 'data' },
+  { title: 'Scientific Basis', icon: 'science' },
+  { title: 'Practical Techniques', icon: 'tech' },
+  { title: 'Design Thinking', icon: 'art' },
+  { title: 'Business Applications', icon: 'business' },
+  { title: 'Ethics and Regulation', icon: 'law' },
+  { title: 'Human Factors', icon: 'social' },
+  { title: 'Health and Safety', icon: 'health' },
+  { title: 'Environmental Impact', icon: 'nature' },
+  { title: 'Communication', icon: 'language' },
+  { title: 'Creative Expression', icon: 'art' },
+  { title: 'Rhythm and Practice', icon: 'music' },
+  { title: 'Systems Thinking', icon: 'philosophy' },
+  { title: 'Problem Solving', icon: 'math' },
+  { title: 'Common Pitfalls', icon: 'general' },
+  { title: 'Case Studies', icon: 'business' },
+  { title: 'Measurement and Metrics', icon: 'data' },
+  { title: 'Advanced Theory', icon: 'science' },
+  { title: 'Emerging Trends', icon: 'tech' },
+  { title: 'Cultural Context', icon: 'social' },
+  { title: 'Professional Practice', icon: 'business' },
+  { title: 'Research Frontiers', icon: 'science' },
+  { title: 'Teaching Others', icon: 'language' },
+  { title: 'Mastery Projects', icon: 'general' },
+];
+
+const DIFFICULTIES: LessonPath['difficulty'][] = ['Beginner', 'Beginner', 'Beginner', 'Intermediate', 'Intermediate', 'Intermediate', 'Intermediate', 'Advanced', 'Advanced', 'Advanced'];
+
+export const buildPillars = (subject: string): LearningPillar[] =>
+  PILLAR_THEMES.map((theme, index) => ({
+    id: index + 1,
+    title: `${subject}: ${theme.title}`,
+    description: `An overview of ${theme.title.toLowerCase()} as they apply to ${subject}.`,
+    icon: theme.icon,
+    // Everything builds on Foundations; later themes also lean on the one three before
+    prerequisites: index === 0 ? [] : index < 3 ? [1] : [1, index - 2].filter((p, i, all) => all.indexOf(p) === i),
+  }));
+
+export const buildPaths = (subject: string, pillar: string): LessonPath[] =>
+  DIFFICULTIES.map((difficulty, index) => ({
+    id: index + 1,
+    title: `${pillar} — Module ${index + 1}`,
+    description: `A ${difficulty.toLowerCase()} module covering part ${index + 1} of ${pillar} within ${subject}.`,
+    difficulty,
+    estimatedTime: `${30 + index * 15} mins`,
+    prerequisites: index === 0 || index % 3 === 0 ? [] : [index],
+  }));
+
+export const buildFollowUpPath = (subject: string, pillar: string, path: string): LessonPath => ({
+  id: 1,
+  title: `${path}: Next Steps`,
+  description: `A follow-up to ${path} that applies it to a larger ${subject} problem within ${pillar}.`,
+  difficulty: 'Intermediate',
+  estimatedTime: '60 mins',
+});
+
+export const buildPodcastScript = (path: string): { lines: PodcastLine[] } => ({
+  lines: [
+    { speaker: 'host', text: `Welcome back! Today we're getting into ${path}.` },
+    { speaker: 'guest', text: `Thanks for having me. It's a topic that clicks once you see the big picture.` },
+    { speaker: 'host', text: `So where should a newcomer start?` },
+    { speaker: 'guest', text: `With the core ideas first, then a worked example, then trying it yourself.` },
+    { speaker: 'host', text: `That's exactly how the lessons are laid out. Let's dive in.` },
+  ],
+});
+
+// The first option is always correct, which makes the quiz easy to drive by hand.
+export const buildPlacementQuiz = (pillar: string): Omit<PlacementQuestion, 'id'>[] =>
+  (['Beginner', 'Beginner', 'Intermediate', 'Intermediate', 'Advanced', 'Advanced'] as Difficulty[]).map((difficulty, index) => ({
+    question: `${difficulty} question ${index + 1} about ${pillar}: which statement is accurate?`,
+    options: ['The accurate statement', 'A common misconception', 'An unrelated fact', 'None of the above'],
+    correctIndex: 0,
+    difficulty,
+    topic: `${difficulty} concept ${index % 2 + 1}`,
+  }));
+
+export const buildSubLesson = (path: string, index: number): SubLesson => ({
+  title: `${path}: Lesson ${index + 1}`,
+  content: `A short summary of lesson ${index + 1} in ${path}.`,
+  generalConcepts: `### Concept ${index + 1}\n\nThis lesson introduces the core idea behind **${path}**, step ${index + 1}.\n\n- First point\n- Second point`,
+  useCases: [`Applying lesson ${index + 1} at work`, `Applying lesson ${index + 1} at home`],
+  caseStudies: [`A team that adopted lesson ${index + 1} and improved their results.`],
+  references: [`${path} handbook, chapter ${index + 1}`],
+  example: `Think of lesson ${index + 1} like learning to ride a bicycle: balance comes before speed.`,
+  visualDescription: `A clean diagram illustrating step ${index + 1} of ${path}`,
+  actionItem: `Write down three ways lesson ${index + 1} applies to your own goals.`,
+});
+
+export const buildCurriculum = (subject: string, pillar: string, path: string): Curriculum => ({
+  pathTitle: path,
+  introduction: `Welcome to ${path}, part of ${pillar} in ${subject}. This offline module uses fixture content.`,
+  objectives: [`Understand the basics of ${path}`, `Apply ${path} to a simple problem`, `Explain ${path} to someone else`],
+  keyConcepts: ['Core vocabulary', 'Mental models', 'Practical application'],
+  realWorldUseCases: [`Using ${path} in everyday decisions`, `Using ${path} in a professional setting`],
+  caseStudy: {
+    title: `${subject} in practice`,
+    scenario: `A learner needed to apply ${path} to a real project with limited time.`,
+    outcome: 'By focusing on the fundamentals first they delivered on schedule.',
+  },
+  subLessons: [0, 1, 2].map(index => buildSubLesson(path, index)),
+  resources: [`${subject} for beginners`, `${pillar} reference guide`, `${path} practice exercises`],
+});
+
+// Flat question shape as the model returns it, one of each type plus extras.
+export const buildLessonQuiz = (lesson: string) => [
+  {
+    type: 'multiple_choice',
+    prompt: `What is the main idea of "${lesson}"?`,
+    options: ['Balance comes before speed', 'Speed comes before balance', 'Neither matters', 'Both are optional'],
+    correctIndex: 0,
+    explanation: 'The lesson example compares learning to riding a bicycle: balance first.',
+  },
+  {
+    type: 'short_answer',
+    prompt: 'Which vehicle does the lesson example use as an analogy?',
+    acceptableAnswers: ['bicycle', 'bike'],
+    explanation: 'The example is about learning to ride a bicycle.',
+  },
+  {
+    type: 'ordering',
+    prompt: 'Put the learning steps in order.',
+    orderedItems: ['Learn the vocabulary', 'Build a mental model', 'Apply it to a problem'],
+    explanation: 'Vocabulary makes the model possible, and the model makes application possible.',
+  },
+  {
+    type: 'multiple_choice',
+    prompt: 'What does the action item ask you to do?',
+    options: ['Write down three applications', 'Read a book', 'Watch a video', 'Nothing'],
+    correctIndex: 0,
+    explanation: 'The action item asks for three ways the lesson applies to your goals.',
+  },
+  {
+    type: 'short_answer',
+    prompt: 'How many applications does the action item ask for? (number)',
+    acceptableAnswers: ['3', 'three'],
+    explanation: 'It asks for three.',
+  },
+];
+
+export const buildTutorReply = (message: string): string =>
+  `*(offline tutor)* You asked: "${message}". In mock mode I can't generate a real answer, but try restating the idea in your own words and linking it to one of the objectives above.`;
+
+// Half a second of silence as 24kHz 16-bit mono PCM.
+export const buildSilentAudio = (): string => {
+  const sampleRate = 24000;
+  const bytesPerSample = 2;
+  return btoa('\0'.repeat(sampleRate * bytesPerSample * 0.5));
+};
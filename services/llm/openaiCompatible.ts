@@ -0,0 +1,211 @@
+import { Schema } from "@google/genai";
+import { LLMProvider, JsonRequest, ChatOptions, ChatTurn, LLMChat, SpeechRequest, SpeechVoice } from "./types";
+import { LLMRequestError } from "./requestPolicy";
+
+// Adapter for any server exposing the OpenAI REST surface (Ollama, LM Studio,
+// llama.cpp, vLLM, ...). Only `/chat/completions` and `/audio/speech` are used.
+
+interface OpenAIMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  speechModel?: string;
+  voice?: string;
+}
+
+// Gemini schemas use upper-case `Type` values; JSON Schema wants lower-case.
+const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+  const result: Record<string, unknown> = {};
+  if (schema.type) result.type = schema.type.toLowerCase();
+  if (schema.description) result.description = schema.description;
+  if (schema.enum) result.enum = schema.enum;
+  if (schema.items) result.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+  }
+  if (schema.required) result.required = schema.required;
+  return result;
+};
+
+const toMessages = (systemInstruction: string | undefined, turns: ChatTurn[]): OpenAIMessage[] => {
+  const messages: OpenAIMessage[] = [];
+  if (systemInstruction) messages.push({ role: 'system', content: systemInstruction });
+  turns.forEach(turn => messages.push({
+    role: turn.role === 'model' ? 'assistant' : 'user',
+    content: turn.text,
+  }));
+  return messages;
+};
+
+// Parses an OpenAI server-sent event stream into content deltas.
+async function* readCompletionStream(response: Response): AsyncGenerator<string> {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      const payload = line.replace(/^data:\s*/, '').trim();
+      if (!line.startsWith('data:') || !payload) continue;
+      if (payload === '[DONE]') return;
+      const choice = JSON.parse(payload).choices?.[0];
+      if (choice?.finish_reason === 'content_filter') {
+        throw new LLMRequestError('safety', 'Response blocked by the endpoint content filter.');
+      }
+      if (choice?.delta?.content) yield choice.delta.content;
+    }
+  }
+}
+
+const arrayBufferToBase64 = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+};
+
+const OPENAI_VOICES: SpeechVoice[] = ['alloy', 'echo', 'fable', 'onyx', 'nova', 'shimmer']
+  .map(id => ({ id, label: id.charAt(0).toUpperCase() + id.slice(1) }));
+
+// Splits a "Name: line" dialogue script into turns for the given speakers.
+const splitDialogue = (text: string, speakers: SpeechRequest['speakers'] & {}): { voice: string; text: string }[] => {
+  const turns: { voice: string; text: string }[] = [];
+  text.split('\n').forEach(line => {
+    const speaker = speakers.find(s => line.startsWith(`${s.name}:`));
+    if (speaker) turns.push({ voice: speaker.voice, text: line.slice(speaker.name.length + 1).trim() });
+    else if (line.trim() && turns.length > 0) turns[turns.length - 1].text += ` ${line.trim()}`;
+  });
+  return turns.filter(turn => turn.text);
+};
+
+export const createOpenAICompatibleProvider = (config: OpenAICompatibleConfig): LLMProvider => {
+  const baseUrl = config.baseUrl.replace(/\/+$/, '');
+  // A configured voice that isn't one of the standard ones (e.g. a local TTS server's) comes first
+  const speechVoices = config.voice && !OPENAI_VOICES.some(v => v.id === config.voice)
+    ? [{ id: config.voice, label: config.voice }, ...OPENAI_VOICES]
+    : OPENAI_VOICES;
+  const defaultVoice = config.voice || speechVoices[0].id;
+
+  const post = async (path: string, body: unknown, signal?: AbortSignal): Promise<Response> => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+    if (!response.ok) {
+      // Shaped like the Gemini SDK's ApiError so the request policy can classify it.
+      throw Object.assign(
+        new Error(`LLM endpoint responded with ${response.status}: ${await response.text()}`),
+        { status: response.status }
+      );
+    }
+    return response;
+  };
+
+  const complete = async (
+    messages: OpenAIMessage[],
+    extra: Record<string, unknown> = {},
+    signal?: AbortSignal
+  ): Promise<string> => {
+    const response = await post('/chat/completions', { model: config.model, messages, ...extra }, signal);
+    const data = await response.json();
+    const choice = data.choices?.[0];
+    if (choice?.finish_reason === 'content_filter') {
+      throw new LLMRequestError('safety', 'Response blocked by the endpoint content filter.');
+    }
+    return choice?.message?.content || "";
+  };
+
+  return {
+    name: 'openai-compatible',
+
+    async generateJson({ task, prompt, schema, systemInstruction }: JsonRequest, signal?: AbortSignal) {
+      const jsonSchema = toJsonSchema(schema);
+      // Not every local server honours `response_format`, so the schema is repeated in the prompt.
+      const instruction = [
+        systemInstruction,
+        `Respond with JSON only, matching this JSON Schema:\n${JSON.stringify(jsonSchema)}`,
+      ].filter(Boolean).join('\n\n');
+
+      return complete(toMessages(instruction, [{ role: 'user', text: prompt }]), {
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: task, schema: jsonSchema },
+        },
+      }, signal);
+    },
+
+    speechVoices,
+
+    async generateSpeech({ text, voice, speakers }: SpeechRequest, signal?: AbortSignal) {
+      const speak = async (input: string, voiceName: string) => {
+        const response = await post('/audio/speech', {
+          model: config.speechModel || 'tts-1',
+          voice: voiceName,
+          input,
+          // Raw 24kHz 16-bit mono PCM, the same format Gemini TTS returns.
+          response_format: 'pcm',
+        }, signal);
+        return new Uint8Array(await response.arrayBuffer());
+      };
+
+      if (!speakers) return arrayBufferToBase64((await speak(text, voice || defaultVoice)).buffer);
+
+      // No multi-speaker endpoint: voice each turn separately and join the PCM
+      const clips: Uint8Array[] = [];
+      for (const turn of splitDialogue(text, speakers)) {
+        clips.push(await speak(turn.text, turn.voice));
+      }
+      const joined = new Uint8Array(clips.reduce((sum, clip) => sum + clip.length, 0));
+      clips.reduce((offset, clip) => { joined.set(clip, offset); return offset + clip.length; }, 0);
+      return arrayBufferToBase64(joined.buffer);
+    },
+
+    createChat({ systemInstruction, history }: ChatOptions): LLMChat {
+      const turns: ChatTurn[] = [...history];
+
+      return {
+        async sendMessage(message: string, signal?: AbortSignal) {
+          const reply = await complete(toMessages(systemInstruction, [...turns, { role: 'user', text: message }]), {}, signal);
+          turns.push({ role: 'user', text: message }, { role: 'model', text: reply });
+          return reply;
+        },
+
+        async *sendMessageStream(message: string, signal?: AbortSignal) {
+          const response = await post('/chat/completions', {
+            model: config.model,
+            messages: toMessages(systemInstruction, [...turns, { role: 'user', text: message }]),
+            stream: true,
+          }, signal);
+
+          let reply = '';
+          for await (const delta of readCompletionStream(response)) {
+            reply += delta;
+            yield delta;
+          }
+          turns.push({ role: 'user', text: message }, { role: 'model', text: reply });
+        },
+      };
+    },
+  };
+};
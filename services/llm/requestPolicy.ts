@@ -0,0 +1,174 @@
+// Shared retry / timeout / cancellation policy for every model call.
+// Provider errors are classified into `LLMRequestError` kinds so callers can
+// decide whether to retry and what to tell the learner.
+
+export type LLMErrorKind =
+  | 'rate_limit'
+  | 'quota'
+  | 'safety'
+  | 'network'
+  | 'server'
+  | 'timeout'
+  | 'malformed'
+  | 'cancelled'
+  | 'unknown';
+
+const RETRYABLE_KINDS: LLMErrorKind[] = ['rate_limit', 'network', 'server', 'timeout', 'malformed'];
+
+const USER_MESSAGES: Record<LLMErrorKind, string> = {
+  rate_limit: "The AI tutor is receiving too many requests right now. Please wait a moment and try again.",
+  quota: "The AI usage quota for this app has been used up. Please try again later.",
+  safety: "The AI declined to answer because the request was flagged by its safety filters. Try rephrasing your topic.",
+  network: "Couldn't reach the AI service. Check your internet connection and try again.",
+  server: "The AI service is temporarily unavailable. Please try again in a few minutes.",
+  timeout: "The AI took too long to respond. Please try again.",
+  malformed: "The AI returned an unexpected response. Please try again.",
+  cancelled: "Request cancelled.",
+  unknown: "Something went wrong while talking to the AI. Please try again.",
+};
+
+export class LLMRequestError extends Error {
+  readonly kind: LLMErrorKind;
+  readonly cause?: unknown;
+
+  constructor(kind: LLMErrorKind, message?: string, cause?: unknown) {
+    super(message || USER_MESSAGES[kind]);
+    this.name = 'LLMRequestError';
+    this.kind = kind;
+    this.cause = cause;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+
+  get userMessage(): string {
+    return USER_MESSAGES[this.kind];
+  }
+}
+
+export const classifyError = (error: unknown): LLMRequestError => {
+  if (error instanceof LLMRequestError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  const status = typeof (error as { status?: unknown })?.status === 'number'
+    ? (error as { status: number }).status
+    : undefined;
+
+  if ((error as { name?: string })?.name === 'AbortError') {
+    return new LLMRequestError('cancelled', undefined, error);
+  }
+  if (error instanceof SyntaxError) {
+    return new LLMRequestError('malformed', undefined, error);
+  }
+  if (status === 429 || /RESOURCE_EXHAUSTED|rate limit|too many requests/i.test(message)) {
+    // Per-minute limits clear on their own; daily / billing quotas do not.
+    return /per day|daily|billing|exceeded your current quota/i.test(message)
+      ? new LLMRequestError('quota', undefined, error)
+      : new LLMRequestError('rate_limit', undefined, error);
+  }
+  if (/SAFETY|blocked|PROHIBITED_CONTENT/.test(message)) {
+    return new LLMRequestError('safety', undefined, error);
+  }
+  if (status !== undefined && status >= 500) {
+    return new LLMRequestError('server', undefined, error);
+  }
+  if (error instanceof TypeError || /network|failed to fetch|ECONNREFUSED|ENOTFOUND/i.test(message)) {
+    return new LLMRequestError('network', undefined, error);
+  }
+  return new LLMRequestError('unknown', undefined, error);
+};
+
+// Message suitable for `state.error`, whatever was thrown.
+export const toUserMessage = (error: unknown): string => {
+  if (error instanceof LLMRequestError) return error.userMessage;
+  if (error instanceof Error && error.message) return error.message;
+  return USER_MESSAGES.unknown;
+};
+
+export const isCancellation = (error: unknown): boolean =>
+  error instanceof LLMRequestError && error.kind === 'cancelled';
+
+export interface RequestPolicy {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  timeoutMs: number;
+}
+
+export const DEFAULT_POLICY: RequestPolicy = {
+  retries: 3,
+  baseDelayMs: 800,
+  maxDelayMs: 8000,
+  timeoutMs: 60000,
+};
+
+// Exponential backoff with "equal jitter": half the window is fixed, half random.
+const backoffDelay = (attempt: number, policy: RequestPolicy): number => {
+  const window = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return window / 2 + Math.random() * (window / 2);
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new LLMRequestError('cancelled'));
+    return;
+  }
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new LLMRequestError('cancelled'));
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Runs a single attempt with its own timeout, linked to the caller's signal.
+const runAttempt = async <T>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<T> => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const forwardAbort = () => controller.abort();
+  signal?.addEventListener('abort', forwardAbort, { once: true });
+
+  try {
+    return await operation(controller.signal);
+  } catch (error) {
+    if (timedOut) throw new LLMRequestError('timeout', undefined, error);
+    if (signal?.aborted) throw new LLMRequestError('cancelled', undefined, error);
+    throw classifyError(error);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', forwardAbort);
+  }
+};
+
+export const withRequestPolicy = async <T>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  options: Partial<RequestPolicy> & { signal?: AbortSignal; label?: string } = {}
+): Promise<T> => {
+  const { signal, label = 'LLM request', ...overrides } = options;
+  const policy: RequestPolicy = { ...DEFAULT_POLICY, ...overrides };
+
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) throw new LLMRequestError('cancelled');
+    try {
+      return await runAttempt(operation, policy.timeoutMs, signal);
+    } catch (error) {
+      const classified = classifyError(error);
+      if (!classified.retryable || attempt >= policy.retries) throw classified;
+      const delay = backoffDelay(attempt, policy);
+      console.warn(`${label} failed (${classified.kind}), retrying in ${Math.round(delay)}ms`, classified.cause);
+      await sleep(delay, signal);
+    }
+  }
+};
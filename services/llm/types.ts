@@ -0,0 +1,66 @@
+import { Schema } from "@google/genai";
+
+// Provider-neutral contracts for every model call the app makes.
+// Response schemas are expressed with the Gemini `Schema` shape since that is what
+// the prompts were written against; other adapters translate it as needed.
+
+export type LLMProviderName = 'gemini' | 'mock' | 'openai-compatible';
+
+// Identifies which generation a JSON request belongs to, so fixture-backed
+// providers can answer without parsing the prompt.
+export type JsonTask = 'pillars' | 'placementQuiz' | 'paths' | 'curriculumOutline' | 'curriculumRepair' | 'subLesson' | 'subLessonRepair' | 'lessonQuiz' | 'followUpPath' | 'podcastScript';
+
+export interface JsonRequest {
+  task: JsonTask;
+  prompt: string;
+  schema: Schema;
+  systemInstruction?: string;
+  // Values interpolated into the prompt (subject, pillar, path...). Lets fixture
+  // providers build matching output without parsing the prompt text.
+  context?: Record<string, string>;
+}
+
+export interface SpeechVoice {
+  id: string; // Provider voice name
+  label: string;
+}
+
+export interface SpeechSpeaker {
+  name: string; // As it prefixes lines in the script, e.g. "Host: ..."
+  voice: string;
+}
+
+export interface SpeechRequest {
+  text: string;
+  voice?: string; // Provider default when absent
+  languageCode?: string; // BCP-47, e.g. 'es-ES'; detected from the text when absent
+  // Two-speaker dialogue; `voice` is ignored when set
+  speakers?: [SpeechSpeaker, SpeechSpeaker];
+}
+
+export interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export interface ChatOptions {
+  systemInstruction: string;
+  history: ChatTurn[];
+}
+
+export interface LLMChat {
+  sendMessage(message: string, signal?: AbortSignal): Promise<string>;
+  // Yields text deltas as the model produces them.
+  sendMessageStream(message: string, signal?: AbortSignal): AsyncGenerator<string>;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  // Returns the raw model text; callers are responsible for parsing.
+  generateJson(request: JsonRequest, signal?: AbortSignal): Promise<string>;
+  // Voices accepted by generateSpeech; the first is the default.
+  readonly speechVoices: SpeechVoice[];
+  // Returns base64 encoded 16-bit mono PCM at 24kHz.
+  generateSpeech(request: SpeechRequest, signal?: AbortSignal): Promise<string>;
+  createChat(options: ChatOptions): LLMChat;
+}
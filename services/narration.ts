@@ -0,0 +1,141 @@
+import { AudioChapter, AudioPreferences, Curriculum, NarrationAudio, SavedCourse } from "../types";
+import { generatePodcastScript, generateSpeechAudio } from "./geminiService";
+import { getProvider } from "./llm";
+import { joinPcmClips } from "./audio";
+import { hashText } from "./flashcards";
+
+// A course is listened to as a playlist: an introduction track followed by one
+// track per written lesson. Each lesson track is narrated in sections (concepts,
+// example, action item) that become its chapters. Audio is generated on first
+// listen and kept in the asset store; the curriculum only stores its id.
+
+export interface NarrationSection {
+  title: string;
+  text: string;
+}
+
+export interface NarrationTrack {
+  id: string; // 'intro' or `lesson-${index}`
+  title: string;
+  lessonIndex: number | null; // Null for the introduction
+  sections: NarrationSection[];
+  audio?: NarrationAudio; // Absent until generated
+}
+
+export const INTRO_TRACK_ID = 'intro';
+
+export const lessonTrackId = (lessonIndex: number) => `lesson-${lessonIndex}`;
+
+// Markdown syntax reads badly aloud
+const toSpeech = (markdown: string): string => markdown
+  .replace(/```[\s\S]*?```/g, ' ')
+  .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+  .replace(/[#*_`>|]/g, '')
+  .replace(/\s+/g, ' ')
+  .trim();
+
+const introTrack = (curriculum: Curriculum): NarrationTrack => {
+  // Courses from before per-lesson narration have a single overview recording
+  const legacy = curriculum.audioAssetId
+    ? { assetId: curriculum.audioAssetId, chapters: [{ title: 'Module overview', start: 0 }] }
+    : undefined;
+  return {
+    id: INTRO_TRACK_ID,
+    title: 'Introduction',
+    lessonIndex: null,
+    sections: [
+      { title: 'Introduction', text: `Welcome to ${curriculum.pathTitle}. ${curriculum.introduction}` },
+      { title: 'What you will learn', text: `By the end of this module you will be able to: ${curriculum.objectives.join('. ')}. Key concepts: ${curriculum.keyConcepts.join(', ')}.` },
+    ],
+    audio: curriculum.narration || legacy,
+  };
+};
+
+// Lessons still being written are left out until their content exists.
+export const narrationTracks = (curriculum: Curriculum): NarrationTrack[] => [
+  introTrack(curriculum),
+  ...curriculum.subLessons.flatMap((lesson, index): NarrationTrack[] => lesson.status ? [] : [{
+    id: lessonTrackId(index),
+    title: `${index + 1}. ${lesson.title}`,
+    lessonIndex: index,
+    sections: [
+      { title: 'Concepts', text: `Lesson ${index + 1}: ${lesson.title}. ${toSpeech(lesson.generalConcepts)}` },
+      { title: 'Example', text: toSpeech(lesson.example) },
+      { title: 'Action item', text: `Your action item: ${toSpeech(lesson.actionItem)}` },
+    ].filter(section => section.text),
+    audio: lesson.narration,
+  }]),
+];
+
+// Resume point for a course, falling back to the start of the playlist.
+export const resumePosition = (course: SavedCourse): { trackId: string; time: number } => {
+  const saved = course.listeningPosition;
+  const tracks = narrationTracks(course.curriculum);
+  if (saved && tracks.some(t => t.id === saved.trackId)) return { trackId: saved.trackId, time: saved.time };
+  return { trackId: INTRO_TRACK_ID, time: 0 };
+};
+
+export const hasListeningProgress = (course: SavedCourse): boolean => {
+  const { trackId, time } = resumePosition(course);
+  return trackId !== INTRO_TRACK_ID || time > 0;
+};
+
+const isDialogue = (track: NarrationTrack, preferences: AudioPreferences) =>
+  track.id === INTRO_TRACK_ID && preferences.overviewStyle === 'dialogue';
+
+// Identifies the voice settings a track is narrated with, so changing them re-narrates it.
+export const narrationVoiceKey = (track: NarrationTrack, preferences: AudioPreferences): string =>
+  isDialogue(track, preferences)
+    ? `dialogue:${preferences.dialogueVoices.join('+')}:${preferences.languageCode}`
+    : `${preferences.voice}:${preferences.languageCode}`;
+
+export const isNarrationCurrent = (audio: NarrationAudio, track: NarrationTrack, preferences: AudioPreferences): boolean =>
+  (audio.voiceKey ?? `${getProvider().speechVoices[0].id}:`) === narrationVoiceKey(track, preferences);
+
+// Named after the script and voice so a rewritten lesson never plays stale audio.
+export const narrationAssetName = (track: NarrationTrack, preferences: AudioPreferences): string =>
+  `narration-${track.id}-${hashText([...track.sections.map(s => s.text), narrationVoiceKey(track, preferences)].join('\n'))}`;
+
+export const withNarration = (curriculum: Curriculum, track: NarrationTrack, audio: NarrationAudio): Curriculum => {
+  if (track.lessonIndex === null) return { ...curriculum, narration: audio };
+  return {
+    ...curriculum,
+    subLessons: curriculum.subLessons.map((lesson, i) => i === track.lessonIndex ? { ...lesson, narration: audio } : lesson),
+  };
+};
+
+const SPEAKER_NAMES = { host: 'Host', guest: 'Guest' } as const;
+
+// The introduction as a two-voice conversation written for the module.
+const narrateDialogue = async (curriculum: Curriculum, preferences: AudioPreferences, signal?: AbortSignal) => {
+  const lines = await generatePodcastScript(curriculum, signal);
+  const script = lines.map(line => `${SPEAKER_NAMES[line.speaker]}: ${line.text}`).join('\n');
+  const [hostVoice, guestVoice] = preferences.dialogueVoices;
+  const clip = await generateSpeechAudio({
+    text: `Read this podcast conversation between ${SPEAKER_NAMES.host} and ${SPEAKER_NAMES.guest}:\n${script}`,
+    languageCode: preferences.languageCode || undefined,
+    speakers: [{ name: SPEAKER_NAMES.host, voice: hostVoice }, { name: SPEAKER_NAMES.guest, voice: guestVoice }],
+  }, signal);
+  return { blob: joinPcmClips([clip]).wav, chapters: [{ title: 'Podcast conversation', start: 0 }] };
+};
+
+// Narrates each section separately so chapter start times are exact.
+export const narrateTrack = async (
+  curriculum: Curriculum,
+  track: NarrationTrack,
+  preferences: AudioPreferences,
+  signal?: AbortSignal
+): Promise<{ blob: Blob; chapters: AudioChapter[] }> => {
+  if (isDialogue(track, preferences)) return narrateDialogue(curriculum, preferences, signal);
+
+  const clips = await Promise.all(track.sections.map(section => generateSpeechAudio({
+    text: section.text,
+    voice: preferences.voice,
+    languageCode: preferences.languageCode || undefined,
+  }, signal)));
+  const { wav, starts } = joinPcmClips(clips);
+  return {
+    blob: wav,
+    chapters: track.sections.map((section, i) => ({ title: section.title, start: starts[i] })),
+  };
+};
@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { COURSE_SCHEMA_VERSION, CourseMigrationError, migrateCourse, migrateCourseRecord, salvageCourses } from './courseMigrations';
+
+// A course as saved before `schemaVersion` existed
+const legacyCourse = (overrides: Record<string, unknown> = {}) => ({
+  id: 'course-1',
+  subject: 'Chemistry',
+  pillar: { id: 1, title: 'Bonding', description: '' },
+  path: { id: 1, title: 'Foundations', description: '' },
+  curriculum: {
+    pathTitle: 'Foundations',
+    subLessons: [{ title: 'Ionic bonds', content: 'Electrons move.', detailedContent: 'Metals give electrons away.' }],
+  },
+  createdAt: 1,
+  lastAccessed: 2,
+  ...overrides,
+});
+
+describe('migrateCourseRecord', () => {
+  it('renames detailedContent to generalConcepts and adds missing progress', () => {
+    const migrated = migrateCourseRecord(legacyCourse());
+
+    expect(migrated.schemaVersion).toBe(COURSE_SCHEMA_VERSION);
+    expect(migrated.completedSubLessons).toEqual([]);
+    expect(migrated.subLessonFeedback).toEqual({});
+    expect((migrated.curriculum as any).subLessons[0]).toEqual({
+      title: 'Ionic bonds',
+      content: 'Electrons move.',
+      generalConcepts: 'Metals give electrons away.',
+    });
+  });
+
+  it('leaves current courses alone', () => {
+    const current = { ...legacyCourse(), schemaVersion: COURSE_SCHEMA_VERSION, completedSubLessons: [0] };
+    expect(migrateCourseRecord(current)).toBe(current);
+  });
+
+  it('refuses courses from a newer release', () => {
+    expect(() => migrateCourseRecord(legacyCourse({ schemaVersion: COURSE_SCHEMA_VERSION + 1 }))).toThrow(CourseMigrationError);
+  });
+});
+
+describe('migrateCourse', () => {
+  it('fills defaults for optional fields', () => {
+    const course = migrateCourse(legacyCourse({ subject: undefined, completedSubLessons: [0, 'x'] }));
+    expect(course.subject).toBe('');
+    expect(course.completedSubLessons).toEqual([0]);
+  });
+
+  it('rejects courses that can\'t be opened', () => {
+    expect(() => migrateCourse('nope')).toThrow(CourseMigrationError);
+    expect(() => migrateCourse(legacyCourse({ id: '' }))).toThrow(CourseMigrationError);
+    expect(() => migrateCourse(legacyCourse({ curriculum: { subLessons: [] } }))).toThrow(CourseMigrationError);
+    expect(() => migrateCourse(legacyCourse({ curriculum: { subLessons: [{ content: 'No title' }] } }))).toThrow(CourseMigrationError);
+  });
+});
+
+describe('salvageCourses', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('keeps the readable courses and counts the rest', () => {
+    const { courses, dropped } = salvageCourses([legacyCourse(), legacyCourse({ id: 'course-2', pillar: null }), 42]);
+
+    expect(courses.map(c => c.id)).toEqual(['course-1']);
+    expect(dropped).toBe(2);
+  });
+
+  it('treats anything but a list as no courses', () => {
+    expect(salvageCourses(undefined)).toEqual({ courses: [], dropped: 0 });
+  });
+});
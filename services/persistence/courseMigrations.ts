@@ -0,0 +1,94 @@
+import { SavedCourse } from "../../types";
+import { validateCurriculum } from "../curriculumValidator";
+import { Migration, StoredRecord, isRecord, runMigrations } from "./migrations";
+
+// Courses are stored in the session, IndexedDB, Firestore and course bundles, so
+// they carry their own `schemaVersion`. Courses written before it existed are
+// version 1.
+
+export const COURSE_SCHEMA_VERSION = 2;
+
+const asArray = (value: unknown): unknown[] => Array.isArray(value) ? value : [];
+
+const COURSE_MIGRATIONS: Record<number, Migration> = {
+  // Lessons named their explanation `detailedContent`, and early courses had no
+  // feedback or completion records.
+  1: (course) => {
+    const curriculum = isRecord(course.curriculum) ? course.curriculum : {};
+    return {
+      ...course,
+      schemaVersion: 2,
+      completedSubLessons: asArray(course.completedSubLessons),
+      subLessonFeedback: isRecord(course.subLessonFeedback) ? course.subLessonFeedback : {},
+      curriculum: {
+        ...curriculum,
+        subLessons: asArray(curriculum.subLessons).map(lesson => {
+          if (!isRecord(lesson) || !('detailedContent' in lesson)) return lesson;
+          const { detailedContent, ...rest } = lesson;
+          return { generalConcepts: detailedContent, ...rest };
+        }),
+      },
+    };
+  },
+};
+
+export const courseSchemaVersion = (course: StoredRecord): number =>
+  typeof course.schemaVersion === 'number' ? course.schemaVersion : 1;
+
+export class CourseMigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CourseMigrationError';
+  }
+}
+
+// Upgrades a stored course to the current shape without checking its content.
+export const migrateCourseRecord = (raw: StoredRecord): StoredRecord => {
+  const version = courseSchemaVersion(raw);
+  if (version > COURSE_SCHEMA_VERSION) {
+    throw new CourseMigrationError(`Course ${String(raw.id)} was saved by a newer version of CogniPath`);
+  }
+  return runMigrations(raw, version, COURSE_SCHEMA_VERSION, COURSE_MIGRATIONS);
+};
+
+// Migrates and checks a stored course. Throws a `CourseMigrationError` when the
+// course can't be used; the fields a course needs to open are checked, optional
+// ones are left as they are.
+export const migrateCourse = (raw: unknown): SavedCourse => {
+  if (!isRecord(raw)) throw new CourseMigrationError("Stored course is not an object");
+  const course = migrateCourseRecord(raw);
+  if (typeof course.id !== 'string' || !course.id) throw new CourseMigrationError("Stored course has no id");
+  if (!isRecord(course.pillar) || !isRecord(course.path)) throw new CourseMigrationError(`Course ${course.id} is missing its pillar or path`);
+  if (!isRecord(course.curriculum) || asArray(course.curriculum.subLessons).length === 0) {
+    throw new CourseMigrationError(`Course ${course.id} has no lessons`);
+  }
+  // Outline mode: lessons still being written only need a title and summary
+  const lessonIssues = validateCurriculum(course.curriculum, String(course.path.title ?? ''), 'outline').issues
+    .filter(issue => issue.field === 'subLessons');
+  if (lessonIssues.length > 0) {
+    throw new CourseMigrationError(`Course ${course.id} has unreadable lessons (${lessonIssues.map(issue => issue.path).join(', ')})`);
+  }
+  const now = Date.now();
+  return {
+    ...course,
+    subject: typeof course.subject === 'string' ? course.subject : '',
+    completedSubLessons: asArray(course.completedSubLessons).filter((i): i is number => typeof i === 'number'),
+    createdAt: typeof course.createdAt === 'number' ? course.createdAt : now,
+    lastAccessed: typeof course.lastAccessed === 'number' ? course.lastAccessed : now,
+  } as unknown as SavedCourse;
+};
+
+// Keeps every course that can be read, logging the ones that can't.
+export const salvageCourses = (raw: unknown): { courses: SavedCourse[]; dropped: number } => {
+  const courses: SavedCourse[] = [];
+  let dropped = 0;
+  asArray(raw).forEach(entry => {
+    try {
+      courses.push(migrateCourse(entry));
+    } catch (error) {
+      console.warn("Dropping unreadable course", error);
+      dropped++;
+    }
+  });
+  return { courses, dropped };
+};
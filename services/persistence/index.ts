@@ -0,0 +1,3 @@
+export * from "./migrations";
+export * from "./courseMigrations";
+export * from "./sessionState";
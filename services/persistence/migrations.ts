@@ -0,0 +1,25 @@
+// Stored data carries the version of the shape it was written in. Migrations
+// are keyed by the version they upgrade from and run in order up to the
+// current one, so a record from any earlier release reaches today's shape.
+
+export type StoredRecord = Record<string, unknown>;
+
+export type Migration = (value: StoredRecord) => StoredRecord;
+
+export const isRecord = (value: unknown): value is StoredRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const runMigrations = (
+  value: StoredRecord,
+  fromVersion: number,
+  toVersion: number,
+  migrations: Record<number, Migration>
+): StoredRecord => {
+  let migrated = value;
+  for (let version = fromVersion; version < toVersion; version++) {
+    const step = migrations[version];
+    if (!step) throw new Error(`No migration from version ${version}`);
+    migrated = step(migrated);
+  }
+  return migrated;
+};
@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AppStep } from '../../types';
+import { INITIAL_SESSION } from '../../store/state';
+import { SESSION_VERSION, loadSessionState, saveSessionState } from './sessionState';
+
+const createStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+    removeItem: (key: string) => { items.delete(key); },
+  };
+};
+
+const course = {
+  id: 'course-1',
+  schemaVersion: 2,
+  subject: 'Chemistry',
+  pillar: { id: 1, title: 'Bonding', description: '' },
+  path: { id: 1, title: 'Foundations', description: '' },
+  curriculum: { pathTitle: 'Foundations', subLessons: [{ title: 'Ionic bonds', content: 'Electrons move.' }] },
+  completedSubLessons: [],
+  subLessonFeedback: {},
+  createdAt: 1,
+  lastAccessed: 2,
+};
+
+const user = { id: 'ada', name: 'Ada', joinedAt: 1 };
+
+describe('loadSessionState', () => {
+  let storage: ReturnType<typeof createStorage>;
+
+  beforeEach(() => {
+    storage = createStorage();
+    vi.stubGlobal('localStorage', storage);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('starts fresh when nothing was saved', () => {
+    expect(loadSessionState(INITIAL_SESSION)).toEqual({ state: INITIAL_SESSION, recovered: false });
+  });
+
+  it('migrates a version 5 session from its legacy key', () => {
+    storage.setItem('cognipath_state_v5', JSON.stringify({
+      step: AppStep.DASHBOARD,
+      user,
+      library: [course],
+      subject: 'Chemistry',
+    }));
+
+    const { state, recovered } = loadSessionState(INITIAL_SESSION);
+
+    expect(recovered).toBe(false);
+    expect(state).toMatchObject({ step: AppStep.DASHBOARD, user, subject: 'Chemistry' });
+    expect(state.library.map(c => c.id)).toEqual(['course-1']);
+    // Fields added after version 5 load with their defaults
+    expect(state.cardReviews).toEqual({});
+  });
+
+  it('moves a migrated session to the versioned key when saved', () => {
+    storage.setItem('cognipath_state_v5', JSON.stringify({ step: AppStep.DASHBOARD, user }));
+    saveSessionState(loadSessionState(INITIAL_SESSION).state);
+
+    expect(storage.getItem('cognipath_state_v5')).toBeNull();
+    expect(JSON.parse(storage.getItem('cognipath_state')!).version).toBe(SESSION_VERSION);
+  });
+
+  it('resets only the fields and courses that can\'t be read', () => {
+    storage.setItem('cognipath_state', JSON.stringify({
+      version: SESSION_VERSION,
+      state: {
+        step: AppStep.DASHBOARD,
+        user,
+        subject: 'Chemistry',
+        quizScores: 'broken',
+        subjects: { not: 'a list' },
+        isLoading: true,
+        library: [course, { id: 'course-2' }],
+      },
+    }));
+
+    const { state, recovered } = loadSessionState(INITIAL_SESSION);
+
+    expect(recovered).toBe(true);
+    expect(state).toMatchObject({ step: AppStep.DASHBOARD, user, subject: 'Chemistry', quizScores: {}, subjects: [], isLoading: false });
+    expect(state.library.map(c => c.id)).toEqual(['course-1']);
+  });
+
+  it('falls back to the dashboard when the screen\'s data was lost', () => {
+    storage.setItem('cognipath_state', JSON.stringify({
+      version: SESSION_VERSION,
+      state: { step: AppStep.CURRICULUM, user, curriculum: 'broken' },
+    }));
+
+    expect(loadSessionState(INITIAL_SESSION).state.step).toBe(AppStep.DASHBOARD);
+  });
+
+  it('backs up a session that can\'t be parsed', () => {
+    storage.setItem('cognipath_state', '{not json');
+
+    expect(loadSessionState(INITIAL_SESSION)).toEqual({ state: INITIAL_SESSION, recovered: true });
+    expect(storage.getItem('cognipath_state_backup')).toBe('{not json');
+  });
+});
@@ -0,0 +1,161 @@
+import { AppState, AppStep } from "../../types";
+import { Migration, StoredRecord, isRecord, runMigrations } from "./migrations";
+import { salvageCourses } from "./courseMigrations";
+
+// The active session is saved to localStorage so a refresh returns to the same
+// screen. It's stored as `{ version, savedAt, state }`; on load it's migrated to
+// the current version and checked field by field, so one bad field costs only
+// that field instead of the whole session.
+
+const STORAGE_KEY = 'cognipath_state';
+// Sessions that can't be read are kept here until the next failure, for recovery by hand
+const BACKUP_KEY = 'cognipath_state_backup';
+// Before the version was stored, each shape change moved the session to a new key
+const LEGACY_KEYS: { key: string; version: number }[] = [{ key: 'cognipath_state_v5', version: 5 }];
+
+export const SESSION_VERSION = 6;
+
+const SESSION_MIGRATIONS: Record<number, Migration> = {
+  // Version 5 has the current shape, minus fields added later, which load with their defaults.
+  5: (state) => state,
+};
+
+type FieldCheck = (value: unknown) => boolean;
+
+const isArray: FieldCheck = value => Array.isArray(value);
+const isString: FieldCheck = value => typeof value === 'string';
+const isBoolean: FieldCheck = value => typeof value === 'boolean';
+const isRecordOrNull: FieldCheck = value => value === null || isRecord(value);
+const isStringOrNull: FieldCheck = value => value === null || typeof value === 'string';
+const transient: FieldCheck = () => false;
+
+// Keyed by `AppState`, so adding a field without describing how to check it is a compile error.
+// `library` is salvaged course by course instead.
+const SESSION_FIELDS: { [K in Exclude<keyof AppState, 'library'>]-?: FieldCheck } = {
+  step: value => Object.values(AppStep).includes(value as AppStep),
+  user: value => value === null || (isRecord(value) && typeof value.id === 'string'),
+  subjects: isArray,
+  activeCourseId: isStringOrNull,
+  subject: isString,
+  selectedPillar: isRecordOrNull,
+  selectedPath: isRecordOrNull,
+  curriculum: value => value === null || (isRecord(value) && Array.isArray(value.subLessons)),
+  completedSubLessons: isArray,
+  subLessonFeedback: isRecord,
+  quizScores: isRecord,
+  requireMastery: isBoolean,
+  cardReviews: isRecord,
+  pillars: isArray,
+  placementQuiz: isArray,
+  placement: isRecordOrNull,
+  paths: isArray,
+  chatHistory: isArray,
+  chatThreads: isArray,
+  activeThreadId: isStringOrNull,
+  // Never restored: a refresh interrupts any request in flight
+  isLoading: transient,
+  error: transient,
+};
+
+export interface LoadedSession {
+  state: AppState;
+  recovered: boolean; // Part of the saved session couldn't be read and was reset
+}
+
+const readStored = (): { version: number; state: unknown } | null => {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (saved) {
+    const parsed = JSON.parse(saved);
+    if (!isRecord(parsed) || typeof parsed.version !== 'number') throw new Error("Saved session has no version");
+    return { version: parsed.version, state: parsed.state };
+  }
+  for (const { key, version } of LEGACY_KEYS) {
+    const legacy = localStorage.getItem(key);
+    if (legacy) return { version, state: JSON.parse(legacy) };
+  }
+  return null;
+};
+
+const backUp = () => {
+  try {
+    const saved = [STORAGE_KEY, ...LEGACY_KEYS.map(legacy => legacy.key)]
+      .map(key => localStorage.getItem(key))
+      .find(value => value !== null);
+    if (saved) localStorage.setItem(BACKUP_KEY, saved);
+  } catch (e) {
+    console.error("Failed to back up unreadable session", e);
+  }
+};
+
+// Screens that need session data fall back to the dashboard when it was lost.
+const reachableStep = (state: AppState): AppStep => {
+  const missing =
+    (state.step === AppStep.CURRICULUM && !state.curriculum) ||
+    (state.step === AppStep.PILLARS && state.pillars.length === 0) ||
+    (state.step === AppStep.PLACEMENT && state.placementQuiz.length === 0) ||
+    (state.step === AppStep.PATHS && state.paths.length === 0);
+  if (!missing) return state.step;
+  return state.user ? AppStep.DASHBOARD : AppStep.AUTH;
+};
+
+const readSession = (raw: StoredRecord, defaults: AppState): LoadedSession => {
+  const state: Record<string, unknown> = { ...defaults };
+  let recovered = false;
+  (Object.keys(SESSION_FIELDS) as (keyof typeof SESSION_FIELDS)[]).forEach(key => {
+    if (!(key in raw)) return;
+    if (SESSION_FIELDS[key](raw[key])) {
+      state[key] = raw[key];
+    } else if (SESSION_FIELDS[key] !== transient) {
+      console.warn(`Resetting unreadable session field "${key}"`);
+      recovered = true;
+    }
+  });
+
+  const { courses, dropped } = salvageCourses(raw.library);
+  state.library = courses;
+  if (dropped > 0) recovered = true;
+
+  const session = state as unknown as AppState;
+  return { state: { ...session, step: reachableStep(session) }, recovered };
+};
+
+export const loadSessionState = (defaults: AppState): LoadedSession => {
+  let stored: { version: number; state: unknown } | null;
+  try {
+    stored = readStored();
+  } catch (e) {
+    console.error("Failed to parse saved session", e);
+    backUp();
+    return { state: defaults, recovered: true };
+  }
+  if (!stored) return { state: defaults, recovered: false };
+
+  if (!isRecord(stored.state)) {
+    backUp();
+    return { state: defaults, recovered: true };
+  }
+  // A session from a newer release is read as-is: known fields that still check out are kept
+  if (stored.version > SESSION_VERSION) {
+    backUp();
+    const session = readSession(stored.state, defaults);
+    return { ...session, recovered: true };
+  }
+  try {
+    return readSession(runMigrations(stored.state, stored.version, SESSION_VERSION, SESSION_MIGRATIONS), defaults);
+  } catch (e) {
+    console.error("Failed to migrate saved session", e);
+    backUp();
+    return { ...readSession(stored.state, defaults), recovered: true };
+  }
+};
+
+// Throws when storage is full, so the caller can tell the learner.
+export const saveSessionState = (state: AppState) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: SESSION_VERSION, savedAt: Date.now(), state }));
+  LEGACY_KEYS.forEach(({ key }) => localStorage.removeItem(key));
+};
+
+export const clearSessionState = () => {
+  localStorage.removeItem(STORAGE_KEY);
+  LEGACY_KEYS.forEach(({ key }) => localStorage.removeItem(key));
+};
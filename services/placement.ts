@@ -0,0 +1,69 @@
+import { Difficulty, LessonPath, PathFit, PlacementQuestion, PlacementResult } from "../types";
+
+// Scoring for the placement quiz shown between PILLARS and PATHS, and the
+// deterministic fallback used to rank generated paths against the result.
+
+const DIFFICULTY_RANK: Record<Difficulty, number> = {
+  Beginner: 0,
+  Intermediate: 1,
+  Advanced: 2,
+};
+
+// A level counts as passed when at least half its questions were answered correctly.
+const PASS_RATIO = 0.5;
+
+const passed = ({ correct, total }: { correct: number; total: number }) =>
+  total === 0 || correct / total >= PASS_RATIO;
+
+export const scorePlacement = (
+  questions: PlacementQuestion[],
+  answers: Record<number, number>
+): PlacementResult => {
+  const byDifficulty: PlacementResult['byDifficulty'] = {
+    Beginner: { correct: 0, total: 0 },
+    Intermediate: { correct: 0, total: 0 },
+    Advanced: { correct: 0, total: 0 },
+  };
+  const weakTopics: string[] = [];
+  let correct = 0;
+
+  questions.forEach(question => {
+    const bucket = byDifficulty[question.difficulty];
+    bucket.total++;
+    if (answers[question.id] === question.correctIndex) {
+      bucket.correct++;
+      correct++;
+    } else if (!weakTopics.includes(question.topic)) {
+      weakTopics.push(question.topic);
+    }
+  });
+
+  // Levels build on each other: Advanced requires passing Intermediate too.
+  let level: Difficulty = 'Beginner';
+  if (passed(byDifficulty.Beginner) && passed(byDifficulty.Intermediate) && byDifficulty.Intermediate.total > 0) {
+    level = passed(byDifficulty.Advanced) && byDifficulty.Advanced.total > 0 ? 'Advanced' : 'Intermediate';
+  }
+
+  return { level, correct, total: questions.length, byDifficulty, weakTopics };
+};
+
+export const classifyPathFit = (path: LessonPath, placement: PlacementResult): PathFit => {
+  const gap = DIFFICULTY_RANK[path.difficulty] - DIFFICULTY_RANK[placement.level];
+  if (gap === 0) return 'recommended';
+  return gap < 0 ? 'too_easy' : 'too_hard';
+};
+
+const FIT_ORDER: Record<PathFit, number> = {
+  recommended: 0,
+  too_hard: 1, // A stretch is more useful than a review
+  too_easy: 2,
+};
+
+// Fills in any missing fit and orders paths best-fit first, keeping the
+// model's order within each group.
+export const rankPathsByFit = (paths: LessonPath[], placement: PlacementResult): LessonPath[] =>
+  paths
+    .map(path => ({ ...path, fit: path.fit && FIT_ORDER[path.fit] !== undefined ? path.fit : classifyPathFit(path, placement) }))
+    .map((path, index) => ({ path, index }))
+    .sort((a, b) => FIT_ORDER[a.path.fit!] - FIT_ORDER[b.path.fit!] || a.index - b.index)
+    .map(({ path }) => path);
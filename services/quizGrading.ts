@@ -0,0 +1,82 @@
+import { LessonQuiz, LessonScore, QuizAnswer, QuizQuestion } from "../types";
+
+// Grading for generated sub-lesson quizzes. Every question is all-or-nothing;
+// the quiz score is the fraction answered correctly.
+
+export const MASTERY_THRESHOLD = 0.8;
+
+export interface QuestionResult {
+  questionId: number;
+  correct: boolean;
+}
+
+export interface QuizResult {
+  score: number;
+  results: QuestionResult[];
+}
+
+const isStringList = (value: unknown, minLength: number): value is string[] =>
+  Array.isArray(value) && value.length >= minLength && value.every(item => typeof item === 'string');
+
+// Normalizes a question from the model or an imported course into the `QuizQuestion`
+// union. Returns null for one that can't be shown or graded.
+export const toQuizQuestion = (item: any, id: number): QuizQuestion | null => {
+  const prompt = typeof item?.prompt === 'string' ? item.prompt : '';
+  const explanation = typeof item?.explanation === 'string' ? item.explanation : '';
+  if (!prompt) return null;
+
+  switch (item.type) {
+    case 'multiple_choice':
+      if (!isStringList(item.options, 2)) return null;
+      if (!Number.isInteger(item.correctIndex) || item.correctIndex < 0 || item.correctIndex >= item.options.length) return null;
+      return { id, type: 'multiple_choice', prompt, explanation, options: item.options, correctIndex: item.correctIndex };
+    case 'short_answer':
+      if (!isStringList(item.acceptableAnswers, 1)) return null;
+      return { id, type: 'short_answer', prompt, explanation, acceptableAnswers: item.acceptableAnswers };
+    case 'ordering':
+      if (!isStringList(item.orderedItems, 2)) return null;
+      return { id, type: 'ordering', prompt, explanation, orderedItems: item.orderedItems };
+    default:
+      return null;
+  }
+};
+
+// Case, punctuation and whitespace differences shouldn't cost a learner the point.
+const normalize = (text: string) =>
+  text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, '').replace(/\s+/g, ' ').trim();
+
+export const gradeQuestion = (question: QuizQuestion, answer: QuizAnswer | undefined): boolean => {
+  if (answer === undefined) return false;
+  switch (question.type) {
+    case 'multiple_choice':
+      return answer === question.correctIndex;
+    case 'short_answer': {
+      if (typeof answer !== 'string' || !normalize(answer)) return false;
+      const given = normalize(answer);
+      return question.acceptableAnswers.some(accepted => normalize(accepted) === given);
+    }
+    case 'ordering':
+      return Array.isArray(answer)
+        && answer.length === question.orderedItems.length
+        && answer.every((item, i) => item === question.orderedItems[i]);
+  }
+};
+
+export const gradeQuiz = (quiz: LessonQuiz, answers: Record<number, QuizAnswer>): QuizResult => {
+  const results = quiz.questions.map(question => ({
+    questionId: question.id,
+    correct: gradeQuestion(question, answers[question.id]),
+  }));
+  const correct = results.filter(r => r.correct).length;
+  return { score: results.length > 0 ? correct / results.length : 0, results };
+};
+
+export const recordAttempt = (previous: LessonScore | undefined, score: number): LessonScore => ({
+  best: Math.max(previous?.best ?? 0, score),
+  last: score,
+  attempts: (previous?.attempts ?? 0) + 1,
+  updatedAt: Date.now(),
+});
+
+export const isMastered = (score: LessonScore | undefined) =>
+  !!score && score.best >= MASTERY_THRESHOLD;
@@ -0,0 +1,83 @@
+import { Difficulty, LessonPath, SavedCourse } from "../types";
+
+// Suggests what to study after a course, using how the learner did in it
+// (completion, lesson feedback, quiz scores) and the sibling paths that were
+// offered alongside it. Purely local: no model call.
+
+const LEVELS: Difficulty[] = ['Beginner', 'Intermediate', 'Advanced'];
+
+export type Readiness = 'advance' | 'stay' | 'consolidate';
+
+export interface CourseSignal {
+  completion: number; // 0-1
+  helpfulRatio: number | null; // Share of rated lessons marked helpful; null when none were rated
+  quizAverage: number | null; // Mean best quiz score; null when no quiz was taken
+  readiness: Readiness;
+}
+
+export interface PathRecommendation {
+  path: LessonPath;
+  reason: string;
+}
+
+export const assessCourse = (course: SavedCourse): CourseSignal => {
+  const lessonCount = course.curriculum.subLessons.length || 1;
+  const completion = course.completedSubLessons.length / lessonCount;
+
+  const ratings = Object.values(course.subLessonFeedback);
+  const helpfulRatio = ratings.length > 0
+    ? ratings.filter(r => r === 'helpful').length / ratings.length
+    : null;
+
+  const scores = Object.values(course.quizScores || {});
+  const quizAverage = scores.length > 0
+    ? scores.reduce((sum, s) => sum + s.best, 0) / scores.length
+    : null;
+
+  let readiness: Readiness = 'stay';
+  if ((quizAverage !== null && quizAverage < 0.5) || (helpfulRatio !== null && helpfulRatio < 0.5)) {
+    readiness = 'consolidate';
+  } else if (completion >= 0.8 && (quizAverage ?? 1) >= 0.8) {
+    readiness = 'advance';
+  }
+
+  return { completion, helpfulRatio, quizAverage, readiness };
+};
+
+const targetLevel = (current: Difficulty, readiness: Readiness): Difficulty => {
+  const rank = LEVELS.indexOf(current);
+  if (readiness === 'advance') return LEVELS[Math.min(rank + 1, LEVELS.length - 1)];
+  if (readiness === 'consolidate') return LEVELS[Math.max(rank - 1, 0)];
+  return current;
+};
+
+const explain = (path: LessonPath, course: SavedCourse, readiness: Readiness, target: Difficulty): string => {
+  if (path.difficulty === target) {
+    if (readiness === 'advance') return `You finished ${course.path.title} strongly, so this steps up to ${target}.`;
+    if (readiness === 'consolidate') return `Reinforces the basics before moving beyond ${course.path.title}.`;
+    return `Continues at the ${target} level you're working at.`;
+  }
+  return `Closest ${path.difficulty} option left in ${course.pillar.title}.`;
+};
+
+// Ranks the untaken sibling paths of `course` for this learner. Paths already in
+// the library are skipped, so an empty result means a follow-up should be generated.
+export const recommendNextPaths = (course: SavedCourse, library: SavedCourse[], limit = 3): PathRecommendation[] => {
+  const { readiness } = assessCourse(course);
+  const target = targetLevel(course.path.difficulty, readiness);
+  const taken = new Set(
+    library.filter(c => c.pillar.title === course.pillar.title).map(c => c.path.title.toLowerCase())
+  );
+
+  const score = (path: LessonPath) => {
+    const distance = Math.abs(LEVELS.indexOf(path.difficulty) - LEVELS.indexOf(target));
+    return (distance === 0 ? 3 : distance === 1 ? 1 : 0) + (path.fit === 'recommended' ? 1 : 0);
+  };
+
+  return (course.siblingPaths || [])
+    .filter(path => !taken.has(path.title.toLowerCase()))
+    .map((path, order) => ({ path, order, score: score(path) }))
+    .sort((a, b) => b.score - a.score || a.order - b.order)
+    .slice(0, limit)
+    .map(({ path }) => ({ path, reason: explain(path, course, readiness, target) }));
+};
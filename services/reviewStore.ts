@@ -0,0 +1,78 @@
+import { collection, doc, setDoc, getDocs, deleteDoc, query, where } from 'firebase/firestore';
+import { db } from './firebase';
+import { CardReview } from '../types';
+
+// Flashcard review state is stored per user rather than per course so the dashboard
+// can build one queue across the whole library: in localStorage for every user and
+// in the `users/{uid}/reviews` collection when Firestore is available.
+
+const localKey = (userId: string) => `cognipath_reviews_${userId}`;
+
+const reviewsPath = (userId: string) => `users/${userId}/reviews`;
+
+const readLocal = (userId: string): Record<string, CardReview> => {
+  try {
+    const saved = localStorage.getItem(localKey(userId));
+    return saved ? JSON.parse(saved) : {};
+  } catch (e) {
+    console.error("Failed to read reviews from localStorage", e);
+    return {};
+  }
+};
+
+const writeLocal = (userId: string, reviews: Record<string, CardReview>) => {
+  try {
+    localStorage.setItem(localKey(userId), JSON.stringify(reviews));
+  } catch (e) {
+    console.error("Failed to save reviews to localStorage", e);
+  }
+};
+
+// Loads local and remote review state, keeping the most recently reviewed copy of each card.
+export const loadReviews = async (userId: string): Promise<Record<string, CardReview>> => {
+  const reviews = readLocal(userId);
+
+  if (db) {
+    try {
+      const snapshot = await getDocs(query(collection(db, reviewsPath(userId))));
+      snapshot.forEach(d => {
+        const remote = d.data() as CardReview;
+        const local = reviews[remote.cardId];
+        if (!local || remote.lastReviewedAt > local.lastReviewedAt) reviews[remote.cardId] = remote;
+      });
+    } catch (error) {
+      console.error("Error fetching reviews:", error);
+    }
+  }
+
+  writeLocal(userId, reviews);
+  return reviews;
+};
+
+export const saveReview = async (userId: string, review: CardReview) => {
+  writeLocal(userId, { ...readLocal(userId), [review.cardId]: review });
+
+  if (db) {
+    try {
+      await setDoc(doc(db, `${reviewsPath(userId)}/${review.cardId}`), review);
+    } catch (error) {
+      console.error("Failed to save review to Firestore", error);
+    }
+  }
+};
+
+export const deleteCourseReviews = async (userId: string, courseId: string) => {
+  const remaining = Object.fromEntries(
+    Object.entries(readLocal(userId)).filter(([, r]) => r.courseId !== courseId)
+  );
+  writeLocal(userId, remaining);
+
+  if (db) {
+    try {
+      const snapshot = await getDocs(query(collection(db, reviewsPath(userId)), where('courseId', '==', courseId)));
+      await Promise.all(snapshot.docs.map(d => deleteDoc(d.ref)));
+    } catch (error) {
+      console.error("Failed to delete course reviews", error);
+    }
+  }
+};
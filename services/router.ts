@@ -0,0 +1,131 @@
+import { AppState, AppStep } from "../types";
+import { subjectIdFor } from "./subjectStore";
+
+// Routes for each screen, so browser history, refresh and bookmarks work. The app
+// state stays the source of truth for what's on screen: the URL follows it as the
+// learner moves through the app, and a URL that's opened directly (a deep link,
+// refresh, back/forward) is turned back into state by the app.
+//
+//   /dashboard
+//   /new                                          subject input
+//   /subjects/:subject                            saved subject overview
+//   /subjects/:subject/pillars                    pillar picker
+//   /subjects/:subject/pillars/:pillarId          lesson paths
+//   /subjects/:subject/pillars/:pillarId/placement
+//   /courses/:courseId
+//   /courses/:courseId/lessons/:number            a lesson, numbered from 1
+
+export type Route =
+  | { name: 'dashboard' }
+  | { name: 'newSubject' }
+  | { name: 'subject'; subjectId: string }
+  | { name: 'pillars'; subjectId: string }
+  | { name: 'paths'; subjectId: string; pillarId: number }
+  | { name: 'placement'; subjectId: string; pillarId: number }
+  | { name: 'course'; courseId: string; lessonIndex: number | null }; // Zero-based; the URL shows it from 1
+
+const segment = (value: string) => encodeURIComponent(value);
+
+export const pathForRoute = (route: Route): string => {
+  switch (route.name) {
+    case 'dashboard': return '/dashboard';
+    case 'newSubject': return '/new';
+    case 'subject': return `/subjects/${segment(route.subjectId)}`;
+    case 'pillars': return `/subjects/${segment(route.subjectId)}/pillars`;
+    case 'paths': return `/subjects/${segment(route.subjectId)}/pillars/${route.pillarId}`;
+    case 'placement': return `/subjects/${segment(route.subjectId)}/pillars/${route.pillarId}/placement`;
+    case 'course': return route.lessonIndex === null
+      ? `/courses/${segment(route.courseId)}`
+      : `/courses/${segment(route.courseId)}/lessons/${route.lessonIndex + 1}`;
+  }
+};
+
+const readNumber = (value: string | undefined): number | null =>
+  value !== undefined && /^\d+$/.test(value) ? Number(value) : null;
+
+// Returns null for the root and for paths that aren't routes.
+export const parseRoute = (pathname: string): Route | null => {
+  let parts: string[];
+  try {
+    parts = pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  } catch {
+    return null;
+  }
+  const [section, id, child, childId, leaf] = parts;
+
+  if (section === 'dashboard' && parts.length === 1) return { name: 'dashboard' };
+  if (section === 'new' && parts.length === 1) return { name: 'newSubject' };
+
+  if (section === 'subjects' && id) {
+    if (parts.length === 2) return { name: 'subject', subjectId: id };
+    if (child !== 'pillars') return null;
+    if (parts.length === 3) return { name: 'pillars', subjectId: id };
+    const pillarId = readNumber(childId);
+    if (pillarId === null) return null;
+    if (parts.length === 4) return { name: 'paths', subjectId: id, pillarId };
+    if (parts.length === 5 && leaf === 'placement') return { name: 'placement', subjectId: id, pillarId };
+    return null;
+  }
+
+  if (section === 'courses' && id) {
+    if (parts.length === 2) return { name: 'course', courseId: id, lessonIndex: null };
+    const lessonNumber = readNumber(childId);
+    if (child === 'lessons' && parts.length === 4 && lessonNumber) return { name: 'course', courseId: id, lessonIndex: lessonNumber - 1 };
+    return null;
+  }
+  return null;
+};
+
+// The route for what's on screen, or null while signed out (the URL is kept for after sign-in).
+export const routeForState = (state: AppState, focusedLesson: number | null): Route | null => {
+  const subjectId = subjectIdFor(state.subject);
+  switch (state.step) {
+    case AppStep.AUTH: return null;
+    case AppStep.DASHBOARD: return { name: 'dashboard' };
+    case AppStep.INPUT: return { name: 'newSubject' };
+    case AppStep.SUBJECT: return { name: 'subject', subjectId };
+    case AppStep.PILLARS: return { name: 'pillars', subjectId };
+    case AppStep.PATHS:
+      return state.selectedPillar ? { name: 'paths', subjectId, pillarId: state.selectedPillar.id } : { name: 'pillars', subjectId };
+    case AppStep.PLACEMENT:
+      return state.selectedPillar ? { name: 'placement', subjectId, pillarId: state.selectedPillar.id } : { name: 'pillars', subjectId };
+    case AppStep.CURRICULUM:
+      return state.activeCourseId ? { name: 'course', courseId: state.activeCourseId, lessonIndex: focusedLesson } : { name: 'dashboard' };
+  }
+};
+
+// Where Back leads when there's no earlier page in the app to return to.
+export const parentRoute = (route: Route): Route => {
+  switch (route.name) {
+    case 'course': return route.lessonIndex === null ? { name: 'dashboard' } : { ...route, lessonIndex: null };
+    case 'placement':
+    case 'paths': return { name: 'pillars', subjectId: route.subjectId };
+    case 'pillars': return { name: 'subject', subjectId: route.subjectId };
+    default: return { name: 'dashboard' };
+  }
+};
+
+// --- History ---
+
+// Each entry records how many app pages precede it, so Back can tell whether it
+// would leave the app.
+interface HistoryEntry {
+  depth: number;
+}
+
+const currentDepth = (): number => (window.history.state as HistoryEntry | null)?.depth ?? 0;
+
+export const currentPath = (): string => window.location.pathname;
+
+export const pushPath = (path: string) => {
+  const entry: HistoryEntry = { depth: currentDepth() + 1 };
+  window.history.pushState(entry, '', path);
+};
+
+// Keeps the query, which may still carry a share link being opened.
+export const replacePath = (path: string) => {
+  const entry: HistoryEntry = { depth: currentDepth() };
+  window.history.replaceState(entry, '', path + window.location.search);
+};
+
+export const canGoBackInApp = (): boolean => currentDepth() > 0;
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { parseCourseBundle } from './bundle';
+
+const lesson = {
+  title: 'Ionic bonds',
+  content: 'Electrons move from one atom to another.',
+  generalConcepts: 'Metals give electrons to non-metals.',
+  useCases: [],
+  caseStudies: [],
+  references: [],
+  example: 'Table salt',
+  visualDescription: '',
+  actionItem: 'Draw NaCl.',
+};
+
+const bundle = (subLesson: Record<string, unknown>) => ({
+  format: 'cognipath-course',
+  version: 1,
+  subject: 'Chemistry',
+  pillar: { id: 1, title: 'Bonding', description: '' },
+  path: { id: 1, title: 'Foundations', description: '', difficulty: 'Beginner', estimatedTime: '1 week' },
+  curriculum: {
+    pathTitle: 'Foundations',
+    introduction: 'Why atoms stick together.',
+    objectives: ['Tell bond types apart'],
+    keyConcepts: ['Electronegativity'],
+    realWorldUseCases: [],
+    caseStudy: { title: 'Salt', scenario: 'Sodium meets chlorine.', outcome: 'A crystal.' },
+    subLessons: [{ ...lesson, ...subLesson }],
+    resources: [],
+  },
+});
+
+describe('parseCourseBundle', () => {
+  it('drops quiz questions that cannot be shown or graded', () => {
+    const parsed = parseCourseBundle(bundle({
+      quiz: {
+        generatedAt: 5,
+        questions: [
+          { id: 1, type: 'ordering', prompt: 'Order the steps', explanation: '' },
+          { id: 2, type: 'multiple_choice', prompt: 'Pick one', explanation: '', options: ['a', 'b'], correctIndex: 4 },
+          { id: 3, type: 'short_answer', prompt: 'Name it', explanation: 'Salt', acceptableAnswers: ['salt'] },
+          { id: 4, type: 'essay', prompt: 'Discuss' },
+        ],
+      },
+    }));
+
+    expect(parsed.curriculum.subLessons[0].quiz).toEqual({
+      generatedAt: 5,
+      questions: [{ id: 3, type: 'short_answer', prompt: 'Name it', explanation: 'Salt', acceptableAnswers: ['salt'] }],
+    });
+  });
+
+  it('drops a quiz with no usable questions', () => {
+    const parsed = parseCourseBundle(bundle({ quiz: { questions: [{ type: 'ordering', prompt: 'Order', orderedItems: 'abc' }] } }));
+    expect(parsed.curriculum.subLessons[0].quiz).toBeUndefined();
+  });
+
+  it('keeps only complete earlier versions of a lesson', () => {
+    const parsed = parseCourseBundle(bundle({
+      history: [
+        { lesson, replacedAt: 10, revision: { reason: 'too_hard', note: 'Too fast' } },
+        { lesson: { title: 'Broken' }, replacedAt: 20 },
+        { lesson, replacedAt: 30, revision: { reason: 'made_up' } },
+        'garbage',
+      ],
+    }));
+
+    expect(parsed.curriculum.subLessons[0].history).toEqual([
+      { lesson, replacedAt: 10, revision: { reason: 'too_hard', note: 'Too fast' } },
+      { lesson, replacedAt: 30 },
+    ]);
+  });
+});
@@ -0,0 +1,261 @@
+import { Curriculum, LearningPillar, LessonPath, LessonQuiz, LessonRevision, LessonScore, QuizQuestion, SavedCourse, SubLesson, SubLessonVersion } from "../../types";
+import { ValidationIssue, validateCurriculum, validateSubLesson } from "../curriculumValidator";
+import { toQuizQuestion } from "../quizGrading";
+import { REGENERATION_REASONS } from "../lessonVersions";
+import { COURSE_SCHEMA_VERSION, Migration, isRecord, migrateCourseRecord, runMigrations } from "../persistence";
+
+// A course bundle is the portable form of a `SavedCourse`: the content needed to
+// study it elsewhere and, optionally, the learner's progress. Audio and images
+// stay behind because assets belong to the account that generated them; the
+// importing account narrates and draws its own on demand.
+
+export const COURSE_BUNDLE_FORMAT = 'cognipath-course';
+export const COURSE_BUNDLE_VERSION = 1;
+
+export interface CourseBundleProgress {
+  completedSubLessons: number[];
+  subLessonFeedback: Record<number, 'helpful' | 'unhelpful'>;
+  quizScores?: Record<number, LessonScore>;
+  requireMastery?: boolean;
+}
+
+export interface CourseBundle {
+  format: typeof COURSE_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: number;
+  subject: string;
+  pillar: LearningPillar;
+  path: LessonPath;
+  curriculum: Curriculum;
+  siblingPaths?: LessonPath[];
+  progress?: CourseBundleProgress;
+}
+
+export class CourseBundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CourseBundleError';
+  }
+}
+
+// Drops the references to assets, which the importing account can't read.
+const portableCurriculum = (curriculum: Curriculum): Curriculum => {
+  const { narration, audioAssetId, audioData, ...content } = curriculum;
+  return { ...content, subLessons: content.subLessons.map(({ narration, ...lesson }) => lesson) };
+};
+
+export const createCourseBundle = (course: SavedCourse, includeProgress: boolean): CourseBundle => ({
+  format: COURSE_BUNDLE_FORMAT,
+  version: COURSE_BUNDLE_VERSION,
+  exportedAt: Date.now(),
+  subject: course.subject,
+  pillar: course.pillar,
+  path: course.path,
+  curriculum: portableCurriculum(course.curriculum),
+  ...(course.siblingPaths ? { siblingPaths: course.siblingPaths } : {}),
+  ...(includeProgress ? {
+    progress: {
+      completedSubLessons: course.completedSubLessons,
+      subLessonFeedback: course.subLessonFeedback,
+      ...(course.quizScores ? { quizScores: course.quizScores } : {}),
+      ...(course.requireMastery ? { requireMastery: true } : {}),
+    },
+  } : {}),
+});
+
+// --- Migrations ---
+
+// Each step upgrades a bundle from the version it's keyed by to the next one.
+// Version 0 is a bare course document, as copied out of the database before
+// bundles existed; it's brought up to date by the course migrations first.
+const MIGRATIONS: Record<number, Migration> = {
+  0: (raw) => {
+    const course = migrateCourseRecord(raw);
+    return {
+      format: COURSE_BUNDLE_FORMAT,
+      version: 1,
+      exportedAt: typeof course.lastAccessed === 'number' ? course.lastAccessed : Date.now(),
+      subject: course.subject,
+      pillar: course.pillar,
+      path: course.path,
+      curriculum: course.curriculum,
+      siblingPaths: course.siblingPaths,
+      progress: {
+        completedSubLessons: course.completedSubLessons,
+        subLessonFeedback: course.subLessonFeedback,
+        quizScores: course.quizScores,
+        requireMastery: course.requireMastery,
+      },
+    };
+  },
+};
+
+const bundleVersion = (raw: Record<string, unknown>): number => {
+  if (raw.format === undefined && isRecord(raw.curriculum)) return 0;
+  if (raw.format !== COURSE_BUNDLE_FORMAT || typeof raw.version !== 'number') {
+    throw new CourseBundleError("This file isn't a CogniPath course.");
+  }
+  return raw.version;
+};
+
+export const migrateCourseBundle = (raw: Record<string, unknown>): Record<string, unknown> => {
+  const version = bundleVersion(raw);
+  if (version > COURSE_BUNDLE_VERSION) {
+    throw new CourseBundleError("This course was exported by a newer version of CogniPath. Update the app to import it.");
+  }
+  try {
+    return runMigrations(raw, version, COURSE_BUNDLE_VERSION, MIGRATIONS);
+  } catch (error) {
+    console.error("Course bundle migration failed", error);
+    throw new CourseBundleError("This course file couldn't be upgraded to the current format.");
+  }
+};
+
+// --- Validation ---
+
+const readIdList = (value: unknown): number[] | undefined => Array.isArray(value)
+  ? value.filter((id): id is number => typeof id === 'number')
+  : undefined;
+
+const readPillar = (value: unknown): LearningPillar => {
+  if (!isRecord(value) || typeof value.title !== 'string') throw new CourseBundleError("The course is missing its pillar.");
+  return {
+    id: typeof value.id === 'number' ? value.id : 0,
+    title: value.title,
+    description: typeof value.description === 'string' ? value.description : '',
+    ...(typeof value.icon === 'string' ? { icon: value.icon } : {}),
+    ...(readIdList(value.prerequisites) ? { prerequisites: readIdList(value.prerequisites) } : {}),
+  };
+};
+
+const DIFFICULTIES = ['Beginner', 'Intermediate', 'Advanced'];
+
+const readPath = (value: unknown): LessonPath | null => {
+  if (!isRecord(value) || typeof value.title !== 'string') return null;
+  return {
+    id: typeof value.id === 'number' ? value.id : 0,
+    title: value.title,
+    description: typeof value.description === 'string' ? value.description : '',
+    difficulty: DIFFICULTIES.includes(value.difficulty as string) ? value.difficulty as LessonPath['difficulty'] : 'Beginner',
+    estimatedTime: typeof value.estimatedTime === 'string' ? value.estimatedTime : '',
+    ...(readIdList(value.prerequisites) ? { prerequisites: readIdList(value.prerequisites) } : {}),
+  };
+};
+
+// Questions that can't be shown or graded are dropped, and a quiz left without any with them.
+const readQuiz = (value: unknown): LessonQuiz | undefined => {
+  if (!isRecord(value) || !Array.isArray(value.questions)) return undefined;
+  const questions = value.questions
+    .map((item, i) => toQuizQuestion(item, isRecord(item) && Number.isInteger(item.id) ? item.id as number : i + 1))
+    .filter((question): question is QuizQuestion => question !== null);
+  if (questions.length === 0) return undefined;
+  return { questions, generatedAt: typeof value.generatedAt === 'number' ? value.generatedAt : Date.now() };
+};
+
+const readRevision = (value: unknown): LessonRevision | undefined => {
+  if (!isRecord(value)) return undefined;
+  const match = REGENERATION_REASONS.find(r => r.reason === value.reason);
+  if (!match) return undefined;
+  return { reason: match.reason, ...(typeof value.note === 'string' ? { note: value.note } : {}) };
+};
+
+// Earlier versions of a lesson; any that isn't a complete lesson is dropped.
+const readHistory = (value: unknown, index: number): SubLessonVersion[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const history = value.flatMap((entry): SubLessonVersion[] => {
+    if (!isRecord(entry) || typeof entry.replacedAt !== 'number') return [];
+    const issues: ValidationIssue[] = [];
+    const lesson = validateSubLesson(entry.lesson, index, issues);
+    if (issues.length > 0) return [];
+    const revision = readRevision(entry.revision);
+    return [{ lesson, replacedAt: entry.replacedAt, ...(revision ? { revision } : {}) }];
+  });
+  return history.length > 0 ? history : undefined;
+};
+
+// The validator normalizes lesson content and the status is carried over; quizzes
+// and history are checked entry by entry.
+const readCurriculum = (value: unknown, fallbackTitle: string): Curriculum => {
+  const { curriculum, issues } = validateCurriculum(value, fallbackTitle, 'outline');
+  if (issues.length > 0) {
+    throw new CourseBundleError(`The course content is incomplete (${issues.map(issue => issue.path).join(', ')}).`);
+  }
+  const rawLessons = isRecord(value) && Array.isArray(value.subLessons) ? value.subLessons : [];
+  const subLessons = curriculum.subLessons.map((lesson, i): SubLesson => {
+    const raw = isRecord(rawLessons[i]) ? rawLessons[i] : {};
+    const { status, ...content } = lesson;
+    const quiz = readQuiz(raw.quiz);
+    const history = readHistory(raw.history, i);
+    const isWritten = !raw.status && typeof raw.generalConcepts === 'string' && raw.generalConcepts.trim() !== '';
+    return {
+      ...content,
+      // Lessons that were never written are generated after import, like any outline
+      ...(isWritten ? {} : { status: 'pending' as const }),
+      ...(quiz ? { quiz } : {}),
+      ...(history ? { history } : {}),
+    };
+  });
+  return { ...curriculum, subLessons };
+};
+
+const readProgress = (value: unknown, lessonCount: number): CourseBundleProgress | undefined => {
+  if (!isRecord(value)) return undefined;
+  const inRange = (index: number) => Number.isInteger(index) && index >= 0 && index < lessonCount;
+  const records = <T,>(record: unknown, isValue: (v: unknown) => boolean): Record<number, T> =>
+    isRecord(record)
+      ? Object.fromEntries(Object.entries(record).filter(([key, v]) => inRange(Number(key)) && isValue(v))) as Record<number, T>
+      : {};
+  return {
+    completedSubLessons: (readIdList(value.completedSubLessons) || []).filter(inRange),
+    subLessonFeedback: records(value.subLessonFeedback, v => v === 'helpful' || v === 'unhelpful'),
+    quizScores: records(value.quizScores, v => isRecord(v) && typeof v.best === 'number'),
+    ...(value.requireMastery === true ? { requireMastery: true } : {}),
+  };
+};
+
+// Parses a bundle from any supported version. Throws a `CourseBundleError` with a
+// message fit for the learner when the file can't be used.
+export const parseCourseBundle = (json: unknown): CourseBundle => {
+  if (!isRecord(json)) throw new CourseBundleError("This file isn't a CogniPath course.");
+  const raw = migrateCourseBundle(json);
+  const path = readPath(raw.path);
+  if (!path) throw new CourseBundleError("The course is missing its learning path.");
+  const curriculum = readCurriculum(raw.curriculum, path.title);
+  const siblingPaths = Array.isArray(raw.siblingPaths)
+    ? raw.siblingPaths.map(readPath).filter((p): p is LessonPath => p !== null)
+    : undefined;
+  const progress = readProgress(raw.progress, curriculum.subLessons.length);
+
+  return {
+    format: COURSE_BUNDLE_FORMAT,
+    version: COURSE_BUNDLE_VERSION,
+    exportedAt: typeof raw.exportedAt === 'number' ? raw.exportedAt : Date.now(),
+    subject: typeof raw.subject === 'string' && raw.subject.trim() ? raw.subject : path.title,
+    pillar: readPillar(raw.pillar),
+    path,
+    curriculum,
+    ...(siblingPaths ? { siblingPaths } : {}),
+    ...(progress ? { progress } : {}),
+  };
+};
+
+// A new library entry for the bundle. It gets its own id, so importing the same
+// bundle twice gives two independent copies.
+export const courseFromBundle = (bundle: CourseBundle): SavedCourse => {
+  const now = Date.now();
+  return {
+    id: now.toString(),
+    schemaVersion: COURSE_SCHEMA_VERSION,
+    subject: bundle.subject,
+    pillar: bundle.pillar,
+    path: bundle.path,
+    curriculum: bundle.curriculum,
+    completedSubLessons: bundle.progress?.completedSubLessons || [],
+    subLessonFeedback: bundle.progress?.subLessonFeedback || {},
+    ...(bundle.progress?.quizScores ? { quizScores: bundle.progress.quizScores } : {}),
+    ...(bundle.progress?.requireMastery ? { requireMastery: true } : {}),
+    ...(bundle.siblingPaths ? { siblingPaths: bundle.siblingPaths } : {}),
+    createdAt: now,
+    lastAccessed: now,
+  };
+};
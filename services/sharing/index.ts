@@ -0,0 +1,24 @@
+import { SavedCourse } from "../../types";
+import { downloadBlob, toFileName } from "../download";
+import { CourseBundleError, createCourseBundle, parseCourseBundle } from "./bundle";
+
+export * from "./bundle";
+export * from "./shareLinks";
+
+export const COURSE_BUNDLE_EXTENSION = '.cognipath.json';
+
+export const downloadCourseBundle = (course: SavedCourse, includeProgress: boolean) => {
+  const bundle = createCourseBundle(course, includeProgress);
+  const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' });
+  downloadBlob(blob, `${toFileName(course.curriculum.pathTitle)}${COURSE_BUNDLE_EXTENSION}`);
+};
+
+export const readCourseBundleFile = async (file: File) => {
+  let json: unknown;
+  try {
+    json = JSON.parse(await file.text());
+  } catch {
+    throw new CourseBundleError(`${file.name} isn't a valid course file.`);
+  }
+  return parseCourseBundle(json);
+};
@@ -0,0 +1,60 @@
+import { doc, getDoc, setDoc } from 'firebase/firestore';
+import { db } from "../firebase";
+import { CourseBundle, CourseBundleError, parseCourseBundle } from "./bundle";
+
+// Shared courses are published to the top-level `sharedCourses` collection,
+// readable by anyone with the link and writable only by their owner (see the
+// rules in the README). A share is a snapshot: later changes to the course
+// aren't published until it's shared again, which creates a new link.
+
+const SHARE_PARAM = 'share';
+
+export interface SharedCourse {
+  id: string;
+  ownerId: string;
+  ownerName: string;
+  bundle: CourseBundle;
+  sharedAt: number;
+}
+
+export const canShareCourses = (): boolean => !!db;
+
+const newShareId = () => crypto.randomUUID().replace(/-/g, '');
+
+export const shareLinkFor = (shareId: string): string => {
+  const url = new URL('/', window.location.href);
+  url.searchParams.set(SHARE_PARAM, shareId);
+  return url.toString();
+};
+
+export const publishSharedCourse = async (ownerId: string, ownerName: string, bundle: CourseBundle): Promise<string> => {
+  if (!db) throw new CourseBundleError("Sharing links need Firebase to be configured.");
+  // Round-tripped through JSON to drop undefined fields, which Firestore rejects
+  const shared: SharedCourse = { id: newShareId(), ownerId, ownerName, bundle: JSON.parse(JSON.stringify(bundle)), sharedAt: Date.now() };
+  await setDoc(doc(db, `sharedCourses/${shared.id}`), shared);
+  return shared.id;
+};
+
+// Bundles are validated on the way in, so a tampered document can't break the library.
+export const loadSharedCourse = async (shareId: string): Promise<SharedCourse | null> => {
+  if (!db) throw new CourseBundleError("Sharing links need Firebase to be configured.");
+  const snapshot = await getDoc(doc(db, `sharedCourses/${shareId}`));
+  if (!snapshot.exists()) return null;
+  const data = snapshot.data();
+  return {
+    id: shareId,
+    ownerId: String(data.ownerId ?? ''),
+    ownerName: String(data.ownerName ?? 'Someone'),
+    bundle: parseCourseBundle(data.bundle),
+    sharedAt: typeof data.sharedAt === 'number' ? data.sharedAt : 0,
+  };
+};
+
+// Share id from the page URL, if the page was opened from a share link.
+export const readShareIdFromUrl = (): string | null => new URLSearchParams(window.location.search).get(SHARE_PARAM);
+
+export const clearShareIdFromUrl = () => {
+  const url = new URL(window.location.href);
+  url.searchParams.delete(SHARE_PARAM);
+  window.history.replaceState(window.history.state, '', url.toString());
+};
@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { subjectIdFor } from './subjectStore';
+
+describe('subjectIdFor', () => {
+  it('slugs Latin names as before', () => {
+    expect(subjectIdFor('  Machine Learning 101 ')).toBe('machine-learning-101');
+  });
+
+  it('keeps letters from every script', () => {
+    expect(subjectIdFor('日本語')).toBe('日本語');
+    expect(subjectIdFor('Русский язык')).toBe('русский-язык');
+    expect(subjectIdFor('Français')).toBe('français');
+  });
+
+  it('gives names without letters or digits distinct ids', () => {
+    expect(subjectIdFor('🎵🎶')).not.toBe(subjectIdFor('🎨'));
+    expect(subjectIdFor('🎵🎶')).toMatch(/^subject-/);
+  });
+});
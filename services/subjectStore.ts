@@ -0,0 +1,107 @@
+import { collection, doc, setDoc, getDocs, deleteDoc, query } from 'firebase/firestore';
+import { db } from './firebase';
+import { LearningPillar, LessonPath, SavedCourse, SavedSubject } from '../types';
+import { hashText } from './flashcards';
+
+// Subjects are kept in localStorage for every user, so demo mode returns to the same
+// map after signing out, and at `users/{uid}/subjects/{subjectId}` when Firestore is available.
+
+const localKey = (userId: string) => `cognipath_subjects_${userId}`;
+
+const subjectsPath = (userId: string) => `users/${userId}/subjects`;
+
+const readLocal = (userId: string): SavedSubject[] => {
+  try {
+    const saved = localStorage.getItem(localKey(userId));
+    return saved ? JSON.parse(saved) : [];
+  } catch (e) {
+    console.error("Failed to read subjects from localStorage", e);
+    return [];
+  }
+};
+
+const writeLocal = (userId: string, subjects: SavedSubject[]) => {
+  try {
+    localStorage.setItem(localKey(userId), JSON.stringify(subjects));
+  } catch (e) {
+    console.error("Failed to save subjects to localStorage", e);
+  }
+};
+
+// Letters and digits of any script are kept, so 日本語 and Русский get ids of their own.
+// A name with neither (only symbols or emoji) is identified by a hash instead.
+export const subjectIdFor = (name: string): string => {
+  const normalized = name.trim().normalize('NFC').toLowerCase();
+  return normalized.replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '') || `subject-${hashText(normalized)}`;
+};
+
+export const createSubject = (name: string, pillars: LearningPillar[]): SavedSubject => ({
+  id: subjectIdFor(name),
+  name: name.trim(),
+  pillars,
+  pathsByPillar: {},
+  createdAt: Date.now(),
+  updatedAt: Date.now(),
+});
+
+export const withPillarPaths = (subject: SavedSubject, pillarId: number, paths: LessonPath[]): SavedSubject => ({
+  ...subject,
+  pathsByPillar: { ...subject.pathsByPillar, [pillarId]: paths },
+  updatedAt: Date.now(),
+});
+
+// Courses started from a subject. Older courses have no `subjectId`, so they are
+// matched on the subject name instead.
+export const coursesForSubject = (subject: SavedSubject, library: SavedCourse[]): SavedCourse[] =>
+  library.filter(c => (c.subjectId || subjectIdFor(c.subject)) === subject.id);
+
+// Keeps the most recently updated copy of each subject.
+export const mergeSubjects = (a: SavedSubject[], b: SavedSubject[]): SavedSubject[] => {
+  const byId = new Map<string, SavedSubject>();
+  [...a, ...b].forEach(subject => {
+    const existing = byId.get(subject.id);
+    if (!existing || subject.updatedAt > existing.updatedAt) byId.set(subject.id, subject);
+  });
+  return Array.from(byId.values()).sort((x, y) => y.updatedAt - x.updatedAt);
+};
+
+// Loads local and remote subjects, keeping the most recently updated copy of each.
+export const loadSubjects = async (userId: string): Promise<SavedSubject[]> => {
+  let subjects = readLocal(userId);
+
+  if (db) {
+    try {
+      const snapshot = await getDocs(query(collection(db, subjectsPath(userId))));
+      subjects = mergeSubjects(subjects, snapshot.docs.map(d => d.data() as SavedSubject));
+    } catch (error) {
+      console.error("Error fetching subjects:", error);
+    }
+  }
+
+  writeLocal(userId, subjects);
+  return subjects;
+};
+
+export const saveSubject = async (userId: string, subject: SavedSubject) => {
+  writeLocal(userId, [subject, ...readLocal(userId).filter(s => s.id !== subject.id)]);
+
+  if (db) {
+    try {
+      await setDoc(doc(db, `${subjectsPath(userId)}/${subject.id}`), subject);
+    } catch (error) {
+      console.error("Failed to save subject to Firestore", error);
+    }
+  }
+};
+
+export const deleteSubject = async (userId: string, subjectId: string) => {
+  writeLocal(userId, readLocal(userId).filter(s => s.id !== subjectId));
+
+  if (db) {
+    try {
+      await deleteDoc(doc(db, `${subjectsPath(userId)}/${subjectId}`));
+    } catch (error) {
+      console.error("Failed to delete subject", error);
+    }
+  }
+};
@@ -0,0 +1,27 @@
+import React, { createContext, useContext, useState, useSyncExternalStore } from 'react';
+import { AppStore, createAppStore } from './createAppStore';
+import { StoreState, loadInitialState } from './state';
+
+const AppStoreContext = createContext<AppStore | null>(null);
+
+interface AppStoreProviderProps {
+  children: React.ReactNode;
+  store?: AppStore; // Defaults to a store restored from the saved session
+}
+
+export const AppStoreProvider: React.FC<AppStoreProviderProps> = ({ children, store }) => {
+  const [value] = useState(() => store || createAppStore(loadInitialState()));
+  return <AppStoreContext.Provider value={value}>{children}</AppStoreContext.Provider>;
+};
+
+export const useAppStore = (): AppStore => {
+  const store = useContext(AppStoreContext);
+  if (!store) throw new Error("useAppStore must be used inside an AppStoreProvider");
+  return store;
+};
+
+// The current state; the component re-renders whenever it changes.
+export const useAppState = (): StoreState => {
+  const store = useAppStore();
+  return useSyncExternalStore(store.subscribe, store.getState);
+};
@@ -0,0 +1,108 @@
+import {
+  CardReview, ChatMessage, ChatThread, LearnerProfile, LearningPillar, LessonPath, LessonQuiz, LessonRevision, ListeningPosition,
+  NarrationAudio, PlacementQuestion, PlacementResult, SavedCourse, SavedSubject, SubLesson, User
+} from '../types';
+import { SharedCourse } from '../services/sharing';
+import { NarrationTrack } from '../services/narration';
+import { ListeningState } from './state';
+
+// Everything that changes the app state, named after what happened. Actions that
+// arrive after an async load carry the user or course they were started for, so a
+// late reply for someone who signed out or moved on is dropped by the reducer.
+
+type AuthAction =
+  | { type: 'auth/signedIn'; user: User }
+  | { type: 'auth/signedOut' }
+  | { type: 'session/reset' }
+  | { type: 'profile/updated'; userId: string; profile: LearnerProfile };
+
+type LibraryAction =
+  | { type: 'library/loadStarted' }
+  | { type: 'library/loaded'; userId: string; library: SavedCourse[] }
+  | { type: 'library/loadFinished' }
+  | { type: 'library/courseAdded'; course: SavedCourse }
+  | { type: 'library/courseRemoved'; courseId: string }
+  | { type: 'library/courseSynced'; course: SavedCourse }
+  | { type: 'library/listeningPositionSaved'; courseId: string; listeningPosition: ListeningPosition }
+  | { type: 'reviews/loaded'; userId: string; cardReviews: Record<string, CardReview> }
+  | { type: 'reviews/cardScheduled'; review: CardReview }
+  | { type: 'sharing/courseOpened'; shared: SharedCourse }
+  | { type: 'sharing/courseClosed' }
+  | { type: 'sharing/linkCreated'; courseId: string; url: string }
+  | { type: 'sharing/linkDismissed' };
+
+type SubjectAction =
+  | { type: 'subjects/loadStarted' }
+  | { type: 'subjects/loaded'; userId: string; subjects: SavedSubject[] }
+  | { type: 'subjects/loadFinished' }
+  | { type: 'subjects/saved'; subject: SavedSubject }
+  | { type: 'subjects/opened'; subject: SavedSubject }
+  | { type: 'subjects/deleted'; subjectId: string };
+
+type WizardAction =
+  | { type: 'wizard/started' }
+  | { type: 'wizard/pillarsRequested'; subject: string }
+  | { type: 'wizard/pillarsLoaded'; pillars: LearningPillar[] }
+  | { type: 'wizard/placementRequested'; pillar: LearningPillar }
+  | { type: 'wizard/placementLoaded'; placementQuiz: PlacementQuestion[] }
+  | { type: 'wizard/placementCancelled' }
+  | { type: 'wizard/pathsRequested'; placement: PlacementResult | null }
+  | { type: 'wizard/pathsLoaded'; paths: LessonPath[] }
+  | { type: 'wizard/savedPathsOpened'; pillar: LearningPillar; paths: LessonPath[] }
+  | { type: 'wizard/generationFailed'; error: string | null }
+  // `from` is the course a recommended next path is started from
+  | { type: 'wizard/courseRequested'; path: LessonPath; from?: SavedCourse }
+  | { type: 'wizard/courseOutlined'; course: SavedCourse; thread: ChatThread }
+  | { type: 'wizard/courseFailed'; error: string | null };
+
+type CourseAction =
+  | { type: 'course/opened'; course: SavedCourse }
+  | { type: 'course/lessonFocused'; lessonIndex: number | null }
+  | { type: 'course/lessonGenerationStarted'; courseId: string; index: number }
+  | { type: 'course/lessonGenerationFinished'; courseId: string; index: number }
+  | { type: 'course/generationStopped'; courseId: string }
+  | { type: 'course/lessonWritten'; courseId: string; index: number; lesson: SubLesson }
+  | { type: 'course/lessonFailed'; courseId: string; index: number }
+  | { type: 'course/lessonRewritten'; courseId: string; index: number; lesson: SubLesson; revision: LessonRevision }
+  | { type: 'course/lessonVersionRestored'; courseId: string; index: number; versionIndex: number }
+  | { type: 'course/quizGenerationStarted'; courseId: string; index: number }
+  | { type: 'course/quizGenerationFinished'; courseId: string; index: number }
+  | { type: 'course/quizAdded'; courseId: string; index: number; quiz: LessonQuiz }
+  | { type: 'course/narrationAdded'; courseId: string; track: NarrationTrack; narration: NarrationAudio }
+  | { type: 'course/lessonToggled'; index: number }
+  | { type: 'course/quizSubmitted'; index: number; score: number }
+  | { type: 'course/masteryToggled' }
+  | { type: 'course/feedbackGiven'; index: number; feedback: 'helpful' | 'unhelpful' };
+
+type NavigationAction =
+  | { type: 'navigation/dashboardShown' }
+  | { type: 'navigation/pillarsShown'; subject: string; pillars: LearningPillar[] }
+  | { type: 'navigation/pathsShown'; subject: string; pillars: LearningPillar[]; pillar: LearningPillar; paths: LessonPath[]; placement: PlacementResult | null }
+  | { type: 'navigation/placementShown' };
+
+type TutorAction =
+  | { type: 'tutor/threadsLoaded'; courseId: string; threads: ChatThread[]; thread: ChatThread }
+  | { type: 'tutor/threadActivated'; thread: ChatThread; threads: ChatThread[] }
+  | { type: 'tutor/threadSaved'; thread: ChatThread }
+  | { type: 'tutor/messageSent'; message: ChatMessage; reply: ChatMessage }
+  | { type: 'tutor/replyUpdated'; replyId: string; changes: Partial<ChatMessage> }
+  | { type: 'tutor/exchangeDiscarded'; messageId: string; replyId: string };
+
+type AudioAction =
+  | { type: 'audio/listeningStarted'; listening: ListeningState }
+  | { type: 'audio/listeningStopped' };
+
+type ErrorAction =
+  | { type: 'error/shown'; error: string }
+  | { type: 'error/dismissed' };
+
+export type AppAction =
+  | AuthAction
+  | LibraryAction
+  | SubjectAction
+  | WizardAction
+  | CourseAction
+  | NavigationAction
+  | TutorAction
+  | AudioAction
+  | ErrorAction;
@@ -0,0 +1,30 @@
+import { AppAction } from './actions';
+import { appReducer } from './reducer';
+import { StoreState } from './state';
+
+// A single store outside React, so async flows read the state as it is when they
+// resume (`getState()`) instead of the state captured when they started.
+export interface AppStore {
+  getState: () => StoreState;
+  dispatch: (action: AppAction) => void;
+  subscribe: (listener: () => void) => () => void;
+}
+
+export const createAppStore = (initialState: StoreState): AppStore => {
+  let state = initialState;
+  const listeners = new Set<() => void>();
+
+  return {
+    getState: () => state,
+    dispatch: (action) => {
+      const next = appReducer(state, action);
+      if (next === state) return;
+      state = next;
+      listeners.forEach(listener => listener());
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+};
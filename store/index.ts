@@ -0,0 +1,7 @@
+export * from './state';
+export * from './actions';
+export * from './reducer';
+export * from './selectors';
+export * from './createAppStore';
+export * from './AppStoreProvider';
+export * from './useSessionPersistence';
@@ -0,0 +1,328 @@
+import { AppStep, Curriculum, SubLesson } from '../types';
+import { mergeSubjects } from '../services/subjectStore';
+import { recordAttempt, isMastered } from '../services/quizGrading';
+import { withRegeneratedLesson, restoreLessonVersion } from '../services/lessonVersions';
+import { withNarration } from '../services/narration';
+import { AppAction } from './actions';
+import { INITIAL_STATE, StoreState, lessonKey } from './state';
+
+// Applies a curriculum change to a saved course, and to the open view if it is showing that course
+const updateCurriculum = (state: StoreState, courseId: string, update: (curriculum: Curriculum) => Curriculum): StoreState => ({
+  ...state,
+  library: state.library.map(c => c.id === courseId ? { ...c, curriculum: update(c.curriculum) } : c),
+  curriculum: state.activeCourseId === courseId && state.curriculum ? update(state.curriculum) : state.curriculum
+});
+
+const updateLesson = (state: StoreState, courseId: string, index: number, update: (lesson: SubLesson) => SubLesson): StoreState =>
+  updateCurriculum(state, courseId, c => ({
+    ...c,
+    subLessons: c.subLessons.map((l, i) => i === index ? update(l) : l)
+  }));
+
+const withKey = (keys: string[], key: string) => [...keys, key];
+const withoutKey = (keys: string[], key: string) => keys.filter(k => k !== key);
+
+// What a course screen leaves behind when another screen replaces it
+const LEAVE_COURSE = { activeCourseId: null, curriculum: null, selectedPath: null };
+
+export const appReducer = (state: StoreState, action: AppAction): StoreState => {
+  switch (action.type) {
+    // --- Auth ---
+    case 'auth/signedIn': {
+      const { user } = action;
+      return {
+        ...state,
+        // Keep the profile restored from the saved session until the fresh copy loads
+        user: state.user?.id === user.id && state.user.profile ? { ...user, profile: state.user.profile } : user,
+        // If we were on AUTH step, go to DASHBOARD, otherwise stay (e.g. refresh on curriculum)
+        step: state.step === AppStep.AUTH ? AppStep.DASHBOARD : state.step
+      };
+    }
+    case 'auth/signedOut':
+      return { ...state, user: null, step: AppStep.AUTH, library: [] };
+    case 'session/reset':
+      return INITIAL_STATE;
+    case 'profile/updated':
+      return state.user?.id === action.userId ? { ...state, user: { ...state.user, profile: action.profile } } : state;
+
+    // --- Library ---
+    case 'library/loadStarted':
+      return { ...state, isLibraryLoaded: false };
+    case 'library/loaded': {
+      if (state.user?.id !== action.userId) return state;
+      const active = action.library.find(c => c.id === state.activeCourseId);
+      const curriculum = state.curriculum?.audioData && active ? active.curriculum : state.curriculum;
+      return { ...state, library: action.library, curriculum };
+    }
+    case 'library/loadFinished':
+      return { ...state, isLibraryLoaded: true };
+    case 'library/courseAdded':
+      return { ...state, library: [action.course, ...state.library] };
+    case 'library/courseRemoved':
+      return {
+        ...state,
+        library: state.library.filter(c => c.id !== action.courseId),
+        cardReviews: Object.fromEntries(Object.entries(state.cardReviews).filter(([, r]) => r.courseId !== action.courseId)),
+        listening: state.listening?.courseId === action.courseId ? null : state.listening
+      };
+    case 'library/courseSynced':
+      return { ...state, library: state.library.map(c => c.id === action.course.id ? action.course : c) };
+    case 'library/listeningPositionSaved':
+      return {
+        ...state,
+        library: state.library.map(c => c.id === action.courseId ? { ...c, listeningPosition: action.listeningPosition } : c)
+      };
+    case 'reviews/loaded':
+      return state.user?.id === action.userId ? { ...state, cardReviews: action.cardReviews } : state;
+    case 'reviews/cardScheduled':
+      return { ...state, cardReviews: { ...state.cardReviews, [action.review.cardId]: action.review } };
+    case 'sharing/courseOpened':
+      return { ...state, sharedCourse: action.shared, step: AppStep.DASHBOARD };
+    case 'sharing/courseClosed':
+      return { ...state, sharedCourse: null };
+    case 'sharing/linkCreated':
+      return { ...state, shareLink: { courseId: action.courseId, url: action.url } };
+    case 'sharing/linkDismissed':
+      return { ...state, shareLink: null };
+
+    // --- Subjects ---
+    case 'subjects/loadStarted':
+      return { ...state, areSubjectsLoaded: false };
+    case 'subjects/loaded':
+      // Keeps any newer local copies
+      return state.user?.id === action.userId ? { ...state, subjects: mergeSubjects(state.subjects, action.subjects) } : state;
+    case 'subjects/loadFinished':
+      return { ...state, areSubjectsLoaded: true };
+    case 'subjects/saved':
+      return { ...state, subjects: mergeSubjects(state.subjects.filter(s => s.id !== action.subject.id), [action.subject]) };
+    case 'subjects/opened':
+      return {
+        ...state,
+        ...LEAVE_COURSE,
+        step: AppStep.SUBJECT,
+        subject: action.subject.name,
+        pillars: action.subject.pillars,
+        selectedPillar: null,
+        paths: [],
+        placement: null
+      };
+    case 'subjects/deleted':
+      return {
+        ...state,
+        step: AppStep.DASHBOARD,
+        subject: '',
+        pillars: [],
+        subjects: state.subjects.filter(s => s.id !== action.subjectId)
+      };
+
+    // --- Generation wizard ---
+    case 'wizard/started':
+      return {
+        ...state,
+        ...LEAVE_COURSE,
+        step: AppStep.INPUT,
+        subject: '',
+        selectedPillar: null,
+        chatHistory: [],
+        chatThreads: [],
+        activeThreadId: null
+      };
+    case 'wizard/pillarsRequested':
+      return { ...state, isLoading: true, subject: action.subject, error: null };
+    case 'wizard/pillarsLoaded':
+      return { ...state, isLoading: false, pillars: action.pillars, step: AppStep.PILLARS };
+    case 'wizard/placementRequested':
+      return { ...state, isLoading: true, selectedPillar: action.pillar, placement: null, error: null };
+    case 'wizard/placementLoaded':
+      return { ...state, isLoading: false, placementQuiz: action.placementQuiz, step: AppStep.PLACEMENT };
+    case 'wizard/placementCancelled':
+      return { ...state, isLoading: false, selectedPillar: null };
+    case 'wizard/pathsRequested':
+      return { ...state, isLoading: true, placement: action.placement, error: null };
+    case 'wizard/pathsLoaded':
+      return { ...state, isLoading: false, paths: action.paths, step: AppStep.PATHS };
+    case 'wizard/savedPathsOpened':
+      return {
+        ...state,
+        selectedPillar: action.pillar,
+        paths: action.paths,
+        placement: null,
+        placementQuiz: [],
+        step: AppStep.PATHS,
+        error: null
+      };
+    case 'wizard/generationFailed':
+      return { ...state, isLoading: false, error: action.error };
+    case 'wizard/courseRequested': {
+      const { from } = action;
+      return {
+        ...state,
+        // A recommended next path inherits its course's subject, pillar and sibling paths
+        ...(from ? {
+          step: AppStep.PATHS,
+          subject: from.subject,
+          selectedPillar: from.pillar,
+          paths: from.siblingPaths || [],
+          placement: null
+        } : {}),
+        isLoading: true,
+        selectedPath: action.path,
+        error: null
+      };
+    }
+    case 'wizard/courseOutlined': {
+      const { course, thread } = action;
+      return {
+        ...state,
+        isLoading: false,
+        curriculum: course.curriculum,
+        completedSubLessons: [],
+        subLessonFeedback: {},
+        quizScores: {},
+        requireMastery: false,
+        step: AppStep.CURRICULUM,
+        activeCourseId: course.id,
+        library: [course, ...state.library],
+        chatThreads: [thread],
+        activeThreadId: thread.id,
+        chatHistory: thread.messages,
+        // Lessons fill in behind the outline
+        generatingLessons: [...state.generatingLessons, ...course.curriculum.subLessons.map((_, i) => lessonKey(course.id, i))]
+      };
+    }
+    case 'wizard/courseFailed':
+      return { ...state, isLoading: false, selectedPath: null, error: action.error };
+
+    // --- Course ---
+    case 'course/opened': {
+      const { course } = action;
+      return {
+        ...state,
+        step: AppStep.CURRICULUM,
+        activeCourseId: course.id,
+        subject: course.subject,
+        selectedPillar: course.pillar,
+        selectedPath: course.path,
+        curriculum: course.curriculum,
+        completedSubLessons: course.completedSubLessons,
+        subLessonFeedback: course.subLessonFeedback,
+        quizScores: course.quizScores || {},
+        requireMastery: !!course.requireMastery,
+        chatHistory: [],
+        chatThreads: [],
+        activeThreadId: null,
+        focusedLesson: null
+      };
+    }
+    case 'course/lessonFocused':
+      return { ...state, focusedLesson: action.lessonIndex };
+    case 'course/lessonGenerationStarted':
+      return { ...state, generatingLessons: withKey(state.generatingLessons, lessonKey(action.courseId, action.index)) };
+    case 'course/lessonGenerationFinished':
+      return { ...state, generatingLessons: withoutKey(state.generatingLessons, lessonKey(action.courseId, action.index)) };
+    case 'course/generationStopped':
+      return { ...state, generatingLessons: state.generatingLessons.filter(k => !k.startsWith(`${action.courseId}:`)) };
+    case 'course/lessonWritten':
+      return updateLesson(state, action.courseId, action.index, () => action.lesson);
+    case 'course/lessonFailed':
+      return updateLesson(state, action.courseId, action.index, lesson => ({ ...lesson, status: 'failed' }));
+    case 'course/lessonRewritten': {
+      const next = updateLesson(state, action.courseId, action.index, lesson => withRegeneratedLesson(lesson, action.lesson, action.revision));
+      if (state.activeCourseId !== action.courseId) return next;
+      // The new version hasn't been rated yet
+      const { [action.index]: _, ...subLessonFeedback } = next.subLessonFeedback;
+      return { ...next, subLessonFeedback };
+    }
+    case 'course/lessonVersionRestored':
+      return updateLesson(state, action.courseId, action.index, lesson => restoreLessonVersion(lesson, action.versionIndex));
+    case 'course/quizGenerationStarted':
+      return { ...state, generatingQuizzes: withKey(state.generatingQuizzes, lessonKey(action.courseId, action.index)) };
+    case 'course/quizGenerationFinished':
+      return { ...state, generatingQuizzes: withoutKey(state.generatingQuizzes, lessonKey(action.courseId, action.index)) };
+    case 'course/quizAdded':
+      return updateLesson(state, action.courseId, action.index, lesson => ({ ...lesson, quiz: action.quiz }));
+    case 'course/narrationAdded':
+      return updateCurriculum(state, action.courseId, c => withNarration(c, action.track, action.narration));
+    case 'course/lessonToggled': {
+      const { index } = action;
+      const isCompleted = state.completedSubLessons.includes(index);
+      // With mastery gating on, a lesson is completed by passing its quiz
+      if (!isCompleted && state.requireMastery && !isMastered(state.quizScores[index])) return state;
+      const completedSubLessons = isCompleted
+        ? state.completedSubLessons.filter(i => i !== index)
+        : [...state.completedSubLessons, index];
+      return { ...state, completedSubLessons };
+    }
+    case 'course/quizSubmitted': {
+      const { index } = action;
+      const quizScores = { ...state.quizScores, [index]: recordAttempt(state.quizScores[index], action.score) };
+      const passed = isMastered(quizScores[index]);
+      const completedSubLessons = state.requireMastery && passed && !state.completedSubLessons.includes(index)
+        ? [...state.completedSubLessons, index]
+        : state.completedSubLessons;
+      return { ...state, quizScores, completedSubLessons };
+    }
+    case 'course/masteryToggled':
+      return { ...state, requireMastery: !state.requireMastery };
+    case 'course/feedbackGiven':
+      return { ...state, subLessonFeedback: { ...state.subLessonFeedback, [action.index]: action.feedback } };
+
+    // --- Navigation ---
+    case 'navigation/dashboardShown':
+      return { ...state, ...LEAVE_COURSE, step: AppStep.DASHBOARD, subject: '', pillars: [], selectedPillar: null, paths: [] };
+    case 'navigation/pillarsShown':
+      return {
+        ...state,
+        ...LEAVE_COURSE,
+        step: AppStep.PILLARS,
+        subject: action.subject,
+        pillars: action.pillars,
+        selectedPillar: null,
+        paths: [],
+        placementQuiz: [],
+        placement: null
+      };
+    case 'navigation/pathsShown':
+      return {
+        ...state,
+        ...LEAVE_COURSE,
+        step: AppStep.PATHS,
+        subject: action.subject,
+        pillars: action.pillars,
+        selectedPillar: action.pillar,
+        paths: action.paths,
+        placement: action.placement
+      };
+    case 'navigation/placementShown':
+      return { ...state, ...LEAVE_COURSE, step: AppStep.PLACEMENT };
+
+    // --- Tutor ---
+    case 'tutor/threadsLoaded':
+      if (state.activeCourseId !== action.courseId) return state;
+      return { ...state, chatThreads: action.threads, activeThreadId: action.thread.id, chatHistory: action.thread.messages };
+    case 'tutor/threadActivated':
+      return { ...state, chatThreads: action.threads, activeThreadId: action.thread.id, chatHistory: action.thread.messages };
+    case 'tutor/threadSaved':
+      return { ...state, chatThreads: state.chatThreads.map(t => t.id === action.thread.id ? action.thread : t) };
+    case 'tutor/messageSent':
+      return { ...state, chatHistory: [...state.chatHistory, action.message, action.reply] };
+    case 'tutor/replyUpdated':
+      return {
+        ...state,
+        chatHistory: state.chatHistory.map(m => m.id === action.replyId ? { ...m, ...action.changes } : m)
+      };
+    case 'tutor/exchangeDiscarded':
+      return { ...state, chatHistory: state.chatHistory.filter(m => m.id !== action.messageId && m.id !== action.replyId) };
+
+    // --- Audio ---
+    case 'audio/listeningStarted':
+      return { ...state, listening: action.listening };
+    case 'audio/listeningStopped':
+      return { ...state, listening: null };
+
+    case 'error/shown':
+      return { ...state, error: action.error };
+    case 'error/dismissed':
+      return { ...state, error: null };
+  }
+};
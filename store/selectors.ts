@@ -0,0 +1,30 @@
+import { AppStep } from '../types';
+import { buildReviewQueue } from '../services/flashcards';
+import { subjectIdFor, coursesForSubject } from '../services/subjectStore';
+import { StoreState } from './state';
+
+export const selectCurrentCourse = (state: StoreState) =>
+  state.library.find(c => c.id === state.activeCourseId) || null;
+
+export const selectCurrentSubject = (state: StoreState) =>
+  state.subjects.find(s => s.id === subjectIdFor(state.subject)) || null;
+
+// Courses belonging to the subject being browsed, for colouring the knowledge map
+export const selectSubjectCourses = (state: StoreState) => {
+  const subject = selectCurrentSubject(state);
+  return subject ? coursesForSubject(subject, state.library) : state.library.filter(c => c.subject === state.subject);
+};
+
+// Courses far enough along to suggest what comes after them
+export const selectUpNextCourses = (state: StoreState) => state.library
+  .filter(c => c.completedSubLessons.length / (c.curriculum.subLessons.length || 1) >= 0.5)
+  .slice(0, 2);
+
+export const selectDueCards = (state: StoreState) =>
+  state.step === AppStep.DASHBOARD ? buildReviewQueue(state.library, state.cardReviews) : [];
+
+export const selectIsTutorResponding = (state: StoreState) =>
+  state.chatHistory.some(m => m.isThinking || m.isStreaming);
+
+export const selectListeningCourse = (state: StoreState) =>
+  state.listening ? state.library.find(c => c.id === state.listening?.courseId) || null : null;
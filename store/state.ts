@@ -0,0 +1,90 @@
+import { AppState, AppStep } from '../types';
+import { SharedCourse } from '../services/sharing';
+import { loadSessionState } from '../services/persistence';
+
+export interface ListeningState {
+  courseId: string;
+  trackId: string;
+  time: number;
+}
+
+// State shared between features that is never saved with the session: work in
+// flight and what's on screen around the current step.
+export interface TransientState {
+  // `${courseId}:${lessonIndex}` keys of sub-lessons currently being written
+  generatingLessons: string[];
+  generatingQuizzes: string[];
+  // The course playlist in the narration player, kept open across views
+  listening: ListeningState | null;
+  // Lesson the URL points at; scrolled into view when its course is showing
+  focusedLesson: number | null;
+  isLibraryLoaded: boolean;
+  areSubjectsLoaded: boolean;
+  // A course opened from a share link, waiting to be added to the library
+  sharedCourse: SharedCourse | null;
+  // The last share link created, shown so it can be copied again
+  shareLink: { courseId: string; url: string } | null;
+}
+
+export type StoreState = AppState & TransientState;
+
+export const INITIAL_SESSION: AppState = {
+  step: AppStep.AUTH, // Start at Auth
+  user: null,
+  library: [],
+  subjects: [],
+  activeCourseId: null,
+
+  subject: '',
+  selectedPillar: null,
+  selectedPath: null,
+  curriculum: null,
+  completedSubLessons: [],
+  subLessonFeedback: {},
+  quizScores: {},
+  requireMastery: false,
+  cardReviews: {},
+  pillars: [],
+  placementQuiz: [],
+  placement: null,
+  paths: [],
+  chatHistory: [],
+  chatThreads: [],
+  activeThreadId: null,
+  isLoading: false,
+  error: null,
+};
+
+export const INITIAL_STATE: StoreState = {
+  ...INITIAL_SESSION,
+  generatingLessons: [],
+  generatingQuizzes: [],
+  listening: null,
+  focusedLesson: null,
+  isLibraryLoaded: false,
+  areSubjectsLoaded: false,
+  sharedCourse: null,
+  shareLink: null,
+};
+
+export const lessonKey = (courseId: string, index: number) => `${courseId}:${index}`;
+
+// The part of the state that's saved so a refresh returns to the same screen.
+export const sessionOf = (state: StoreState): AppState => {
+  const {
+    generatingLessons, generatingQuizzes, listening, focusedLesson, isLibraryLoaded, areSubjectsLoaded, sharedCourse, shareLink,
+    ...session
+  } = state;
+  return session;
+};
+
+// The saved session, with the library coming from the course repository once a user signs in.
+export const loadInitialState = (): StoreState => {
+  if (typeof window === 'undefined') return INITIAL_STATE;
+  const { state, recovered } = loadSessionState(INITIAL_SESSION);
+  return {
+    ...INITIAL_STATE,
+    ...state,
+    ...(recovered ? { error: "Part of your last session couldn't be restored. Your saved courses are not affected." } : {}),
+  };
+};
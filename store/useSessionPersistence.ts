@@ -0,0 +1,32 @@
+import { useEffect, useState } from 'react';
+import { saveSessionState } from '../services/persistence';
+import { useAppState } from './AppStoreProvider';
+import { sessionOf } from './state';
+
+// Saves the session to local storage (for refresh handling), returning why it couldn't be saved.
+export const useSessionPersistence = (): string | null => {
+  const state = useAppState();
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const cleanHistory = state.chatHistory
+      .filter(m => !m.isThinking)
+      .map(m => m.isStreaming ? { ...m, isStreaming: false, interrupted: true } : m);
+    const stateToSave = {
+      ...sessionOf(state),
+      chatHistory: cleanHistory,
+      isLoading: false,
+      error: null
+    };
+
+    try {
+      saveSessionState(stateToSave);
+      setSaveError(null);
+    } catch (e) {
+      console.error("Failed to save state to localStorage", e);
+      setSaveError("Storage limit reached.");
+    }
+  }, [state]);
+
+  return saveError;
+};
@@ -4,7 +4,9 @@ export enum AppStep {
   AUTH = 'AUTH',
   DASHBOARD = 'DASHBOARD',
   INPUT = 'INPUT',
+  SUBJECT = 'SUBJECT', // Overview of a saved subject's pillars and courses
   PILLARS = 'PILLARS',
+  PLACEMENT = 'PLACEMENT',
   PATHS = 'PATHS',
   CURRICULUM = 'CURRICULUM',
 }
@@ -14,14 +16,40 @@ export interface LearningPillar {
   title: string;
   description: string;
   icon?: string; // Placeholder for UI icon mapping
+  prerequisites?: number[]; // Ids of earlier pillars to study first
 }
 
+export type Difficulty = 'Beginner' | 'Intermediate' | 'Advanced';
+
+// How well a path matches the learner's placement result
+export type PathFit = 'recommended' | 'too_easy' | 'too_hard';
+
 export interface LessonPath {
   id: number;
   title: string;
   description: string;
-  difficulty: 'Beginner' | 'Intermediate' | 'Advanced';
+  difficulty: Difficulty;
   estimatedTime: string;
+  fit?: PathFit; // Only present when paths were generated after a placement quiz
+  fitReason?: string;
+  prerequisites?: number[]; // Ids of earlier paths in the same pillar to take first
+}
+
+export interface PlacementQuestion {
+  id: number;
+  question: string;
+  options: string[];
+  correctIndex: number;
+  difficulty: Difficulty;
+  topic: string; // Short label used to report weak areas
+}
+
+export interface PlacementResult {
+  level: Difficulty;
+  correct: number;
+  total: number;
+  byDifficulty: Record<Difficulty, { correct: number; total: number }>;
+  weakTopics: string[];
 }
 
 export interface SubLesson {
@@ -34,6 +62,117 @@ export interface SubLesson {
   example: string; // Concrete example or analogy
   visualDescription: string; // Text description of a diagram/image to help understanding
   actionItem: string; // Practical task
+  status?: 'pending' | 'failed'; // Set while only the outline (title/content) exists; absent once filled
+  quiz?: LessonQuiz; // Generated on demand
+  history?: SubLessonVersion[]; // Earlier versions replaced by regeneration, oldest first
+  narration?: NarrationAudio; // Generated on first listen
+}
+
+export interface AudioChapter {
+  title: string;
+  start: number; // Seconds from the start of the track
+}
+
+export interface NarrationAudio {
+  assetId: string; // Asset store id of the WAV file
+  chapters: AudioChapter[];
+  voiceKey?: string; // Voice settings it was generated with; absent for the provider's default narrator
+}
+
+export interface PodcastLine {
+  speaker: 'host' | 'guest';
+  text: string;
+}
+
+export type OverviewStyle = 'narration' | 'dialogue';
+
+export interface AudioPreferences {
+  voice: string; // Narrator voice id from the LLM provider's voice list
+  languageCode: string; // BCP-47 code for speech, or '' to detect it from the text
+  overviewStyle: OverviewStyle; // How the course introduction is voiced
+  dialogueVoices: [string, string]; // Host and guest voices for the podcast overview
+}
+
+export interface ListeningPosition {
+  trackId: string; // See services/narration.ts
+  time: number; // Seconds into the track
+  updatedAt: number;
+}
+
+export type RegenerationReason = 'too_hard' | 'too_shallow' | 'wrong_examples' | 'other';
+
+export interface LessonRevision {
+  reason: RegenerationReason;
+  note?: string; // Learner's own words, optional
+}
+
+export interface SubLessonVersion {
+  lesson: Omit<SubLesson, 'history'>;
+  replacedAt: number;
+  revision?: LessonRevision; // Why it was replaced; absent when replaced by a revert
+}
+
+interface QuizQuestionBase {
+  id: number;
+  prompt: string;
+  explanation: string; // Shown after grading
+}
+
+export interface MultipleChoiceQuestion extends QuizQuestionBase {
+  type: 'multiple_choice';
+  options: string[];
+  correctIndex: number;
+}
+
+export interface ShortAnswerQuestion extends QuizQuestionBase {
+  type: 'short_answer';
+  acceptableAnswers: string[];
+}
+
+export interface OrderingQuestion extends QuizQuestionBase {
+  type: 'ordering';
+  orderedItems: string[]; // In the correct order; shuffled for display
+}
+
+export type QuizQuestion = MultipleChoiceQuestion | ShortAnswerQuestion | OrderingQuestion;
+
+// Option index, typed answer, or items in the learner's chosen order
+export type QuizAnswer = number | string | string[];
+
+export interface LessonQuiz {
+  questions: QuizQuestion[];
+  generatedAt: number;
+}
+
+export interface LessonScore {
+  best: number; // 0-1
+  last: number; // 0-1
+  attempts: number;
+  updatedAt: number;
+}
+
+export type FlashcardSource = 'concept' | 'reference' | 'example';
+
+export interface Flashcard {
+  id: string; // Derived from the card content so it survives curriculum reloads
+  courseId: string;
+  source: FlashcardSource;
+  front: string;
+  back: string;
+}
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+// SM-2 scheduling state for one flashcard
+export interface CardReview {
+  cardId: string;
+  courseId: string;
+  easiness: number; // SM-2 easiness factor, never below 1.3
+  interval: number; // Days until the next review
+  repetitions: number; // Consecutive successful reviews
+  lapses: number;
+  due: number; // Timestamp
+  lastReviewedAt: number;
 }
 
 export interface CaseStudy {
@@ -51,7 +190,9 @@ export interface Curriculum {
   caseStudy: CaseStudy; // Specific narrative example
   subLessons: SubLesson[];
   resources: string[]; // Further reading/search terms
-  audioData?: string; // Base64 PCM audio data for the module overview
+  narration?: NarrationAudio; // Narrated introduction, the first track of the course playlist
+  audioAssetId?: string; // Narrated module overview from before per-lesson narration, played as the introduction
+  audioData?: string; // Legacy inline base64 PCM; moved to the asset store when the course loads
 }
 
 export interface ChatMessage {
@@ -60,6 +201,31 @@ export interface ChatMessage {
   text: string;
   timestamp: number;
   isThinking?: boolean;
+  isStreaming?: boolean; // Model message still receiving tokens
+  interrupted?: boolean; // Generation was stopped or failed part-way; text is partial
+}
+
+export interface ChatThread {
+  id: string;
+  title: string;
+  messages: ChatMessage[];
+  createdAt: number;
+  updatedAt: number;
+  branchedFrom?: { threadId: string; messageId: string }; // Set when forked from another thread
+}
+
+export type LearningStyle = 'visual' | 'reading' | 'hands_on' | 'auditory';
+
+export type ReadingLevel = 'simple' | 'standard' | 'advanced';
+
+export interface LearnerProfile {
+  priorKnowledge: string; // Free text, e.g. "Comfortable with high-school algebra"
+  goals: string;
+  learningStyle: LearningStyle;
+  readingLevel: ReadingLevel;
+  weeklyHours: number; // Time budget per week
+  language: string; // Language generated content should be written in
+  audio?: AudioPreferences; // Narration settings; provider defaults when absent
 }
 
 export interface User {
@@ -68,16 +234,39 @@ export interface User {
   email?: string;
   photoURL?: string;
   joinedAt: number;
+  profile?: LearnerProfile;
+  // Anonymous session; linking an account keeps the id and its library
+  isGuest?: boolean;
+}
+
+// A subject's generated map (pillars and the paths explored under each), kept
+// so the learner can return to the same map instead of regenerating it.
+export interface SavedSubject {
+  id: string; // Slug of the name, so entering the same subject again finds it
+  name: string;
+  pillars: LearningPillar[];
+  pathsByPillar: Record<number, LessonPath[]>; // Keyed by pillar id
+  createdAt: number;
+  updatedAt: number;
 }
 
 export interface SavedCourse {
   id: string;
+  schemaVersion?: number; // Shape the course was stored in; see services/persistence/courseMigrations.ts
+  subjectId?: string; // Absent on courses saved before subjects were persisted
   subject: string;
   pillar: LearningPillar;
   path: LessonPath;
   curriculum: Curriculum;
   completedSubLessons: number[];
   subLessonFeedback: Record<number, 'helpful' | 'unhelpful'>;
+  quizScores?: Record<number, LessonScore>; // Keyed by sub-lesson index
+  requireMastery?: boolean; // Lessons can only be completed after passing their quiz
+  siblingPaths?: LessonPath[]; // The paths offered alongside this one, kept for recommendations
+  listeningPosition?: ListeningPosition; // Where the course playlist was paused
+  // When each lesson's completion or feedback last changed, keyed by `completed:<index>`
+  // and `feedback:<index>`, so removals win over older copies when devices sync
+  progressChangedAt?: Record<string, number>;
   createdAt: number;
   lastAccessed: number;
 }
@@ -86,6 +275,7 @@ export interface AppState {
   step: AppStep;
   user: User | null;
   library: SavedCourse[];
+  subjects: SavedSubject[];
   activeCourseId: string | null;
   
   // Active Session State
@@ -95,9 +285,16 @@ export interface AppState {
   curriculum: Curriculum | null;
   completedSubLessons: number[]; // Indices of completed sub-lessons
   subLessonFeedback: Record<number, 'helpful' | 'unhelpful'>; // Feedback for sub-lessons
+  quizScores: Record<number, LessonScore>;
+  requireMastery: boolean;
+  cardReviews: Record<string, CardReview>; // Review state for every course, keyed by card id
   pillars: LearningPillar[];
+  placementQuiz: PlacementQuestion[];
+  placement: PlacementResult | null; // Null when the quiz was skipped
   paths: LessonPath[];
-  chatHistory: ChatMessage[];
+  chatHistory: ChatMessage[]; // Messages of the active thread
+  chatThreads: ChatThread[]; // All tutor threads for the active course
+  activeThreadId: string | null;
   
   isLoading: boolean;
   error: string | null;
@@ -12,7 +12,22 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.LLM_PROVIDER': JSON.stringify(env.LLM_PROVIDER),
+        'process.env.LLM_MODEL': JSON.stringify(env.LLM_MODEL),
+        'process.env.LLM_BASE_URL': JSON.stringify(env.LLM_BASE_URL),
+        'process.env.LLM_API_KEY': JSON.stringify(env.LLM_API_KEY),
+        'process.env.LLM_TTS_MODEL': JSON.stringify(env.LLM_TTS_MODEL),
+        'process.env.LLM_TTS_VOICE': JSON.stringify(env.LLM_TTS_VOICE),
+        'process.env.FIREBASE_API_KEY': JSON.stringify(env.FIREBASE_API_KEY),
+        'process.env.FIREBASE_AUTH_DOMAIN': JSON.stringify(env.FIREBASE_AUTH_DOMAIN),
+        'process.env.FIREBASE_PROJECT_ID': JSON.stringify(env.FIREBASE_PROJECT_ID),
+        'process.env.FIREBASE_STORAGE_BUCKET': JSON.stringify(env.FIREBASE_STORAGE_BUCKET),
+        'process.env.FIREBASE_MESSAGING_SENDER_ID': JSON.stringify(env.FIREBASE_MESSAGING_SENDER_ID),
+        'process.env.FIREBASE_APP_ID': JSON.stringify(env.FIREBASE_APP_ID),
+        'process.env.FIREBASE_AUTH_EMULATOR_HOST': JSON.stringify(env.FIREBASE_AUTH_EMULATOR_HOST),
+        'process.env.FIREBASE_FIRESTORE_EMULATOR_HOST': JSON.stringify(env.FIREBASE_FIRESTORE_EMULATOR_HOST),
+        'process.env.FIREBASE_STORAGE_EMULATOR_HOST': JSON.stringify(env.FIREBASE_STORAGE_EMULATOR_HOST)
       },
       resolve: {
         alias: {